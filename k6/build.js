@@ -11,9 +11,10 @@ if (!fs.existsSync(distDir)) {
   fs.mkdirSync(distDir, { recursive: true });
 }
 
-// results 디렉토리 생성 (k6 handleSummary에서 파일 저장 시 필요)
-if (!fs.existsSync(resultsDir)) {
-  fs.mkdirSync(resultsDir, { recursive: true });
+// results 디렉토리 생성 (k6 handleSummary에서 파일 저장 시 필요, baseline 저장 위치 포함)
+const baselinesDir = path.resolve(resultsDir, 'baselines');
+if (!fs.existsSync(baselinesDir)) {
+  fs.mkdirSync(baselinesDir, { recursive: true });
 }
 
 // 모든 시나리오 파일 찾기
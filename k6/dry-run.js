@@ -0,0 +1,96 @@
+const esbuild = require('esbuild');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * 시나리오 dry run - 서버 / k6 없이 스케줄 검증 + ASCII 타임라인
+ *
+ *   yarn dry-run compare-strategies
+ *   PROFILE=smoke BURST_SEC=5 yarn dry-run stampede-simulation --latency-ms=300
+ *
+ * 시나리오를 k6 모듈 stub과 함께 메모리에서 번들해 init 코드만 실행하고(환경변수 = k6 __ENV),
+ * export된 options / plan을 src/utils/dry-run.ts의 analyzePlan / renderPlan으로 검사한다.
+ * - --latency-ms: VU 예산 계산에 쓰는 예상 응답 시간 (기본 200ms)
+ * - error가 하나라도 있으면 exit 1 (warn만 있으면 0)
+ * init 코드의 설정 검증(잘못된 값 / 오타 환경변수)도 k6 실행과 똑같이 여기서 실패한다.
+ */
+
+const SCENARIOS_DIR = path.resolve(__dirname, 'src/scenarios');
+const DEFAULT_LATENCY_MS = 200;
+
+// init 단계에서 쓰는 k6 API만 흉내 - VU 함수(http 요청 등)는 실행하지 않음
+const K6_STUBS = {
+  'k6': 'export function check() { return true; } export function sleep() {} export function group(_, fn) { return fn(); } export function fail(msg) { throw new Error(msg); }',
+  'k6/http': 'const unavailable = () => { throw new Error("HTTP is not available in a dry run"); }; export default { get: unavailable, post: unavailable, put: unavailable, del: unavailable, request: unavailable, batch: unavailable };',
+  'k6/metrics': 'class Metric { constructor(name) { this.name = name; } add() {} } export class Trend extends Metric {} export class Counter extends Metric {} export class Rate extends Metric {} export class Gauge extends Metric {}',
+  'k6/execution': 'export default { scenario: {}, vu: {}, instance: {} };',
+};
+
+function parseArgs(argv) {
+  let scenario;
+  let latencyMs = DEFAULT_LATENCY_MS;
+  argv.forEach(arg => {
+    const latency = /^--latency-ms=(\d+)$/.exec(arg);
+    if (latency) latencyMs = Number(latency[1]);
+    else if (!arg.startsWith('-') && !scenario) scenario = arg.replace(/\.ts$/, '');
+    else throw new Error(`Unknown argument "${arg}" (usage: yarn dry-run <scenario> [--latency-ms=N])`);
+  });
+  if (!scenario) throw new Error('Missing scenario name (e.g. yarn dry-run compare-strategies)');
+  return { scenario, latencyMs };
+}
+
+async function loadScenario(scenario) {
+  const file = path.resolve(SCENARIOS_DIR, `${scenario}.ts`);
+  if (!fs.existsSync(file)) {
+    const known = fs.readdirSync(SCENARIOS_DIR).filter(f => f.endsWith('.ts')).map(f => path.basename(f, '.ts'));
+    throw new Error(`Unknown scenario "${scenario}" (expected one of: ${known.join(', ')})`);
+  }
+
+  const result = await esbuild.build({
+    stdin: {
+      contents: `export * as scenario from './src/scenarios/${scenario}';\nexport * as dryRun from './src/utils/dry-run';\n`,
+      resolveDir: __dirname,
+      loader: 'ts',
+    },
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'cjs',
+    target: 'es2020',
+    plugins: [{
+      name: 'k6-stubs',
+      setup(build) {
+        build.onResolve({ filter: /^k6(\/.*)?$/ }, args => ({ path: args.path, namespace: 'k6-stub' }));
+        build.onLoad({ filter: /.*/, namespace: 'k6-stub' }, args => {
+          if (!(args.path in K6_STUBS)) throw new Error(`${args.path} is not stubbed for dry runs`);
+          return { contents: K6_STUBS[args.path], loader: 'js' };
+        });
+      },
+    }],
+  });
+
+  // k6 init context 전역
+  global.__ENV = { ...process.env };
+  global.open = file => fs.readFileSync(path.resolve(__dirname, file), 'utf8');
+  const mod = { exports: {} };
+  new Function('module', 'exports', 'require', result.outputFiles[0].text)(mod, mod.exports, require);
+  return mod.exports;
+}
+
+async function main() {
+  const { scenario, latencyMs } = parseArgs(process.argv.slice(2));
+  const { scenario: exported, dryRun } = await loadScenario(scenario);
+  if (!exported.options) throw new Error(`${scenario} does not export options`);
+
+  const issues = dryRun.analyzePlan(exported.options, exported.plan, latencyMs);
+  console.log(dryRun.renderPlan(scenario, exported.options, exported.plan, issues, latencyMs));
+  if (!exported.plan) {
+    console.log(`\n(${scenario} has no timeline plan - TTL windows were not checked)`);
+  }
+  if (issues.some(i => i.level === 'error')) process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
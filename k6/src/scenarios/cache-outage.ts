@@ -0,0 +1,351 @@
+import { check } from 'k6';
+import http from 'k6/http';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { restoreCache, setCacheOutage } from '../utils/faults';
+import {
+  measureOriginLoads,
+  originLoadMetrics,
+  originLoadProbe,
+  OriginLoadMetrics,
+  PROBE_SETTLE_SEC,
+  recordOriginLoads,
+} from '../utils/origin-loads';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, ReportRow, reportFiles, ReportTable } from '../utils/report';
+import { createServerScraper, runScrapeIteration, SCRAPE_ENABLED, scraperScenario } from '../utils/scraper';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { CACHED_STRATEGIES, matchesStrategyMeta, parseStrategyName, productUrl, STRATEGIES, StrategyName } from '../utils/strategies';
+import { createTimeSeries, elapsedSec, readTimeSeries, SeriesPoint } from '../utils/timeseries';
+import { buildTimeline, currentPhase, Phase, ScheduledPhase } from '../utils/timeline';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
+
+/**
+ * 캐시 계층(Redis) 장애 / 복구 테스트
+ *
+ * 전략마다 warm(캐시 채우기) → outage(서버 관리 스위치로 모든 Redis 명령 실패) → recovery(복구 후 재적재) 순서로 진행한다.
+ * - outage  : 전략이 캐시 없이 어떻게 버티는지 - 원본으로 우회(fail-open)하는지, 분산 락 명령 실패가 에러로 번지는지(fail-closed)
+ * - recovery: RESTORE_MODE=cold(기본)면 캐시 / 락 키를 비운 채 복구 → 콜드 캐시 재적재 스탬피드가 얼마나 이어지는지
+ *
+ * 장애 스위치는 OUTAGE_SEC보다 조금 길게 time box를 걸어 켜므로 k6가 중간에 멈춰도 서버에서 자동 복구된다. (이때는 캐시를 비우지 않음)
+ */
+
+type OutageMode = 'refused' | 'timeout';
+type RestoreMode = 'cold' | 'warm';
+
+const env = defineConfig('cache-outage', {
+  OUTAGE_STRATEGIES: { type: 'string', default: CACHED_STRATEGIES.join(',') },
+  OUTAGE_MODE: { type: 'string', default: 'refused', choices: ['refused', 'timeout'] },
+  RESTORE_MODE: { type: 'string', default: 'cold', choices: ['cold', 'warm'] },
+  // timeout 모드에서 Redis 명령 하나가 실패하기까지 매달리는 시간
+  OUTAGE_TIMEOUT_MS: { type: 'number', default: 1000, min: 1, integer: true },
+  RPS: { type: 'number', default: 100, min: 1 },
+  WARM_SEC: { type: 'number', default: 10, min: 1, integer: true },
+  OUTAGE_SEC: { type: 'number', default: 15, min: 1, integer: true },
+  RECOVERY_SEC: { type: 'number', default: 20, min: 1, integer: true },
+  GAP_SEC: { type: 'number', default: 5, min: 0, integer: true },
+  PRE_VUS: { type: 'number', default: 100, min: 1, integer: true },
+  MAX_VUS: { type: 'number', default: 800, min: 1, integer: true },
+  // 복구 후 원본 로드 비율이 이 값 이하로 떨어진 첫 bucket을 "재적재 끝"으로 본다
+  REFILL_SETTLED_RATIO: { type: 'number', default: 0.05, min: 0, max: 1 },
+});
+
+const strategies: StrategyName[] = env.OUTAGE_STRATEGIES
+  .split(',')
+  .map(s => parseStrategyName(s.trim()));
+
+const OUTAGE_MODE = env.OUTAGE_MODE as OutageMode;
+const RESTORE_MODE = env.RESTORE_MODE as RestoreMode;
+const OUTAGE_TIMEOUT_MS = OUTAGE_MODE === 'timeout' ? env.OUTAGE_TIMEOUT_MS : 0;
+
+const { RPS, WARM_SEC, OUTAGE_SEC, RECOVERY_SEC, GAP_SEC, PRE_VUS, MAX_VUS, REFILL_SETTLED_RATIO } = env;
+
+const LOAD_PHASES = ['warm', 'outage', 'recovery'];
+
+const phases: Phase[] = [];
+strategies.forEach(s => {
+  const prefix = STRATEGIES[s].metricPrefix;
+  const tags = { strategy: s };
+  const load = (phase: string, durationSec: number): Phase => ({
+    kind: 'load',
+    name: `${phase}_${prefix}`,
+    phase,
+    tags,
+    exec: 'hit',
+    durationSec,
+    rps: RPS,
+    preAllocatedVUs: PRE_VUS,
+    maxVUs: MAX_VUS,
+  });
+
+  phases.push(
+    load('warm', WARM_SEC),
+    { kind: 'action', name: `take_down_${prefix}`, phase: 'take_down', exec: 'takeDown', tags, maxDurationSec: 5 },
+    originLoadProbe(`probe_outage_${prefix}`, OUTAGE_SEC, 'probe', { ...tags, target: 'outage' }),
+    load('outage', OUTAGE_SEC),
+    // outage probe(outage + settle)가 끝난 뒤 복구 - 복구 직후 재적재 로드가 outage 구간에 섞이지 않게
+    { kind: 'wait', name: `settle_outage_${prefix}`, durationSec: PROBE_SETTLE_SEC },
+    { kind: 'action', name: `restore_${prefix}`, phase: 'restore', exec: 'restore', tags, maxDurationSec: 10 },
+    originLoadProbe(`probe_recovery_${prefix}`, RECOVERY_SEC, 'probe', { ...tags, target: 'recovery' }),
+    load('recovery', RECOVERY_SEC),
+    { kind: 'wait', name: `gap_${prefix}`, durationSec: GAP_SEC },
+  );
+});
+const timeline = buildTimeline(phases);
+
+// (전략, phase)별 메트릭 - 원본 로드 probe는 outage / recovery만
+const phaseMetrics: Record<string, PhaseMetrics> = {};
+const originLoads: Record<string, OriginLoadMetrics> = {};
+strategies.forEach(s => {
+  LOAD_PHASES.forEach(p => {
+    phaseMetrics[`${s}:${p}`] = createPhaseMetrics(s, p);
+  });
+  ['outage', 'recovery'].forEach(p => {
+    originLoads[`${s}:${p}`] = originLoadMetrics(phaseMetricName(s, p, 'origin_loads'));
+  });
+});
+
+// 서버 메트릭 (cache.outage.rejected / cache.lock.redis_errors 포함) - {strategy}_{phase}_server_*
+const serverScraper = createServerScraper(timeline);
+
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', timeline.totalSec);
+
+const baseline = loadBaseline('cache-outage'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
+export const options = {
+  scenarios: SCRAPE_ENABLED
+    ? { ...timeline.scenarios, scrape_server_metrics: scraperScenario(timeline.totalSec) }
+    : timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
+};
+
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
+
+export function setup() {
+  console.log('=== Cache Outage ===');
+  printConfig();
+  console.log(`outage=${OUTAGE_MODE}${OUTAGE_TIMEOUT_MS > 0 ? ` (${OUTAGE_TIMEOUT_MS}ms per command)` : ''}, restore=${RESTORE_MODE}`);
+  console.log(`strategies=${strategies.join(',')}, rps=${RPS}, warm=${WARM_SEC}s, outage=${OUTAGE_SEC}s, recovery=${RECOVERY_SEC}s, total=${timeline.totalSec}s`);
+
+  // 이전 실행이 중단되어 장애가 남아 있을 수 있음
+  restoreCache(false);
+
+  const keyspace = resolveKeyspace('uniform');
+  console.log(describeKeyspace(keyspace));
+  return { keyspace };
+}
+
+export function teardown(data: { keyspace: Keyspace }) {
+  restoreCache(false);
+  cleanupCatalog(data.keyspace);
+}
+
+export function takeDown() {
+  // 서버 time box는 outage + settle 이후 restore 시점보다 길게
+  setCacheOutage({ timeoutMs: OUTAGE_TIMEOUT_MS, durationSeconds: OUTAGE_SEC + PROBE_SETTLE_SEC + 5 });
+}
+
+export function restore() {
+  const { tags } = currentPhase(timeline);
+  const flushed = restoreCache(RESTORE_MODE === 'cold');
+  console.log(`[${tags.strategy}] cache restored (${RESTORE_MODE}): flushedKeys=${flushed}`);
+}
+
+export function hit(data: { keyspace: Keyspace }) {
+  const { phase, tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const metrics = phaseMetrics[`${strategy}:${phase}`];
+
+  const res = http.get(productUrl(strategy, pickProductId(data.keyspace)), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { strategy, phase },
+  });
+
+  const ok = check(res, {
+    'status is 200': (r: any) => r.status === 200,
+    'has strategy meta': (r: any) => {
+      try {
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
+      } catch {
+        return false;
+      }
+    },
+  });
+
+  const outcome = classifyResponse(res);
+  const duration = res.timings.duration;
+  const at = elapsedSec(timeline);
+  recordPhaseSample(metrics, duration, ok, outcome);
+
+  latencySeries.add(duration, at);
+  if (!ok) errorSeries.add(1, at);
+  if (isOriginLoad(outcome)) originSeries.add(1, at);
+}
+
+// outage / recovery 구간과 동시에 시작해 구간 내 서버 원본 로드 수를 기록
+export function probe() {
+  const { tags, durationSec } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  recordOriginLoads(originLoads[`${strategy}:${tags.target}`], measureOriginLoads(strategy, durationSec));
+}
+
+export function scrape() {
+  runScrapeIteration(serverScraper);
+}
+
+export default function () {
+  // Not used
+}
+
+// ===== 리포트 =====
+
+function loadPhaseOf(strategy: StrategyName, phase: string): ScheduledPhase {
+  return timeline.phases.find(p => p.kind === 'load' && p.phase === phase && p.tags.strategy === strategy)!;
+}
+
+interface Refill {
+  durationSec?: number; // 복구 ~ 원본 로드 비율이 REFILL_SETTLED_RATIO 이하가 된 첫 bucket 시작 (recovery 안에 안 끝나면 undefined)
+  peakPerSec: number;   // recovery 구간 초당 최대 원본 로드 (클라이언트 기준)
+}
+
+/**
+ * 콜드 캐시 재적재 구간 - recovery 시작부터 (요청이 있고, 에러가 없고) 원본 로드 비율이 충분히 떨어진 첫 bucket까지
+ * bucket 해상도(BUCKET_SEC)보다 짧은 재적재는 0 또는 bucketSec로 보인다.
+ */
+function refill(strategy: StrategyName, latency: SeriesPoint[], errors: SeriesPoint[], origin: SeriesPoint[]): Refill {
+  const recovery = loadPhaseOf(strategy, 'recovery');
+  const bucketSec = latencySeries.bucketSec;
+  const first = Math.floor(recovery.startSec / bucketSec);
+  const last = Math.ceil((recovery.startSec + recovery.durationSec) / bucketSec);
+
+  let durationSec: number | undefined;
+  let peakPerSec = 0;
+  for (let i = first; i < last && i < latency.length; i++) {
+    const requests = latency[i].count;
+    const loads = origin[i]?.count ?? 0;
+    peakPerSec = Math.max(peakPerSec, loads / bucketSec);
+    if (durationSec !== undefined || requests === 0) continue;
+    if ((errors[i]?.count ?? 0) === 0 && loads / requests <= REFILL_SETTLED_RATIO) {
+      durationSec = Math.max(0, i * bucketSec - recovery.startSec);
+    }
+  }
+  return { durationSec, peakPerSec };
+}
+
+/**
+ * 장애 중 전략 동작 분류 (클라이언트 에러율 기준)
+ * - fail-closed : 캐시 / 락 명령 실패가 그대로 에러 응답으로 번짐
+ * - fail-open   : 캐시를 건너뛰고 원본에서 응답
+ */
+function outageBehaviour(requests: number, errorRate?: number): string {
+  if (requests === 0 || errorRate === undefined) return '-';
+  if (errorRate >= 0.99) return 'fail-closed';
+  if (errorRate > 0.01) return 'partial errors';
+  return 'fail-open';
+}
+
+function count(data: any, name: string): number {
+  return data.metrics[name]?.values?.count ?? 0;
+}
+
+function pct(v?: number): string {
+  return v === undefined ? '-' : `${(v * 100).toFixed(1)}%`;
+}
+
+const OUTAGE_HEADER = [
+  'Strategy', 'Behaviour', 'Outage error rate', 'Outage origin share', 'Outage p95 (ms)', 'Origin loads during outage (server)',
+  'Rejected Redis cmds / lock errors (server)', 'Refill (s)', 'Refill peak origin loads/s', 'Recovery origin loads (server, max/key)', 'Recovery error rate',
+];
+
+function outageTable(data: any, latency: SeriesPoint[], errors: SeriesPoint[], origin: SeriesPoint[]): ReportTable {
+  const rows = strategies.map(s => {
+    const name = (phase: string, suffix: string) => phaseMetricName(s, phase, suffix);
+    const requests = count(data, name('outage', 'requests'));
+    const errorRate = data.metrics[name('outage', 'errors')]?.values?.rate;
+    const p95 = data.metrics[name('outage', 'response_time')]?.values?.['p(95)'];
+    const r = refill(s, latency, errors, origin);
+    const server = SCRAPE_ENABLED
+      ? `${count(data, name('outage', 'server_cache_rejected'))} / ${count(data, name('outage', 'server_lock_redis_errors'))}`
+      : '-';
+
+    return [
+      s,
+      outageBehaviour(requests, errorRate),
+      pct(errorRate),
+      requests > 0 ? pct(count(data, name('outage', 'slow_path')) / requests) : '-',
+      p95 === undefined ? '-' : p95.toFixed(1),
+      String(count(data, name('outage', 'origin_loads'))),
+      server,
+      r.durationSec === undefined ? 'not settled' : r.durationSec.toFixed(0),
+      r.peakPerSec.toFixed(0),
+      `${count(data, name('recovery', 'origin_loads'))} / ${data.metrics[name('recovery', 'origin_loads_max_per_key')]?.values?.value ?? 0}`,
+      pct(data.metrics[name('recovery', 'errors')]?.values?.rate),
+    ];
+  });
+  return { title: 'Cache outage', header: OUTAGE_HEADER, rows };
+}
+
+function outageMarkers(): ReportMarker[] {
+  return strategies.flatMap(s => [
+    { atSec: loadPhaseOf(s, 'outage').startSec, label: `${s} cache down` },
+    { atSec: loadPhaseOf(s, 'recovery').startSec, label: `${s} cache restored` },
+  ]);
+}
+
+export function handleSummary(data: any) {
+  const latency = readTimeSeries(data, latencySeries);
+  const errors = readTimeSeries(data, errorSeries);
+  const origin = readTimeSeries(data, originSeries);
+  const table = outageTable(data, latency, errors, origin);
+
+  console.log('\n=== Cache Outage ===\n');
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]}`);
+    table.header.slice(1).forEach((h, i) => console.log(`  ${h}: ${cells[i + 1]}`));
+    console.log('');
+  });
+
+  const rows: ReportRow[] = [];
+  strategies.forEach(s => LOAD_PHASES.forEach(p => {
+    const row = readRow(data, s, p, phaseRowNames(s, p, p === 'warm' ? undefined : 'origin_loads'));
+    if (row) rows.push(row);
+  }));
+
+  const report = {
+    title: 'Cache Outage',
+    notes: [
+      `outage: ${OUTAGE_MODE}${OUTAGE_TIMEOUT_MS > 0 ? ` (${OUTAGE_TIMEOUT_MS}ms per Redis command)` : ''} for ${OUTAGE_SEC}s, restore: ${RESTORE_MODE}`,
+      `load: ${RPS} rps, warm ${WARM_SEC}s → outage ${OUTAGE_SEC}s → recovery ${RECOVERY_SEC}s per strategy`,
+      'Behaviour: fail-open = served from origin without the cache, fail-closed = cache / lock failures surface as errors',
+      `Refill (s) = seconds from restore until the origin-load share first drops to ${(REFILL_SETTLED_RATIO * 100).toFixed(0)}% (bucket ${latencySeries.bucketSec}s)`,
+    ],
+    rows,
+    tables: [table],
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all strategies', kind: 'latency' as const, points: latency },
+      { label: 'errors', kind: 'count' as const, points: errors },
+      { label: 'origin loads', kind: 'count' as const, points: origin },
+    ],
+    phases: timeline.phases,
+    markers: outageMarkers(),
+  };
+
+  return {
+    'stdout': JSON.stringify(data, null, 2),
+    'results/cache-outage-summary.json': JSON.stringify(data),
+    ...reportFiles('cache-outage', report),
+    ...seriesFiles('cache-outage', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      timelineLabeler(timeline)),
+    ...baselineFiles('cache-outage', data, baseline),
+  };
+}
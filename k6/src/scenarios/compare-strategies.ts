@@ -1,11 +1,65 @@
-import { check, sleep } from 'k6';
+import { check } from 'k6';
 import http from 'k6/http';
-import { Counter, Rate, Trend } from 'k6/metrics';
-import { buildUrl } from '../utils/config';
-import { pickProductId } from '../utils/workload';
-
-// K6 글로벌 변수
-declare const __ENV: { [key: string]: string };
+import { Counter, Trend } from 'k6/metrics';
+import {
+  fetchOriginLoads,
+  measureOriginLoads,
+  OriginLoadMetrics,
+  OriginLoadSnapshot,
+  originLoadDelta,
+  originLoadMetrics,
+  originLoadProbe,
+  recordOriginLoads,
+} from '../utils/origin-loads';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import {
+  clearOriginFault,
+  configuredFault,
+  describeFault,
+  faultImpactTable,
+  faultMarkers,
+  faultPhase,
+  FAULTS_ENABLED,
+  faultWindows,
+  runFaultPhase,
+} from '../utils/faults';
+import {
+  isolationConfig,
+  resetServerState,
+  resetWindowSec,
+  strategyOrder,
+  verifyReset,
+} from '../utils/isolation';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, ReportRow, reportFiles } from '../utils/report';
+import {
+  createServerScraper,
+  printServerComparison,
+  runScrapeIteration,
+  SCRAPE_ENABLED,
+  scraperScenario,
+  serverComparisonTable,
+} from '../utils/scraper';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { detectStampedeEvents, eventConfig, phaseBoundaries, stampedeEventTable } from '../utils/stampede-events';
+import {
+  CACHED_STRATEGIES,
+  matchesStrategyMeta,
+  metricFamily,
+  productUrl,
+  STRATEGIES,
+  strategyMetricName,
+  StrategyName,
+} from '../utils/strategies';
+import { guaranteeThresholds, mergeThresholds, printThresholdResults } from '../utils/thresholds';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, LoadPhase, Phase, TtlWindow } from '../utils/timeline';
+import { ttl, ttlBoundaries, verifyTtlAgainstServer } from '../utils/ttl';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
 
 /**
  * TTL 만료 기반 캐시 스탬피드 비교 테스트
@@ -15,281 +69,244 @@ declare const __ENV: { [key: string]: string };
  * 2. wait: TTL 만료 시점까지 대기
  * 3. burst: 만료 직후 폭주 발생 → stampede 방지 효과 확인
  * 4. cooldown: 안정화
+ *
+ * 각 전략 블록 전에 서버 상태를 초기화(진행 중인 갱신 drain + 캐시 / 락 삭제)하고 검증한다. (STRATEGY_RESET=false로 끔)
+ * STRATEGY_ORDER=random이면 전략 블록 순서를 ORDER_SEED로 섞는다.
  */
 
-type StrategyName = 'basic' | 'jitter' | 'jitter-swr' | 'jitter-lock' | 'full';
-
 interface StrategyConfig {
   name: StrategyName;
-  endpoint: string;
   waitSeconds: number; // warmup 이후 대기 시간
-  description: string;
-}
-
-function envNumber(name: string, fallback: number): number {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  if (!v) return fallback;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
+  burstWindow: TtlWindow; // burst 시작 시점에 hot key가 있어야 할 구간 (dry run 검사용)
 }
 
-function seconds(n: number): string {
-  return `${n}s`;
-}
-
-// 서버 TTL 설정 (application.yml과 일치)
-const BASE_TTL_SEC = envNumber('BASE_TTL_SEC', 20);
-const JITTER_MAX_SEC = envNumber('JITTER_MAX_SEC', 5);
-const SOFT_TTL_RATIO = envNumber('SOFT_TTL_RATIO', 0.5);
-const SOFT_TTL_SEC = BASE_TTL_SEC * SOFT_TTL_RATIO;
+// 서버 TTL 모델 (setup()에서 서버 설정과 대조)
+const basicTtl = ttlBoundaries('basic');
+const jitterTtl = ttlBoundaries('jitter');
+const swrTtl = ttlBoundaries('jitter-swr');
+const lockTtl = ttlBoundaries('jitter-lock');
+const fullTtl = ttlBoundaries('full');
 
 // 시나리오 파라미터
-const WARMUP_RPS = envNumber('WARMUP_RPS', 50);
-const WARMUP_SEC = envNumber('WARMUP_SEC', 5);
-const BURST_RPS = envNumber('BURST_RPS', 1000);
-const BURST_SEC = envNumber('BURST_SEC', 20); // 10 → 20초로 증가
-const COOLDOWN_RPS = envNumber('COOLDOWN_RPS', 100);
-const COOLDOWN_SEC = envNumber('COOLDOWN_SEC', 10);
-const MAX_VUS = envNumber('MAX_VUS', 2000);
-const PREALLOCATED_VUS = envNumber('PREALLOCATED_VUS', 200);
-const GAP_SEC = envNumber('GAP_SEC', 5);
+const {
+  WARMUP_RPS,
+  WARMUP_SEC,
+  BURST_RPS,
+  BURST_SEC,
+  FULL_BURST_SEC,
+  COOLDOWN_RPS,
+  COOLDOWN_SEC,
+  MAX_VUS,
+  PREALLOCATED_VUS,
+  GAP_SEC,
+  WAIT_BUFFER_SEC,
+} = defineConfig('compare-strategies', {
+  WARMUP_RPS: { type: 'number', default: 50, min: 1, scale: 'rate' },
+  WARMUP_SEC: { type: 'number', default: 5, min: 1, integer: true, scale: 'time' },
+  BURST_RPS: { type: 'number', default: 1000, min: 1, scale: 'rate' },
+  BURST_SEC: { type: 'number', default: 20, min: 1, integer: true, scale: 'time' }, // 10 → 20초로 증가
+  FULL_BURST_SEC: { type: 'number', default: 10, min: 1, integer: true, scale: 'time' }, // full 전용 burst 시간 (5s → 10s)
+  COOLDOWN_RPS: { type: 'number', default: 100, min: 1, scale: 'rate' },
+  COOLDOWN_SEC: { type: 'number', default: 10, min: 1, integer: true, scale: 'time' },
+  MAX_VUS: { type: 'number', default: 2000, min: 1, integer: true, scale: 'vus' },
+  PREALLOCATED_VUS: { type: 'number', default: 200, min: 1, integer: true, scale: 'vus' },
+  GAP_SEC: { type: 'number', default: 5, min: 0, integer: true, scale: 'time' },
+  WAIT_BUFFER_SEC: { type: 'number', default: 2, min: 0 }, // 만료 시점 이후 여유
+});
 
 // 전략별 설정
 const strategies: StrategyConfig[] = [
   {
     name: 'basic',
-    endpoint: 'basic',
-    waitSeconds: Math.max(0, BASE_TTL_SEC - WARMUP_SEC + 2), // 20 - 5 + 2 = 17s
-    description: 'No stampede protection (hard TTL)',
+    burstWindow: 'expired',
+    waitSeconds: Math.max(0, basicTtl.hardLatest - WARMUP_SEC + WAIT_BUFFER_SEC), // 20 - 5 + 2 = 17s
   },
   {
     name: 'jitter',
-    endpoint: 'jitter',
-    waitSeconds: Math.max(0, BASE_TTL_SEC + JITTER_MAX_SEC - WARMUP_SEC + 2), // 20 + 5 - 5 + 2 = 22s
-    description: 'TTL jitter (hard TTL + random jitter)',
+    burstWindow: 'expired',
+    waitSeconds: Math.max(0, jitterTtl.hardLatest - WARMUP_SEC + WAIT_BUFFER_SEC), // 20 + 5 - 5 + 2 = 22s
   },
   {
     name: 'jitter-swr',
-    endpoint: 'jitter-swr',
-    waitSeconds: Math.max(0, SOFT_TTL_SEC - WARMUP_SEC + 2), // 10 - 5 + 2 = 7s
-    description: 'SWR (soft TTL expiry)',
+    burstWindow: 'stale',
+    waitSeconds: Math.max(0, swrTtl.softLatest - WARMUP_SEC + WAIT_BUFFER_SEC), // jitter 최대 기준: 12.5 - 5 + 2 = 9.5s
   },
   {
     name: 'jitter-lock',
-    endpoint: 'jitter-lock',
-    waitSeconds: Math.max(0, BASE_TTL_SEC + JITTER_MAX_SEC - WARMUP_SEC + 2), // 22s
-    description: 'Distributed lock (hard TTL)',
+    burstWindow: 'expired',
+    waitSeconds: Math.max(0, lockTtl.hardLatest - WARMUP_SEC + WAIT_BUFFER_SEC), // 22s
   },
 ];
 
-// 메트릭 (전체 - warmup/burst/cooldown 합산)
-const durationMsByStrategy: Record<StrategyName, Trend> = {
-  'basic': new Trend('basic_response_time', true),
-  'jitter': new Trend('jitter_response_time', true),
-  'jitter-swr': new Trend('jitter_swr_response_time', true),
-  'jitter-lock': new Trend('jitter_lock_response_time', true),
-  'full': new Trend('full_response_time', true),
-};
-
-const errorsByStrategy: Record<StrategyName, Rate> = {
-  'basic': new Rate('basic_errors'),
-  'jitter': new Rate('jitter_errors'),
-  'jitter-swr': new Rate('jitter_swr_errors'),
-  'jitter-lock': new Rate('jitter_lock_errors'),
-  'full': new Rate('full_errors'),
-};
-
-const requestsByStrategy: Record<StrategyName, Counter> = {
-  'basic': new Counter('basic_requests'),
-  'jitter': new Counter('jitter_requests'),
-  'jitter-swr': new Counter('jitter_swr_requests'),
-  'jitter-lock': new Counter('jitter_lock_requests'),
-  'full': new Counter('full_requests'),
-};
-
-const slowPathByStrategy: Record<StrategyName, Counter> = {
-  'basic': new Counter('basic_slow_path'),
-  'jitter': new Counter('jitter_slow_path'),
-  'jitter-swr': new Counter('jitter_swr_slow_path'),
-  'jitter-lock': new Counter('jitter_lock_slow_path'),
-  'full': new Counter('full_slow_path'),
-};
-
-// ===== BURST 전용 메트릭 (TTL 만료 stampede 시점만 측정) =====
-const burstResponseTime: Record<StrategyName, Trend> = {
-  'basic': new Trend('basic_burst_response_time', true),
-  'jitter': new Trend('jitter_burst_response_time', true),
-  'jitter-swr': new Trend('jitter_swr_burst_response_time', true),
-  'jitter-lock': new Trend('jitter_lock_burst_response_time', true),
-  'full': new Trend('full_burst_response_time', true),
-};
-
-const burstSlowPath: Record<StrategyName, Counter> = {
-  'basic': new Counter('basic_burst_slow_path'),
-  'jitter': new Counter('jitter_burst_slow_path'),
-  'jitter-swr': new Counter('jitter_swr_burst_slow_path'),
-  'jitter-lock': new Counter('jitter_lock_burst_slow_path'),
-  'full': new Counter('full_burst_slow_path'),
-};
-
-const burstRequests: Record<StrategyName, Counter> = {
-  'basic': new Counter('basic_burst_requests'),
-  'jitter': new Counter('jitter_burst_requests'),
-  'jitter-swr': new Counter('jitter_swr_burst_requests'),
-  'jitter-lock': new Counter('jitter_lock_burst_requests'),
-  'full': new Counter('full_burst_requests'),
-};
-
-// Full 전략용 soft/hard 분리 메트릭
-const fullSoftBurstResponseTime = new Trend('full_soft_burst_response_time', true);
-const fullSoftBurstSlowPath = new Counter('full_soft_burst_slow_path');
-const fullSoftBurstRequests = new Counter('full_soft_burst_requests');
-
-const fullHardBurstResponseTime = new Trend('full_hard_burst_response_time', true);
-const fullHardBurstSlowPath = new Counter('full_hard_burst_slow_path');
-const fullHardBurstRequests = new Counter('full_hard_burst_requests');
-
-// 시나리오 동적 생성
-export const options = {
-  scenarios: {} as any,
-};
+// 메트릭 (전체 - warmup/burst/cooldown 합산): {strategy}_response_time, {strategy}_slow_path, ...
+const overallMetrics = {} as Record<StrategyName, PhaseMetrics>;
+CACHED_STRATEGIES.forEach(s => {
+  overallMetrics[s] = createPhaseMetrics(s);
+});
 
-let cursor = 0;
+// 서버 측 실제 원본 로드 수 (백그라운드 갱신 포함) - 전체 실행(setup~teardown)
+const originLoadsByStrategy = metricFamily('origin_loads', originLoadMetrics);
 
-// 일반 전략들 (basic, jitter, jitter-swr, jitter-lock)
-for (const strategy of strategies) {
-  const sid = strategy.name.replace(/-/g, '_');
-
-  // warmup
-  options.scenarios[`warmup_${sid}`] = {
-    executor: 'constant-arrival-rate',
-    rate: WARMUP_RPS,
-    timeUnit: '1s',
-    duration: seconds(WARMUP_SEC),
+// full 전략 (soft TTL + hard TTL 2단계)
+const FULL_SOFT_TTL = fullTtl.softEarliest; // 10s (soft-ttl-ratio 0.9 → 18s)
+const FULL_WAIT_SOFT = Math.max(0, fullTtl.softLatest - WARMUP_SEC + WAIT_BUFFER_SEC); // jitter 최대 기준: 12.5 - 5 + 2 = 9.5s
+// soft-burst 시작 시점의 백그라운드 갱신이 새로 쓴 값의 hard 만료까지 (soft-burst 길이만큼 이미 지남)
+// jitter 최대 기준: 25 + 2 - 10 = 17s
+const FULL_WAIT_HARD = Math.max(0, fullTtl.hardLatest + WAIT_BUFFER_SEC - FULL_BURST_SEC);
+
+function loadPhase(strategy: StrategyName, phase: string, rps: number, durationSec: number, ttlWindow?: TtlWindow): LoadPhase {
+  const sid = STRATEGIES[strategy].metricPrefix;
+  return {
+    kind: 'load',
+    name: `${phase.replace(/-/g, '_')}_${sid}`,
+    phase,
+    tags: { strategy },
+    exec: 'hit',
+    durationSec,
+    rps,
     preAllocatedVUs: PREALLOCATED_VUS,
     maxVUs: MAX_VUS,
-    startTime: seconds(cursor),
-    exec: `warmup_${sid}`,
+    ttlWindow,
   };
+}
 
-  // wait for TTL expiry
-  options.scenarios[`wait_${sid}`] = {
-    executor: 'shared-iterations',
-    vus: 1,
-    iterations: 1,
-    maxDuration: seconds(strategy.waitSeconds + 1),
-    startTime: seconds(cursor + WARMUP_SEC),
-    exec: `wait_${sid}`,
-  };
+// burst와 같은 시점에 시작하는 원본 로드 probe - probe 이름 → 기록할 메트릭 ({strategy}_{phase}_origin_loads)
+const probeMetrics: Record<string, OriginLoadMetrics> = {};
+
+// FAULT_DELAY_MS / FAULT_ERROR_RATE 지정 시 burst 구간 동안 서버 원본 장애를 켬
+function burstWithProbe(strategy: StrategyName, phase: string, durationSec: number, ttlWindow: TtlWindow): Phase[] {
+  const burst = loadPhase(strategy, phase, BURST_RPS, durationSec, ttlWindow);
+  const probeName = `probe_${burst.name}`;
+  probeMetrics[probeName] = originLoadMetrics(phaseMetricName(strategy, phase, 'origin_loads'));
+  const faults = FAULTS_ENABLED
+    ? [faultPhase(`faults_${burst.name}`, phase, durationSec, configuredFault(), { strategy })]
+    : [];
+  return [...faults, originLoadProbe(probeName, durationSec, 'probe', { strategy }), burst];
+}
 
-  // burst
-  options.scenarios[`burst_${sid}`] = {
-    executor: 'constant-arrival-rate',
-    rate: BURST_RPS,
-    timeUnit: '1s',
-    duration: seconds(BURST_SEC),
-    preAllocatedVUs: PREALLOCATED_VUS,
-    maxVUs: MAX_VUS,
-    startTime: seconds(cursor + WARMUP_SEC + strategy.waitSeconds),
-    exec: `burst_${sid}`,
-  };
+function isBurstPhase(phase: string): boolean {
+  return phase === 'burst' || phase.endsWith('-burst');
+}
 
-  // cooldown
-  options.scenarios[`cooldown_${sid}`] = {
-    executor: 'constant-arrival-rate',
-    rate: COOLDOWN_RPS,
-    timeUnit: '1s',
-    duration: seconds(COOLDOWN_SEC),
-    preAllocatedVUs: PREALLOCATED_VUS,
-    maxVUs: MAX_VUS,
-    startTime: seconds(cursor + WARMUP_SEC + strategy.waitSeconds + BURST_SEC),
-    exec: `cooldown_${sid}`,
-  };
+// 전략 블록 (gap / reset 제외)
+const blocks: { name: StrategyName; phases: Phase[] }[] = [];
 
-  cursor += WARMUP_SEC + strategy.waitSeconds + BURST_SEC + COOLDOWN_SEC + GAP_SEC;
+// 일반 전략들 (basic, jitter, jitter-swr, jitter-lock)
+for (const strategy of strategies) {
+  const sid = STRATEGIES[strategy.name].metricPrefix;
+  blocks.push({
+    name: strategy.name,
+    phases: [
+      loadPhase(strategy.name, 'warmup', WARMUP_RPS, WARMUP_SEC),
+      { kind: 'wait', name: `wait_${sid}`, durationSec: strategy.waitSeconds },
+      ...burstWithProbe(strategy.name, 'burst', BURST_SEC, strategy.burstWindow),
+      loadPhase(strategy.name, 'cooldown', COOLDOWN_RPS, COOLDOWN_SEC),
+    ],
+  });
 }
 
-// full 전략 (soft TTL + hard TTL 2단계)
-const FULL_SOFT_TTL_RATIO = envNumber('FULL_SOFT_TTL_RATIO', 0.9); // full 전용
-const FULL_SOFT_TTL = BASE_TTL_SEC * FULL_SOFT_TTL_RATIO; // 18s
-const FULL_WAIT_SOFT = Math.max(0, FULL_SOFT_TTL - WARMUP_SEC + 2); // 18 - 5 + 2 = 15s
-const FULL_WAIT_HARD = Math.max(0, BASE_TTL_SEC - FULL_SOFT_TTL); // 20 - 18 = 2s
-const FULL_BURST_SEC = envNumber('FULL_BURST_SEC', 10); // full 전용 burst 시간 (5s → 10s)
-
-// warmup
-options.scenarios.warmup_full = {
-  executor: 'constant-arrival-rate',
-  rate: WARMUP_RPS,
-  timeUnit: '1s',
-  duration: seconds(WARMUP_SEC),
-  preAllocatedVUs: PREALLOCATED_VUS,
-  maxVUs: MAX_VUS,
-  startTime: seconds(cursor),
-  exec: 'warmup_full',
-};
+blocks.push({
+  name: 'full',
+  phases: [
+    loadPhase('full', 'warmup', WARMUP_RPS, WARMUP_SEC),
+    { kind: 'wait', name: 'wait_soft_full', durationSec: FULL_WAIT_SOFT },
+    ...burstWithProbe('full', 'soft-burst', FULL_BURST_SEC, 'stale'),
+    { kind: 'wait', name: 'wait_hard_full', durationSec: FULL_WAIT_HARD },
+    ...burstWithProbe('full', 'hard-burst', FULL_BURST_SEC, 'expired'),
+    loadPhase('full', 'cooldown', COOLDOWN_RPS, COOLDOWN_SEC),
+  ],
+});
+
+const orderedBlocks = strategyOrder(blocks);
+
+// 블록 사이 gap, 블록 앞 reset (reset action은 커서를 전진시키지 않으므로 drain 최대 대기만큼 비워 둠)
+const phases: Phase[] = [];
+orderedBlocks.forEach((block, i) => {
+  const sid = STRATEGIES[block.name].metricPrefix;
+  if (isolationConfig.enabled) {
+    const tags = { strategy: block.name };
+    phases.push(
+      { kind: 'action', name: `reset_${sid}`, phase: 'reset', exec: 'reset', tags, maxDurationSec: resetWindowSec() + 10, clearsCache: true },
+      { kind: 'wait', name: `reset_wait_${sid}`, durationSec: resetWindowSec() },
+    );
+  }
+  phases.push(...block.phases);
+  if (i < orderedBlocks.length - 1) {
+    phases.push({ kind: 'wait', name: `gap_${sid}`, durationSec: GAP_SEC });
+  }
+});
 
-// wait for soft TTL
-options.scenarios.wait_soft_full = {
-  executor: 'shared-iterations',
-  vus: 1,
-  iterations: 1,
-  maxDuration: seconds(FULL_WAIT_SOFT + 1),
-  startTime: seconds(cursor + WARMUP_SEC),
-  exec: 'wait_soft_full',
-};
+const timeline = buildTimeline(phases);
 
-// burst at soft TTL
-options.scenarios.burst_soft_full = {
-  executor: 'constant-arrival-rate',
-  rate: BURST_RPS,
-  timeUnit: '1s',
-  duration: seconds(FULL_BURST_SEC),
-  preAllocatedVUs: PREALLOCATED_VUS,
-  maxVUs: MAX_VUS,
-  startTime: seconds(cursor + WARMUP_SEC + FULL_WAIT_SOFT),
-  exec: 'burst_soft_full',
-};
+// 전략 × phase 메트릭 ({strategy}_{phase}_response_time 등). '-burst' phase는 {strategy}_burst_* 에도 합산
+const phaseMetrics: Record<string, PhaseMetrics> = {};
 
-// wait for hard TTL
-options.scenarios.wait_hard_full = {
-  executor: 'shared-iterations',
-  vus: 1,
-  iterations: 1,
-  maxDuration: seconds(FULL_WAIT_HARD + 1),
-  startTime: seconds(cursor + WARMUP_SEC + FULL_WAIT_SOFT + FULL_BURST_SEC),
-  exec: 'wait_hard_full',
-};
+function phaseMetricsFor(strategy: StrategyName, phase: string): PhaseMetrics {
+  const key = `${strategy}:${phase}`;
+  if (!phaseMetrics[key]) phaseMetrics[key] = createPhaseMetrics(strategy, phase);
+  return phaseMetrics[key];
+}
 
-// burst at hard TTL
-options.scenarios.burst_hard_full = {
-  executor: 'constant-arrival-rate',
-  rate: BURST_RPS,
-  timeUnit: '1s',
-  duration: seconds(FULL_BURST_SEC),
-  preAllocatedVUs: PREALLOCATED_VUS,
-  maxVUs: MAX_VUS,
-  startTime: seconds(cursor + WARMUP_SEC + FULL_WAIT_SOFT + FULL_BURST_SEC + FULL_WAIT_HARD),
-  exec: 'burst_hard_full',
-};
+timeline.phases.filter(p => p.kind === 'load').forEach(p => {
+  const strategy = p.tags.strategy as StrategyName;
+  phaseMetricsFor(strategy, p.phase);
+  if (isBurstPhase(p.phase)) phaseMetricsFor(strategy, 'burst');
+});
+
+// 서버 Micrometer 메트릭 (전략 공통 cache.strategy.* + full soft/hard 갱신) - {strategy}_{phase}_server_*
+const serverScraper = createServerScraper(timeline);
+
+// 리포트용 초 단위 시계열
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const slowPathSeries = createTimeSeries('ts_slow_path', 'counter', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+// 스탬피드 이벤트의 동시 원본 로드 추정용 (원본 로드 요청의 응답 시간)
+const originLoadTimeSeries = createTimeSeries('ts_origin_load_time', 'trend', timeline.totalSec);
+
+// 전략 블록 전 서버 상태 초기화 결과 (실패 = drain timeout 또는 초기화 후 남은 캐시 / 락)
+const resetFailures = new Counter('isolation_reset_failures');
+const resetDrainTime = new Trend('isolation_reset_drain_ms');
+
+// 전략별 보장(registry guarantees)을 burst 메트릭 기준 threshold로 - 실패 시 non-zero 종료
+const thresholds = mergeThresholds(
+  ...strategies.map(({ name }) => guaranteeThresholds(name, {
+    burstMaxLoadsPerKey: strategyMetricName(name, 'burst_origin_loads_max_per_key'),
+    staleBurstLatency: strategyMetricName(name, 'burst_response_time'),
+    errors: strategyMetricName(name, 'errors'),
+  })),
+  guaranteeThresholds('full', {
+    burstMaxLoadsPerKey: strategyMetricName('full', 'soft_burst_origin_loads_max_per_key'),
+    staleBurstLatency: strategyMetricName('full', 'soft_burst_response_time'),
+    errors: strategyMetricName('full', 'errors'),
+  }),
+  guaranteeThresholds('full', {
+    burstMaxLoadsPerKey: strategyMetricName('full', 'hard_burst_origin_loads_max_per_key'),
+  }),
+  isolationConfig.enabled ? { isolation_reset_failures: ['count==0'] } : {},
+);
+
+const baseline = loadBaseline('compare-strategies'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
 
-// cooldown
-options.scenarios.cooldown_full = {
-  executor: 'constant-arrival-rate',
-  rate: COOLDOWN_RPS,
-  timeUnit: '1s',
-  duration: seconds(COOLDOWN_SEC),
-  preAllocatedVUs: PREALLOCATED_VUS,
-  maxVUs: MAX_VUS,
-  startTime: seconds(cursor + WARMUP_SEC + FULL_WAIT_SOFT + FULL_BURST_SEC + FULL_WAIT_HARD + FULL_BURST_SEC),
-  exec: 'cooldown_full',
+export const options = {
+  scenarios: SCRAPE_ENABLED
+    ? { ...timeline.scenarios, scrape_server_metrics: scraperScenario(timeline.totalSec) }
+    : timeline.scenarios,
+  thresholds,
+  summaryTrendStats: REPORT_TREND_STATS,
 };
 
-// 헬퍼 함수 - 전체 메트릭 (warmup/burst/cooldown 합산)
-function makeRequest(strategy: StrategyName, endpoint: string) {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/${endpoint}`);
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
 
-  const res = http.get(url, {
+// 모든 load phase 공통 실행 함수 - strategy/phase는 scenario 태그에서 결정
+export function hit(data: { keyspace: Keyspace }) {
+  const { phase, tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+
+  const productId = pickProductId(data.keyspace);
+  const res = http.get(productUrl(strategy, productId), {
     headers: { 'Content-Type': 'application/json' },
     tags: { strategy },
   });
@@ -298,226 +315,153 @@ function makeRequest(strategy: StrategyName, endpoint: string) {
     'status is 200': (r: any) => r.status === 200,
     'has strategy meta': (r: any) => {
       try {
-        const body = JSON.parse(r.body as string);
-        if (strategy === 'full') return body?.meta?.strategy === 'full-protection';
-        return body?.meta?.strategy === strategy;
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
       } catch {
         return false;
       }
     },
   });
 
-  requestsByStrategy[strategy].add(1);
-  durationMsByStrategy[strategy].add(res.timings.duration);
-  errorsByStrategy[strategy].add(!ok);
+  // 서버가 보고한 캐시 처리 결과 (X-Cache-Outcome)
+  const outcome = classifyResponse(res);
+  const duration = res.timings.duration;
 
-  // DB 접근 추정 (responseTimeMs >= 90ms)
-  try {
-    const body = JSON.parse(res.body as string);
-    if ((body?.meta?.responseTimeMs ?? 0) >= 90) {
-      slowPathByStrategy[strategy].add(1);
-    }
-  } catch {
-    // ignore
+  recordPhaseSample(overallMetrics[strategy], duration, ok, outcome);
+  recordPhaseSample(phaseMetricsFor(strategy, phase), duration, ok, outcome);
+  if (phase !== 'burst' && isBurstPhase(phase)) {
+    recordPhaseSample(phaseMetricsFor(strategy, 'burst'), duration, ok, outcome);
   }
-}
-
-// 헬퍼 함수 - burst 전용 메트릭
-function makeRequestBurst(strategy: StrategyName, endpoint: string) {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/${endpoint}`);
-
-  const res = http.get(url, {
-    headers: { 'Content-Type': 'application/json' },
-    tags: { strategy, phase: 'burst' },
-  });
-
-  const ok = check(res, {
-    'status is 200': (r: any) => r.status === 200,
-    'has strategy meta': (r: any) => {
-      try {
-        const body = JSON.parse(r.body as string);
-        if (strategy === 'full') return body?.meta?.strategy === 'full-protection';
-        return body?.meta?.strategy === strategy;
-      } catch {
-        return false;
-      }
-    },
-  });
 
-  // 전체 메트릭
-  requestsByStrategy[strategy].add(1);
-  durationMsByStrategy[strategy].add(res.timings.duration);
-  errorsByStrategy[strategy].add(!ok);
-
-  // burst 전용 메트릭
-  burstRequests[strategy].add(1);
-  burstResponseTime[strategy].add(res.timings.duration);
-
-  // DB 접근 추정
-  try {
-    const body = JSON.parse(res.body as string);
-    if ((body?.meta?.responseTimeMs ?? 0) >= 90) {
-      slowPathByStrategy[strategy].add(1);
-      burstSlowPath[strategy].add(1);
-    }
-  } catch {
-    // ignore
+  const t = elapsedSec(timeline);
+  latencySeries.add(duration, t);
+  if (isOriginLoad(outcome)) {
+    slowPathSeries.add(1, t);
+    originLoadTimeSeries.add(duration, t);
   }
+  if (!ok) errorSeries.add(1, t);
 }
 
-// Full 전략용 soft burst 전용 함수
-function makeRequestFullSoftBurst() {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/full`);
-
-  const res = http.get(url, {
-    headers: { 'Content-Type': 'application/json' },
-    tags: { strategy: 'full', phase: 'soft-burst' },
-  });
-
-  const ok = check(res, {
-    'status is 200': (r: any) => r.status === 200,
-    'has strategy meta': (r: any) => {
-      try {
-        const body = JSON.parse(r.body as string);
-        return body?.meta?.strategy === 'full-protection';
-      } catch {
-        return false;
-      }
-    },
-  });
-
-  // 전체 + burst 메트릭
-  requestsByStrategy['full'].add(1);
-  durationMsByStrategy['full'].add(res.timings.duration);
-  errorsByStrategy['full'].add(!ok);
-  burstRequests['full'].add(1);
-  burstResponseTime['full'].add(res.timings.duration);
-
-  // soft burst 전용 메트릭
-  fullSoftBurstRequests.add(1);
-  fullSoftBurstResponseTime.add(res.timings.duration);
-
-  try {
-    const body = JSON.parse(res.body as string);
-    if ((body?.meta?.responseTimeMs ?? 0) >= 90) {
-      slowPathByStrategy['full'].add(1);
-      burstSlowPath['full'].add(1);
-      fullSoftBurstSlowPath.add(1);
-    }
-  } catch {
-    // ignore
-  }
+// burst 시작 시점에 서버 원본 장애를 burst 길이만큼 켬 (서버 time box로 자동 해제)
+export function faults() {
+  runFaultPhase(timeline);
 }
 
-// Full 전략용 hard burst 전용 함수
-function makeRequestFullHardBurst() {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/full`);
-
-  const res = http.get(url, {
-    headers: { 'Content-Type': 'application/json' },
-    tags: { strategy: 'full', phase: 'hard-burst' },
-  });
+// 타임라인 전체 동안 /actuator/prometheus 조회 → phase별 서버 메트릭
+export function scrape() {
+  runScrapeIteration(serverScraper);
+}
 
-  const ok = check(res, {
-    'status is 200': (r: any) => r.status === 200,
-    'has strategy meta': (r: any) => {
-      try {
-        const body = JSON.parse(r.body as string);
-        return body?.meta?.strategy === 'full-protection';
-      } catch {
-        return false;
-      }
-    },
-  });
+// 전략 블록 직전: 앞 전략의 갱신이 끝나길 기다린 뒤 캐시 / 락을 지우고 비었는지 확인
+export function reset() {
+  const { tags } = currentPhase(timeline);
+  const result = resetServerState();
+  const problems = verifyReset(result);
+
+  check(result, { 'server state reset before strategy': () => problems.length === 0 });
+  resetFailures.add(problems.length > 0 ? 1 : 0);
+  resetDrainTime.add(result.waitedMs);
+  console.log(`[reset before ${tags.strategy}] drained in ${result.waitedMs}ms, deleted keys=${result.deletedKeys}, locks=${result.deletedLocks}`);
+  if (problems.length > 0) console.warn(`[reset before ${tags.strategy}] not isolated: ${problems.join('; ')}`);
+}
 
-  // 전체 + burst 메트릭
-  requestsByStrategy['full'].add(1);
-  durationMsByStrategy['full'].add(res.timings.duration);
-  errorsByStrategy['full'].add(!ok);
-  burstRequests['full'].add(1);
-  burstResponseTime['full'].add(res.timings.duration);
-
-  // hard burst 전용 메트릭
-  fullHardBurstRequests.add(1);
-  fullHardBurstResponseTime.add(res.timings.duration);
-
-  try {
-    const body = JSON.parse(res.body as string);
-    if ((body?.meta?.responseTimeMs ?? 0) >= 90) {
-      slowPathByStrategy['full'].add(1);
-      burstSlowPath['full'].add(1);
-      fullHardBurstSlowPath.add(1);
-    }
-  } catch {
-    // ignore
-  }
+// burst와 동시에 시작해 burst 구간(+ settle)의 서버 원본 로드 수를 기록
+export function probe() {
+  const { name, tags, durationSec } = currentPhase(timeline);
+  recordOriginLoads(probeMetrics[name], measureOriginLoads(tags.strategy as StrategyName, durationSec));
 }
 
-// Export functions for each scenario
 export function setup() {
   console.log('=== TTL Expiry-Based Cache Stampede Comparison ===');
-  console.log(`BASE_TTL=${BASE_TTL_SEC}s, JITTER=${JITTER_MAX_SEC}s, SOFT_TTL=${SOFT_TTL_SEC}s`);
-  console.log(`FULL: SOFT_TTL=${FULL_SOFT_TTL}s (ratio=${FULL_SOFT_TTL_RATIO})`);
+  printConfig();
+  verifyTtlAgainstServer();
+  console.log(`BASE_TTL=${ttl.baseTtlSec}s, JITTER=${ttl.jitterMaxSec}s, SOFT_TTL=${swrTtl.softEarliest}s`);
+  console.log(`FULL: SOFT_TTL=${FULL_SOFT_TTL}s (ratio=${ttl.softTtlRatio})`);
   console.log(`BURST_RPS=${BURST_RPS}, BURST_SEC=${BURST_SEC}s, FULL_BURST_SEC=${FULL_BURST_SEC}s`);
+  console.log(`order=${orderedBlocks.map(b => b.name).join(' → ')}${isolationConfig.order === 'random' ? ` (ORDER_SEED=${isolationConfig.seed})` : ''}`);
+  console.log(isolationConfig.enabled
+    ? `reset before each strategy (drain timeout ${isolationConfig.drainTimeoutMs}ms)`
+    : 'reset between strategies disabled (STRATEGY_RESET=false)');
+  console.log(`total=${timeline.totalSec}s`);
+  if (FAULTS_ENABLED) {
+    console.log(`FAULTS during bursts: ${describeFault(configuredFault())}`);
+    clearOriginFault();
+  }
+
+  const keyspace = resolveKeyspace();
+  console.log(describeKeyspace(keyspace));
   console.log('');
+
+  return { keyspace, originLoads: fetchOriginLoads() };
 }
 
-// basic
-export function warmup_basic() { makeRequest('basic', 'basic'); }
-export function wait_basic() { sleep(strategies[0].waitSeconds); console.log('basic: TTL expired, starting burst...'); }
-export function burst_basic() { makeRequestBurst('basic', 'basic'); }
-export function cooldown_basic() { makeRequest('basic', 'basic'); }
-
-// jitter
-export function warmup_jitter() { makeRequest('jitter', 'jitter'); }
-export function wait_jitter() { sleep(strategies[1].waitSeconds); console.log('jitter: TTL expired, starting burst...'); }
-export function burst_jitter() { makeRequestBurst('jitter', 'jitter'); }
-export function cooldown_jitter() { makeRequest('jitter', 'jitter'); }
-
-// jitter-swr
-export function warmup_jitter_swr() { makeRequest('jitter-swr', 'jitter-swr'); }
-export function wait_jitter_swr() { sleep(strategies[2].waitSeconds); console.log('jitter-swr: Soft TTL expired, starting burst...'); }
-export function burst_jitter_swr() { makeRequestBurst('jitter-swr', 'jitter-swr'); }
-export function cooldown_jitter_swr() { makeRequest('jitter-swr', 'jitter-swr'); }
-
-// jitter-lock
-export function warmup_jitter_lock() { makeRequest('jitter-lock', 'jitter-lock'); }
-export function wait_jitter_lock() { sleep(strategies[3].waitSeconds); console.log('jitter-lock: TTL expired, starting burst...'); }
-export function burst_jitter_lock() { makeRequestBurst('jitter-lock', 'jitter-lock'); }
-export function cooldown_jitter_lock() { makeRequest('jitter-lock', 'jitter-lock'); }
-
-// full
-export function warmup_full() { makeRequest('full', 'full'); }
-export function wait_soft_full() { sleep(FULL_WAIT_SOFT); console.log('full: Soft TTL expired, starting burst...'); }
-export function burst_soft_full() { makeRequestFullSoftBurst(); }
-export function wait_hard_full() { sleep(FULL_WAIT_HARD); console.log('full: Hard TTL expired, starting 2nd burst...'); }
-export function burst_hard_full() { makeRequestFullHardBurst(); }
-export function cooldown_full() { makeRequest('full', 'full'); }
+export function teardown(data: { keyspace: Keyspace; originLoads: OriginLoadSnapshot }) {
+  const after = fetchOriginLoads();
+  CACHED_STRATEGIES.forEach(s => {
+    recordOriginLoads(originLoadsByStrategy[s], originLoadDelta(data.originLoads, after, s));
+  });
+  if (FAULTS_ENABLED) clearOriginFault();
+  cleanupCatalog(data.keyspace);
+}
 
 export default function () {
   // Not used
 }
 
+// 리포트 표: 전략별 phase 행 + (full) soft/hard burst 합산 + 전체
+function reportRows(data: any): ReportRow[] {
+  const rows: ReportRow[] = [];
+  CACHED_STRATEGIES.forEach(s => {
+    const scraped = SCRAPE_ENABLED && serverScraper.strategies.includes(s);
+    const rowNames = (phase: string | undefined, serverOriginLoadsSuffix?: string) => ({
+      ...phaseRowNames(s, phase, serverOriginLoadsSuffix),
+      serverRevalidations: scraped ? phaseMetricName(s, phase, 'server_revalidations') : undefined,
+    });
+
+    const loadPhases = timeline.phases.filter(p => p.kind === 'load' && p.tags.strategy === s);
+    loadPhases.forEach(p => {
+      rows.push(readRow(data, s, p.phase, rowNames(p.phase, isBurstPhase(p.phase) ? 'origin_loads' : undefined)));
+    });
+    if (!loadPhases.some(p => p.phase === 'burst') && loadPhases.some(p => isBurstPhase(p.phase))) {
+      rows.push(readRow(data, s, 'burst (total)', phaseRowNames(s, 'burst')));
+    }
+    rows.push(readRow(data, s, 'all', rowNames(undefined, 'origin_loads')));
+  });
+  return rows.filter(Boolean);
+}
+
+// 캐시가 warmup 시작 시점에 채워졌다고 보고 TTL 만료(earliest) 시점 표시
+function expiryMarkers(): ReportMarker[] {
+  const markers: ReportMarker[] = [];
+  CACHED_STRATEGIES.forEach(s => {
+    const warmup = timeline.phases.find(p => p.name === `warmup_${STRATEGIES[s].metricPrefix}`);
+    const boundaries = ttlBoundaries(s);
+    if (!warmup || !boundaries) return;
+    if (boundaries.softEarliest !== undefined) {
+      markers.push({ atSec: warmup.startSec + boundaries.softEarliest, label: `${s} soft TTL` });
+    }
+    markers.push({ atSec: warmup.startSec + boundaries.hardEarliest, label: `${s} hard TTL` });
+  });
+  return markers;
+}
+
 export function handleSummary(data: any) {
   console.log('\n=== Cache Stampede Prevention Strategy Comparison ===\n');
   console.log('--- Burst Phase Results (TTL Expiry Stampede Only) ---\n');
 
-  const allStrategies: StrategyName[] = ['basic', 'jitter', 'jitter-swr', 'jitter-lock', 'full'];
-
-  allStrategies.forEach(s => {
-    const burstKey = s.replace(/-/g, '_') + '_burst_response_time';
-    const burstRt = data.metrics[burstKey];
-    const burstSlowKey = s.replace(/-/g, '_') + '_burst_slow_path';
-    const burstSlow = data.metrics[burstSlowKey];
+  CACHED_STRATEGIES.forEach(s => {
+    const burstRt = data.metrics[strategyMetricName(s, 'burst_response_time')];
+    const burstSlow = data.metrics[strategyMetricName(s, 'burst_slow_path')];
+    const burstLoads = data.metrics[strategyMetricName(s, 'burst_origin_loads')];
+    const burstMaxPerKey = data.metrics[strategyMetricName(s, 'burst_origin_loads_max_per_key')];
+    const totalLoads = data.metrics[strategyMetricName(s, 'origin_loads')];
 
     if (burstRt && burstRt.values) {
       console.log(`Strategy: ${s} (burst only)`);
       console.log(`  Avg Response Time: ${burstRt.values.avg?.toFixed(2)}ms`);
       console.log(`  P95 Response Time: ${burstRt.values['p(95)']?.toFixed(2)}ms`);
       console.log(`  DB Access: ${burstSlow?.values?.count ?? 0}`);
+      console.log(`  Origin Loads (server): ${burstLoads?.values?.count ?? 0} (max per key: ${burstMaxPerKey?.values?.value ?? 0})`);
+      console.log(`  Origin Loads (whole run): ${totalLoads?.values?.count ?? 0}`);
       console.log('');
     }
   });
@@ -532,6 +476,10 @@ export function handleSummary(data: any) {
     console.log(`  Avg Response Time: ${fullSoft.values.avg?.toFixed(2)}ms`);
     console.log(`  P95 Response Time: ${fullSoft.values['p(95)']?.toFixed(2)}ms`);
     console.log(`  DB Access: ${fullSoftSlow?.values?.count ?? 0}`);
+    console.log(`  Origin Loads (server): ${data.metrics['full_soft_burst_origin_loads']?.values?.count ?? 0}`);
+    if (SCRAPE_ENABLED) {
+      console.log(`  Revalidations (server): ${data.metrics['full_soft_burst_server_revalidations']?.values?.count ?? 0}`);
+    }
     console.log('');
   }
 
@@ -542,13 +490,77 @@ export function handleSummary(data: any) {
     console.log(`  Avg Response Time: ${fullHard.values.avg?.toFixed(2)}ms`);
     console.log(`  P95 Response Time: ${fullHard.values['p(95)']?.toFixed(2)}ms`);
     console.log(`  DB Access: ${fullHardSlow?.values?.count ?? 0}`);
+    console.log(`  Origin Loads (server): ${data.metrics['full_hard_burst_origin_loads']?.values?.count ?? 0}`);
+    if (SCRAPE_ENABLED) {
+      console.log(`  Revalidations (server): ${data.metrics['full_hard_burst_server_revalidations']?.values?.count ?? 0}`);
+    }
     console.log('');
   }
 
   console.log('Lower response times and fewer DB accesses = better stampede protection\n');
 
+  // 서버 공통 메트릭 기준 전략 비교 (전체 실행 합산)
+  const serverTable = serverComparisonTable(data, SCRAPE_ENABLED ? serverScraper.strategies : []);
+  printServerComparison(serverTable);
+
+  // burst 구간 장애 주입 시: stale 반환 비율 / 에러 전파 / 복구 시간
+  const windows = faultWindows(timeline);
+  const faultTable = faultImpactTable(
+    data, windows, readTimeSeries(data, latencySeries), readTimeSeries(data, errorSeries), latencySeries.bucketSec,
+  );
+  if (windows.length > 0) {
+    console.log('--- Fault Impact ---\n');
+    faultTable.rows.forEach(cells => console.log(`  ${faultTable.header.map((h, i) => `${h}: ${cells[i]}`).join(', ')}`));
+    console.log('');
+  }
+
+  // burst(= TTL 경계)마다 스탬피드 이벤트 크기 / 길이
+  const events = detectStampedeEvents(data, phaseBoundaries(timeline, p => isBurstPhase(p.phase)), {
+    latency: readTimeSeries(data, latencySeries),
+    originLoads: readTimeSeries(data, slowPathSeries),
+    originLoadTime: readTimeSeries(data, originLoadTimeSeries),
+    bucketSec: latencySeries.bucketSec,
+  });
+  const eventTable = stampedeEventTable(events);
+  console.log('--- Stampede Events ---\n');
+  eventTable.rows.forEach(cells => console.log(`  ${eventTable.header.map((h, i) => `${h}: ${cells[i]}`).join(', ')}`));
+  console.log('');
+
+  printThresholdResults(data);
+
+  const report = {
+    title: 'Cache Stampede Prevention Strategy Comparison',
+    notes: [
+      `TTL: base=${ttl.baseTtlSec}s, jitterMax=${ttl.jitterMaxSec}s, softTtlRatio=${ttl.softTtlRatio}`,
+      `burst: ${BURST_RPS} rps x ${BURST_SEC}s (full: ${FULL_BURST_SEC}s), warmup: ${WARMUP_RPS} rps x ${WARMUP_SEC}s`,
+      `Strategy order: ${orderedBlocks.map(b => b.name).join(' → ')}${isolationConfig.order === 'random' ? ` (random, ORDER_SEED=${isolationConfig.seed})` : ''}`,
+      isolationConfig.enabled
+        ? `Server state reset before each strategy (drain timeout ${isolationConfig.drainTimeoutMs}ms), failed resets: ${data.metrics['isolation_reset_failures']?.values?.count ?? 0}`
+        : 'Server state not reset between strategies (STRATEGY_RESET=false)',
+      'Origin loads = X-Cache-Outcome MISS/LOCK_TIMEOUT_FALLBACK, Origin loads (server) = server-side findById count',
+      'Revalidations (server) = Micrometer cache.strategy.revalidate{result=started} delta scraped from /actuator/prometheus',
+      `Stampede event = buckets from the first spike (origin loads >= ${eventConfig.minOriginLoads} or p95 >= ${eventConfig.latencyMs}ms) after a burst boundary until the first quiet bucket`,
+      'Peak concurrent origin loads = sum of origin-load response times in a bucket / bucket length (Little\'s law), Amplification = server origin loads / keys loaded',
+    ],
+    rows: reportRows(data),
+    tables: [eventTable, serverTable, faultTable].filter(t => t.rows.length > 0),
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all strategies', kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      { label: 'origin loads', kind: 'count' as const, points: readTimeSeries(data, slowPathSeries) },
+      { label: 'errors', kind: 'count' as const, points: readTimeSeries(data, errorSeries) },
+    ],
+    phases: timeline.phases,
+    markers: [...expiryMarkers(), ...faultMarkers(windows)],
+  };
+
   return {
     'stdout': JSON.stringify(data, null, 2),
     'results/compare-strategies-summary.json': JSON.stringify(data),
+    ...reportFiles('compare-strategies', report),
+    ...seriesFiles('compare-strategies', data, { latency: latencySeries, errors: errorSeries, originLoads: slowPathSeries },
+      timelineLabeler(timeline)),
+    ...baselineFiles('compare-strategies', data, baseline),
   };
 }
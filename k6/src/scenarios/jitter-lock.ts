@@ -1,7 +1,15 @@
 import http from 'k6/http';
 import { check, sleep } from 'k6';
 import { Counter, Rate, Trend } from 'k6/metrics';
-import { config, getRandomProductId, buildUrl } from '../utils/config';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { config, printConfig, rejectUnknownEnv, stagesDurationSec } from '../utils/config';
+import { classifyResponse, countOutcome, isOriginLoad } from '../utils/outcome';
+import { REPORT_TREND_STATS, reportFiles, singleRunReport } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, stagesLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, productUrl } from '../utils/strategies';
+import { createTimeSeries, elapsedSec } from '../utils/timeseries';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
 
 const requestsTotal = new Counter('requests_total');
 const cacheHits = new Counter('cache_hits');
@@ -10,6 +18,16 @@ const lockWaits = new Counter('lock_waits');
 const errorRate = new Rate('error_rate');
 const responseTime = new Trend('response_time', true);
 
+// 리포트 / 초 단위 export용 시계열
+const rampingSec = stagesDurationSec(config.rampingOptions.stages);
+const latencySeries = createTimeSeries('ts_response_time', 'trend', rampingSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', rampingSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', rampingSec);
+
+const baseline = loadBaseline('jitter-lock'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
 export const options = {
   scenarios: {
     jitter_lock_cache: {
@@ -20,11 +38,25 @@ export const options = {
     },
   },
   thresholds: config.thresholds,
+  summaryTrendStats: REPORT_TREND_STATS,
 };
 
-export default function () {
-  const productId = getRandomProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/jitter-lock`);
+// 키스페이스 결정 + 필요 시 시드 (ramping 시나리오 기본 분포는 uniform, KEY_DISTRIBUTION으로 변경)
+export function setup() {
+  printConfig();
+  const keyspace = resolveKeyspace('uniform');
+  console.log(describeKeyspace(keyspace));
+  return { keyspace };
+}
+
+// SEED_CLEANUP=true면 setup에서 시드한 상품 삭제
+export function teardown(data: { keyspace: Keyspace }) {
+  cleanupCatalog(data.keyspace);
+}
+
+export default function (data: { keyspace: Keyspace }) {
+  const productId = pickProductId(data.keyspace);
+  const url = productUrl('jitter-lock', productId);
 
   const startTime = Date.now();
   const response = http.get(url, {
@@ -34,15 +66,13 @@ export default function () {
 
   requestsTotal.add(1);
   responseTime.add(duration);
+  const at = elapsedSec();
+  latencySeries.add(duration, at);
 
-  if (duration < 20) {
-    cacheHits.add(1);
-  } else if (duration < 150) {
-    // 락 대기 후 캐시에서 값 획득
-    lockWaits.add(1);
-  } else {
-    cacheMisses.add(1);
-  }
+  // 서버가 보고한 캐시 처리 결과 (X-Cache-Outcome, 락 대기 후 캐시 획득 = LOCK_WAIT)
+  const outcome = classifyResponse(response);
+  countOutcome(outcome, { hits: cacheHits, lockWaits, misses: cacheMisses });
+  if (isOriginLoad(outcome)) originSeries.add(1, at);
 
   const success = check(response, {
     'status is 200': (r: any) => r.status === 200,
@@ -50,7 +80,7 @@ export default function () {
     'has valid response body': (r: any) => {
       try {
         const body = JSON.parse(r.body as string);
-        return body.id !== undefined && body.meta?.strategy === 'jitter-lock';
+        return body.id !== undefined && matchesStrategyMeta('jitter-lock', body);
       } catch {
         return false;
       }
@@ -58,6 +88,7 @@ export default function () {
   });
 
   errorRate.add(!success);
+  if (!success) errorSeries.add(1, at);
 
   sleep(0.1);
 }
@@ -66,5 +97,14 @@ export function handleSummary(data: any) {
   return {
     'stdout': JSON.stringify(data, null, 2),
     'results/jitter-lock-summary.json': JSON.stringify(data),
+    ...reportFiles('jitter-lock', singleRunReport(data, 'Jitter + distributed lock (ramping)', 'jitter-lock', {
+      responseTime: 'response_time',
+      requests: 'requests_total',
+      errors: 'error_rate',
+      originLoads: 'cache_misses',
+    }, latencySeries)),
+    ...seriesFiles('jitter-lock', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      stagesLabeler('jitter-lock', config.rampingOptions.stages)),
+    ...baselineFiles('jitter-lock', data, baseline),
   };
 }
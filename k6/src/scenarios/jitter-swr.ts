@@ -3,14 +3,22 @@
 /// <reference types="k6/http" />
 /// <reference types="k6/metrics" />
 
-import { check, sleep } from 'k6';
+import { check } from 'k6';
 import http from 'k6/http';
 import { Counter, Rate, Trend } from 'k6/metrics';
-import { buildUrl } from '../utils/config';
-import { pickProductId } from '../utils/workload';
-
-// k6 글로벌 변수
-declare const __ENV: { [key: string]: string };
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { classifyResponse, countOutcome, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, reportFiles } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { productUrl, strategyMetricName } from '../utils/strategies';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase } from '../utils/timeline';
+import { ttl, ttlBoundaries, verifyTtlAgainstServer } from '../utils/ttl';
+import { describeKeyspace, pickProductId, resolveKeyspace } from '../utils/workload';
 
 /**
  * SWR 전용 TTL 만료 기반 시나리오
@@ -24,92 +32,115 @@ declare const __ENV: { [key: string]: string };
  * 테스트 시간을 줄이려면 ENV로 TTL/비율을 낮추면 됨.
  */
 
-function envNumber(name: string, fallback: number): number {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  if (!v) return fallback;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
+// 서버 TTL 모델에서 파생 (setup()에서 서버 설정과 대조)
+const SOFT_TTL_SEC = ttlBoundaries('jitter-swr').softEarliest; // = 10초
+const SOFT_TTL_LATEST_SEC = ttlBoundaries('jitter-swr').softLatest; // jitter 최대 = 12.5초
 
-function seconds(n: number): string {
-  return `${n}s`;
-}
+// 시나리오 파라미터
+const {
+  WARMUP_RPS,
+  WARMUP_SEC,
+  WAIT_BUFFER_SEC,
+  BURST_RPS,
+  BURST_SEC,
+  COOLDOWN_RPS,
+  COOLDOWN_SEC,
+  MAX_VUS,
+  PREALLOCATED_VUS,
+} = defineConfig('jitter-swr', {
+  WARMUP_RPS: { type: 'number', default: 100, min: 1, scale: 'rate' },
+  WARMUP_SEC: { type: 'number', default: 5, min: 1, integer: true, scale: 'time' }, // 짧은 워밍업 (캐시 채우기만)
+  WAIT_BUFFER_SEC: { type: 'number', default: 2, min: 0 }, // 가장 늦은 soft TTL 이후 여유 (jitter와 무관하게 stale 진입)
+  BURST_RPS: { type: 'number', default: 400, min: 1, scale: 'rate' },
+  BURST_SEC: { type: 'number', default: 10, min: 1, integer: true, scale: 'time' },
+  COOLDOWN_RPS: { type: 'number', default: 100, min: 1, scale: 'rate' },
+  COOLDOWN_SEC: { type: 'number', default: 10, min: 1, integer: true, scale: 'time' },
+  MAX_VUS: { type: 'number', default: 2000, min: 1, integer: true, scale: 'vus' },
+  PREALLOCATED_VUS: { type: 'number', default: 200, min: 1, integer: true, scale: 'vus' },
+});
+const STALE_WAIT_SEC = Math.max(0, SOFT_TTL_LATEST_SEC - WARMUP_SEC + WAIT_BUFFER_SEC);
 
-// 서버 TTL 파라미터 - 서버 application.yml과 일치시킬 것
-const BASE_TTL_SEC = envNumber('BASE_TTL_SEC', 20);      // 서버 cache.stampede.base-ttl-seconds
-const SOFT_TTL_RATIO = envNumber('SOFT_TTL_RATIO', 0.5); // 서버 cache.stampede.soft-ttl-ratio
-const SOFT_TTL_SEC = BASE_TTL_SEC * SOFT_TTL_RATIO;       // = 10초
+// 메트릭
+const rt = new Trend(strategyMetricName('jitter-swr', 'response_time'), true);
+const errors = new Rate(strategyMetricName('jitter-swr', 'errors'));
+const requests = new Counter(strategyMetricName('jitter-swr', 'requests'));
+const staleHits = new Counter(strategyMetricName('jitter-swr', 'stale_hits'));
+const cacheHits = new Counter(strategyMetricName('jitter-swr', 'cache_hits'));
+const cacheMisses = new Counter(strategyMetricName('jitter-swr', 'cache_misses'));
+
+const timeline = buildTimeline([
+  {
+    kind: 'load',
+    name: 'warmup',
+    exec: 'hit',
+    durationSec: WARMUP_SEC,
+    rps: WARMUP_RPS,
+    preAllocatedVUs: WARMUP_RPS * 2,
+    maxVUs: MAX_VUS,
+  },
+  { kind: 'wait', name: 'wait_for_stale', durationSec: STALE_WAIT_SEC },
+  {
+    kind: 'load',
+    name: 'stale_burst',
+    phase: 'burst',
+    exec: 'hit',
+    durationSec: BURST_SEC,
+    rps: BURST_RPS,
+    preAllocatedVUs: BURST_RPS * 2,
+    maxVUs: MAX_VUS,
+    ttlWindow: 'stale',
+  },
+  {
+    kind: 'load',
+    name: 'cooldown',
+    exec: 'hit',
+    durationSec: COOLDOWN_SEC,
+    rps: COOLDOWN_RPS,
+    preAllocatedVUs: COOLDOWN_RPS * 2,
+    maxVUs: MAX_VUS,
+  },
+]);
 
-// 시나리오 파라미터
-const WARMUP_SEC = envNumber('WARMUP_SEC', 5);           // 짧은 워밍업 (캐시 채우기만)
-const WAIT_BUFFER_SEC = envNumber('WAIT_BUFFER_SEC', 2); // soft TTL 도달 후 여유 (stale 확실히 진입)
-const STALE_WAIT_SEC = Math.max(0, SOFT_TTL_SEC - WARMUP_SEC + WAIT_BUFFER_SEC);
+// phase별 메트릭 (jitter_swr_{phase}_response_time 등) + 리포트용 초 단위 시계열
+const phaseMetrics = {};
+timeline.phases.filter(p => p.kind === 'load').forEach(p => {
+  phaseMetrics[p.phase] = createPhaseMetrics('jitter-swr', p.phase);
+});
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const slowPathSeries = createTimeSeries('ts_slow_path', 'counter', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
 
-const BURST_RPS = envNumber('BURST_RPS', 400);
-const BURST_SEC = envNumber('BURST_SEC', 10);
-const COOLDOWN_RPS = envNumber('COOLDOWN_RPS', 100);
-const COOLDOWN_SEC = envNumber('COOLDOWN_SEC', 10);
-const MAX_VUS = envNumber('MAX_VUS', 2000);
-const PREALLOCATED_VUS = envNumber('PREALLOCATED_VUS', 200);
+const baseline = loadBaseline('jitter-swr'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
 
-// 메트릭
-const rt = new Trend('jitter_swr_response_time', true);
-const errors = new Rate('jitter_swr_errors');
-const requests = new Counter('jitter_swr_requests');
-const staleHits = new Counter('jitter_swr_stale_hits');
-const cacheHits = new Counter('jitter_swr_cache_hits');
-const cacheMisses = new Counter('jitter_swr_cache_misses');
+rejectUnknownEnv();
 
 export const options = {
-  scenarios: {
-    warmup: {
-      executor: 'constant-arrival-rate',
-      rate: envNumber('WARMUP_RPS', 100),
-      timeUnit: '1s',
-      duration: seconds(WARMUP_SEC),
-      preAllocatedVUs: Math.min(envNumber('WARMUP_RPS', 100) * 2, MAX_VUS),
-      maxVUs: MAX_VUS,
-      exec: 'hit',
-    },
-    wait_for_stale: {
-      executor: 'per-vu-iterations',
-      vus: 1,
-      iterations: 1,
-      startTime: seconds(WARMUP_SEC),
-      exec: 'waitStale',
-    },
-    stale_burst: {
-      executor: 'constant-arrival-rate',
-      rate: BURST_RPS,
-      timeUnit: '1s',
-      duration: seconds(BURST_SEC),
-      preAllocatedVUs: Math.min(BURST_RPS * 2, MAX_VUS),
-      maxVUs: MAX_VUS,
-      startTime: seconds(WARMUP_SEC + STALE_WAIT_SEC),
-      exec: 'hit',
-    },
-    cooldown: {
-      executor: 'constant-arrival-rate',
-      rate: COOLDOWN_RPS,
-      timeUnit: '1s',
-      duration: seconds(COOLDOWN_SEC),
-      preAllocatedVUs: Math.min(COOLDOWN_RPS * 2, MAX_VUS),
-      maxVUs: MAX_VUS,
-      startTime: seconds(WARMUP_SEC + STALE_WAIT_SEC + BURST_SEC),
-      exec: 'hit',
-    },
-  },
+  scenarios: timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
 };
 
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline, strategy: 'jitter-swr' };
+
 export function setup() {
   console.log('=== SWR TTL-expiry scenario ===');
-  console.log(`BASE_TTL_SEC=${BASE_TTL_SEC}, SOFT_TTL_RATIO=${SOFT_TTL_RATIO}`);
+  printConfig();
+  verifyTtlAgainstServer();
+  console.log(`BASE_TTL_SEC=${ttl.baseTtlSec}, SOFT_TTL_RATIO=${ttl.softTtlRatio}`);
   console.log(`warmup=${WARMUP_SEC}s, waitForStale=${STALE_WAIT_SEC}s, burst=${BURST_SEC}s @${BURST_RPS} rps`);
+
+  const keyspace = resolveKeyspace();
+  console.log(describeKeyspace(keyspace));
+  return { keyspace };
 }
 
-export function hit() {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/jitter-swr`);
+export function teardown(data) {
+  cleanupCatalog(data.keyspace);
+}
+
+export function hit(data) {
+  const productId = pickProductId(data.keyspace);
+  const url = productUrl('jitter-swr', productId);
 
   const res = http.get(url, {
     headers: { 'Content-Type': 'application/json' },
@@ -124,24 +155,53 @@ export function hit() {
   });
   errors.add(!ok);
 
-  // 응답 시간으로 rough 상태 분류 (서버 메타를 직접 쓰지 않고 클라이언트 기준)
-  const d = res.timings.duration;
-  if (d < 20) {
-    cacheHits.add(1);
-  } else if (d < 80) {
-    staleHits.add(1);
-  } else {
-    cacheMisses.add(1);
-  }
-}
+  // 서버가 보고한 캐시 처리 결과 (X-Cache-Outcome) - STALE/REFRESH_TRIGGERED는 stale hit
+  const outcome = classifyResponse(res);
+  countOutcome(outcome, { hits: cacheHits, stale: staleHits, misses: cacheMisses });
 
-export function waitStale() {
-  sleep(STALE_WAIT_SEC);
+  recordPhaseSample(phaseMetrics[currentPhase(timeline).phase], res.timings.duration, ok, outcome);
+  const t = elapsedSec(timeline);
+  latencySeries.add(res.timings.duration, t);
+  if (isOriginLoad(outcome)) slowPathSeries.add(1, t);
+  if (!ok) errorSeries.add(1, t);
 }
 
 export function handleSummary(data: any) {
+  const rows = timeline.phases
+    .filter(p => p.kind === 'load')
+    .map(p => readRow(data, 'jitter-swr', p.phase, phaseRowNames('jitter-swr', p.phase)));
+  rows.push(readRow(data, 'jitter-swr', 'all', {
+    responseTime: strategyMetricName('jitter-swr', 'response_time'),
+    requests: strategyMetricName('jitter-swr', 'requests'),
+    errors: strategyMetricName('jitter-swr', 'errors'),
+    originLoads: strategyMetricName('jitter-swr', 'cache_misses'),
+    staleServed: strategyMetricName('jitter-swr', 'stale_hits'),
+  }));
+
+  const warmup = timeline.phases.find(p => p.name === 'warmup');
+  const report = {
+    title: 'SWR TTL-expiry scenario (jitter-swr)',
+    notes: [
+      `TTL: base=${ttl.baseTtlSec}s, softTtlRatio=${ttl.softTtlRatio}`,
+      `burst: ${BURST_RPS} rps x ${BURST_SEC}s, warmup: ${WARMUP_RPS} rps x ${WARMUP_SEC}s`,
+    ],
+    rows: rows.filter(Boolean),
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'jitter-swr', kind: 'latency', points: readTimeSeries(data, latencySeries) },
+      { label: 'origin loads', kind: 'count', points: readTimeSeries(data, slowPathSeries) },
+    ],
+    phases: timeline.phases,
+    markers: [{ atSec: (warmup?.startSec ?? 0) + SOFT_TTL_SEC, label: 'soft TTL expiry' }],
+  };
+
   return {
     stdout: JSON.stringify(data, null, 2),
     'results/jitter-swr-summary.json': JSON.stringify(data),
+    ...reportFiles('jitter-swr', report),
+    ...seriesFiles('jitter-swr', data, { latency: latencySeries, errors: errorSeries, originLoads: slowPathSeries },
+      timelineLabeler(timeline, 'jitter-swr')),
+    ...baselineFiles('jitter-swr', data, baseline),
   };
 }
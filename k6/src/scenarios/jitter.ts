@@ -1,7 +1,15 @@
 import http from 'k6/http';
 import { check, sleep } from 'k6';
 import { Counter, Rate, Trend } from 'k6/metrics';
-import { config, getRandomProductId, buildUrl } from '../utils/config';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { config, printConfig, rejectUnknownEnv, stagesDurationSec } from '../utils/config';
+import { classifyResponse, countOutcome, isOriginLoad } from '../utils/outcome';
+import { REPORT_TREND_STATS, reportFiles, singleRunReport } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, stagesLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, productUrl } from '../utils/strategies';
+import { createTimeSeries, elapsedSec } from '../utils/timeseries';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
 
 const requestsTotal = new Counter('requests_total');
 const cacheHits = new Counter('cache_hits');
@@ -9,6 +17,16 @@ const cacheMisses = new Counter('cache_misses');
 const errorRate = new Rate('error_rate');
 const responseTime = new Trend('response_time', true);
 
+// 리포트 / 초 단위 export용 시계열
+const rampingSec = stagesDurationSec(config.rampingOptions.stages);
+const latencySeries = createTimeSeries('ts_response_time', 'trend', rampingSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', rampingSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', rampingSec);
+
+const baseline = loadBaseline('jitter'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
 export const options = {
   scenarios: {
     jitter_cache: {
@@ -19,11 +37,25 @@ export const options = {
     },
   },
   thresholds: config.thresholds,
+  summaryTrendStats: REPORT_TREND_STATS,
 };
 
-export default function () {
-  const productId = getRandomProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/jitter`);
+// 키스페이스 결정 + 필요 시 시드 (ramping 시나리오 기본 분포는 uniform, KEY_DISTRIBUTION으로 변경)
+export function setup() {
+  printConfig();
+  const keyspace = resolveKeyspace('uniform');
+  console.log(describeKeyspace(keyspace));
+  return { keyspace };
+}
+
+// SEED_CLEANUP=true면 setup에서 시드한 상품 삭제
+export function teardown(data: { keyspace: Keyspace }) {
+  cleanupCatalog(data.keyspace);
+}
+
+export default function (data: { keyspace: Keyspace }) {
+  const productId = pickProductId(data.keyspace);
+  const url = productUrl('jitter', productId);
 
   const startTime = Date.now();
   const response = http.get(url, {
@@ -33,12 +65,13 @@ export default function () {
 
   requestsTotal.add(1);
   responseTime.add(duration);
+  const at = elapsedSec();
+  latencySeries.add(duration, at);
 
-  if (duration < 20) {
-    cacheHits.add(1);
-  } else {
-    cacheMisses.add(1);
-  }
+  // 서버가 보고한 캐시 처리 결과 (X-Cache-Outcome)
+  const outcome = classifyResponse(response);
+  countOutcome(outcome, { hits: cacheHits, misses: cacheMisses });
+  if (isOriginLoad(outcome)) originSeries.add(1, at);
 
   const success = check(response, {
     'status is 200': (r: any) => r.status === 200,
@@ -46,7 +79,7 @@ export default function () {
     'has valid response body': (r: any) => {
       try {
         const body = JSON.parse(r.body as string);
-        return body.id !== undefined && body.meta?.strategy === 'jitter';
+        return body.id !== undefined && matchesStrategyMeta('jitter', body);
       } catch {
         return false;
       }
@@ -54,6 +87,7 @@ export default function () {
   });
 
   errorRate.add(!success);
+  if (!success) errorSeries.add(1, at);
 
   sleep(0.1);
 }
@@ -62,5 +96,14 @@ export function handleSummary(data: any) {
   return {
     'stdout': JSON.stringify(data, null, 2),
     'results/jitter-summary.json': JSON.stringify(data),
+    ...reportFiles('jitter', singleRunReport(data, 'TTL jitter (ramping)', 'jitter', {
+      responseTime: 'response_time',
+      requests: 'requests_total',
+      errors: 'error_rate',
+      originLoads: 'cache_misses',
+    }, latencySeries)),
+    ...seriesFiles('jitter', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      stagesLabeler('jitter', config.rampingOptions.stages)),
+    ...baselineFiles('jitter', data, baseline),
   };
 }
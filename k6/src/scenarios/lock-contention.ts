@@ -0,0 +1,385 @@
+import { check } from 'k6';
+import http from 'k6/http';
+import { Counter, Trend } from 'k6/metrics';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { buildUrl, defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { clearOriginFault, OriginFault, plantOrphanLocks, setOriginFault } from '../utils/faults';
+import { measureOriginLoads, originLoadMetrics, originLoadProbe, OriginLoadMetrics, recordOriginLoads } from '../utils/origin-loads';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportRow, reportFiles, ReportTable } from '../utils/report';
+import { createServerScraper, runScrapeIteration, SCRAPE_ENABLED, scraperScenario } from '../utils/scraper';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, parseStrategyName, productUrl, STRATEGIES, StrategyName } from '../utils/strategies';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, Phase } from '../utils/timeline';
+import { CacheProperties, fetchCacheProperties } from '../utils/ttl';
+import { describeKeyspace, Keyspace, resolveKeyspace } from '../utils/workload';
+
+/**
+ * 락 경합 테스트 (jitter-lock / full)
+ *
+ * 한 키의 캐시를 비운 뒤 그 키에만 요청을 몰아서 갱신 락 경합을 만들고,
+ * 서버 장애 주입 훅으로 락 보유자의 로더를 느리게 / 실패하게 / 죽은 것처럼 만든다.
+ *
+ * 케이스 (전략마다 순서대로):
+ * - slow-loader   : 로더가 락 대기 한도(lock-max-retries × lock-retry-interval-ms)보다 느림 → 대기자가 포기하고 DB fallback
+ * - lock-expiry   : 로더가 lock-timeout-seconds보다 느림 → 로드 도중 락 만료, 다른 요청이 락을 잡아 중복 로드
+ * - dead-holder   : 해제되지 않는 락을 심음 → 락 TTL이 끝날 때까지 아무도 락을 못 잡음
+ * - failing-loader: 락 보유자의 로드가 실패 → 에러 전파 / 다음 대기자의 재시도
+ *
+ * 케이스마다 arm(무효화 + 장애 주입) → burst → disarm(장애 해제) → settle(남은 느린 로드 소진) 순서로 진행한다.
+ */
+
+// 서버 락 설정 (cache.stampede.lock-*) - 기본값 = application.yml, setup()에서 서버와 대조
+const lockEnv = defineConfig('lock-contention', {
+  LOCK_TIMEOUT_SEC: { type: 'number', default: 5, min: 1, integer: true },
+  LOCK_RETRY_INTERVAL_MS: { type: 'number', default: 50, min: 1, integer: true },
+  LOCK_MAX_RETRIES: { type: 'number', default: 10, min: 1, integer: true },
+});
+const lock = {
+  timeoutSec: lockEnv.LOCK_TIMEOUT_SEC,
+  retryIntervalMs: lockEnv.LOCK_RETRY_INTERVAL_MS,
+  maxRetries: lockEnv.LOCK_MAX_RETRIES,
+};
+const LOCK_WAIT_BUDGET_MS = lock.retryIntervalMs * lock.maxRetries;
+
+type ContentionCase = 'slow-loader' | 'lock-expiry' | 'dead-holder' | 'failing-loader';
+
+// 케이스별 지연 기본값은 서버 락 설정에서 파생
+const caseEnv = defineConfig('lock-contention', {
+  SLOW_LOADER_DELAY_MS: { type: 'number', default: LOCK_WAIT_BUDGET_MS * 3, min: 0, integer: true },
+  LOCK_EXPIRY_DELAY_MS: { type: 'number', default: lock.timeoutSec * 1000 + 2000, min: 0, integer: true },
+  ORPHAN_LOCK_TTL_SEC: { type: 'number', default: lock.timeoutSec, min: 1, integer: true },
+  LOCK_STRATEGIES: { type: 'string', default: 'jitter-lock,full' },
+  CASES: { type: 'string', default: 'slow-loader,lock-expiry,dead-holder,failing-loader' },
+});
+
+interface CaseDefinition {
+  description: string;
+  fault?: OriginFault;
+  orphanLockTtlSec?: number;
+}
+
+const CASES: Record<ContentionCase, CaseDefinition> = {
+  'slow-loader': {
+    description: 'loader slower than the lock wait budget',
+    fault: { delayMs: caseEnv.SLOW_LOADER_DELAY_MS },
+  },
+  'lock-expiry': {
+    description: 'loader slower than lock-timeout-seconds',
+    fault: { delayMs: caseEnv.LOCK_EXPIRY_DELAY_MS },
+  },
+  'dead-holder': {
+    description: 'lock held by a holder that never releases it',
+    orphanLockTtlSec: caseEnv.ORPHAN_LOCK_TTL_SEC,
+  },
+  'failing-loader': {
+    description: 'loader throws while holding the lock',
+    fault: { errorRate: 1 },
+  },
+};
+
+function isContentionCase(value: string): value is ContentionCase {
+  return Object.prototype.hasOwnProperty.call(CASES, value);
+}
+
+const strategies: StrategyName[] = caseEnv.LOCK_STRATEGIES
+  .split(',')
+  .map(s => parseStrategyName(s.trim()));
+const cases: ContentionCase[] = caseEnv.CASES
+  .split(',')
+  .map(c => c.trim())
+  .map(c => {
+    if (!isContentionCase(c)) {
+      throw new Error(`Unknown case "${c}" (expected one of: ${Object.keys(CASES).join(', ')})`);
+    }
+    return c;
+  });
+
+// 장애 해제 후 이미 시작된 느린 로드가 끝날 때까지 대기 (다음 케이스와 겹치지 않게)
+const maxDelayMs = Math.max(0, ...cases.map(c => CASES[c].fault?.delayMs ?? 0));
+
+const { CASE_RPS, CASE_SEC, ARM_SEC, SETTLE_SEC, MAX_VUS, CASE_VUS } = defineConfig('lock-contention', {
+  CASE_RPS: { type: 'number', default: 50, min: 1 },
+  CASE_SEC: { type: 'number', default: lock.timeoutSec * 2, min: 1, integer: true },
+  ARM_SEC: { type: 'number', default: 1, min: 1, integer: true },
+  SETTLE_SEC: { type: 'number', default: Math.ceil(maxDelayMs / 1000) + 2, min: 0, integer: true },
+  MAX_VUS: { type: 'number', default: 800, min: 1, integer: true },
+  CASE_VUS: { type: 'number', default: 100, min: 1, integer: true },
+});
+
+const phases: Phase[] = [];
+strategies.forEach(s => {
+  const prefix = STRATEGIES[s].metricPrefix;
+  cases.forEach(c => {
+    const tags = { strategy: s, case: c };
+    phases.push(
+      { kind: 'action', name: `arm_${c}_${prefix}`, phase: 'arm', exec: 'arm', tags, maxDurationSec: ARM_SEC + 5 },
+      { kind: 'wait', name: `armed_${c}_${prefix}`, durationSec: ARM_SEC },
+      originLoadProbe(`probe_${c}_${prefix}`, CASE_SEC, 'probe', tags),
+      {
+        kind: 'load',
+        name: `${c}_${prefix}`,
+        phase: c,
+        tags,
+        exec: 'hit',
+        durationSec: CASE_SEC,
+        rps: CASE_RPS,
+        preAllocatedVUs: CASE_VUS,
+        maxVUs: MAX_VUS,
+      },
+      { kind: 'action', name: `disarm_${c}_${prefix}`, phase: 'disarm', exec: 'disarm', tags, maxDurationSec: 5 },
+      { kind: 'wait', name: `settle_${c}_${prefix}`, durationSec: SETTLE_SEC },
+    );
+  });
+});
+const timeline = buildTimeline(phases);
+
+// (전략, 케이스)별 메트릭
+interface CaseMetrics {
+  phase: PhaseMetrics;
+  lockWaitTime: Trend;    // LOCK_WAIT 응답 시간 (락 대기 후 캐시에서 획득)
+  lockWaits: Counter;
+  fallbacks: Counter;     // LOCK_TIMEOUT_FALLBACK (대기 포기 후 DB 직접 조회)
+  ownerLoads: Counter;    // MISS (락을 잡고 로드한 요청)
+  originLoads: OriginLoadMetrics;
+}
+
+const caseMetrics: Record<string, CaseMetrics> = {};
+strategies.forEach(s => cases.forEach(c => {
+  caseMetrics[`${s}:${c}`] = {
+    phase: createPhaseMetrics(s, c),
+    lockWaitTime: new Trend(phaseMetricName(s, c, 'lock_wait_time'), true),
+    lockWaits: new Counter(phaseMetricName(s, c, 'lock_waits')),
+    fallbacks: new Counter(phaseMetricName(s, c, 'lock_fallbacks')),
+    ownerLoads: new Counter(phaseMetricName(s, c, 'lock_owner_loads')),
+    originLoads: originLoadMetrics(phaseMetricName(s, c, 'origin_loads')),
+  };
+}));
+
+// 서버 공통 메트릭 (cache.strategy.lock_acquire 등) - {strategy}_{case}_server_*
+const serverScraper = createServerScraper(timeline);
+
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const fallbackSeries = createTimeSeries('ts_lock_fallbacks', 'counter', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', timeline.totalSec);
+
+const baseline = loadBaseline('lock-contention'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
+export const options = {
+  scenarios: SCRAPE_ENABLED
+    ? { ...timeline.scenarios, scrape_server_metrics: scraperScenario(timeline.totalSec) }
+    : timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
+};
+
+const LOCK_PROPERTIES: { env: string; property: keyof CacheProperties; value: number }[] = [
+  { env: 'LOCK_TIMEOUT_SEC', property: 'lockTimeoutSeconds', value: lock.timeoutSec },
+  { env: 'LOCK_RETRY_INTERVAL_MS', property: 'lockRetryIntervalMs', value: lock.retryIntervalMs },
+  { env: 'LOCK_MAX_RETRIES', property: 'lockMaxRetries', value: lock.maxRetries },
+];
+
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
+
+export function setup() {
+  console.log('=== Lock Contention ===');
+  printConfig();
+  // 케이스 길이 / 지연은 서버 락 설정에서 파생하므로 다르면 즉시 중단
+  const server = fetchCacheProperties();
+  const problems = LOCK_PROPERTIES
+    .filter(p => p.value !== server[p.property])
+    .map(p => `${p.env}=${p.value} but server ${p.property}=${server[p.property]}`);
+  if (problems.length > 0) {
+    throw new Error(`Lock model does not match the server:\n  ${problems.join('\n  ')}`);
+  }
+
+  console.log(`lockTimeout=${lock.timeoutSec}s, lockWaitBudget=${LOCK_WAIT_BUDGET_MS}ms`);
+  cases.forEach(c => console.log(`  ${c}: ${CASES[c].description} ${JSON.stringify(CASES[c].fault ?? { orphanLockTtlSec: CASES[c].orphanLockTtlSec })}`));
+  console.log(`strategies=${strategies.join(',')}, caseRps=${CASE_RPS}, caseSec=${CASE_SEC}s, settle=${SETTLE_SEC}s, total=${timeline.totalSec}s`);
+
+  // 이전 실행이 중단되어 장애가 남아 있을 수 있음
+  clearOriginFault();
+
+  const keyspace = resolveKeyspace('hot-key');
+  console.log(`${describeKeyspace(keyspace)} (contention key: ${keyspace.ids[0]})`);
+  return { keyspace };
+}
+
+export function teardown(data: { keyspace: Keyspace }) {
+  clearOriginFault();
+  cleanupCatalog(data.keyspace);
+}
+
+// 케이스 시작: 경합 키 무효화 → 장애 주입 (또는 고아 락 설치)
+export function arm(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const definition = CASES[tags.case as ContentionCase];
+  const productId = data.keyspace.ids[0];
+
+  clearOriginFault();
+  const res = http.del(buildUrl(`/api/v1/products/${productId}/cache`));
+  check(res, { 'invalidate status is 200': (r: any) => r.status === 200 });
+
+  if (definition.fault) setOriginFault(definition.fault);
+  if (definition.orphanLockTtlSec) {
+    const planted = plantOrphanLocks(strategy, [productId], definition.orphanLockTtlSec);
+    if (planted.length === 0) console.warn(`[${strategy}] orphan lock not planted (lock already held): id=${productId}`);
+  }
+}
+
+export function disarm() {
+  clearOriginFault();
+}
+
+// 모든 요청은 경합 키 하나로 보낸다
+export function hit(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const metrics = caseMetrics[`${strategy}:${tags.case}`];
+
+  const res = http.get(productUrl(strategy, data.keyspace.ids[0]), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { strategy, case: tags.case },
+  });
+
+  const ok = check(res, {
+    'status is 200': (r: any) => r.status === 200,
+    'has strategy meta': (r: any) => {
+      try {
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
+      } catch {
+        return false;
+      }
+    },
+  });
+
+  const outcome = classifyResponse(res);
+  const duration = res.timings.duration;
+  const at = elapsedSec(timeline);
+  recordPhaseSample(metrics.phase, duration, ok, outcome);
+
+  if (outcome === 'LOCK_WAIT') {
+    metrics.lockWaits.add(1);
+    metrics.lockWaitTime.add(duration);
+  } else if (outcome === 'LOCK_TIMEOUT_FALLBACK') {
+    metrics.fallbacks.add(1);
+    fallbackSeries.add(1, at);
+  } else if (outcome === 'MISS') {
+    metrics.ownerLoads.add(1);
+  }
+  latencySeries.add(duration, at);
+  if (!ok) errorSeries.add(1, at);
+  if (isOriginLoad(outcome)) originSeries.add(1, at);
+}
+
+// 케이스 burst와 동시에 시작해 구간 내 서버 원본 로드 수를 기록
+export function probe() {
+  const { tags, durationSec } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  recordOriginLoads(caseMetrics[`${strategy}:${tags.case}`].originLoads, measureOriginLoads(strategy, durationSec));
+}
+
+export function scrape() {
+  runScrapeIteration(serverScraper);
+}
+
+export default function () {
+  // Not used
+}
+
+function count(data: any, name: string): number {
+  return data.metrics[name]?.values?.count ?? 0;
+}
+
+function fmtMs(v?: number): string {
+  return v === undefined ? '-' : v.toFixed(1);
+}
+
+const CONTENTION_HEADER = [
+  'Strategy', 'Case', 'Lock wait p50 / p95 / p99 (ms)', 'Lock waits', 'Fallbacks (gave up)',
+  'Lock-holder loads', 'Duplicate loads (lock expiry)', 'Origin loads (server, max/key)', 'Errors', 'Lock acquired / failed (server)',
+];
+
+/**
+ * 케이스별 락 경합 결과
+ * 케이스마다 키 1개가 한 번 비워지므로 정상적인 락이라면 락 보유자 로드(MISS)는 1회다.
+ * 그 이상은 락이 로드 도중 만료되어 다른 요청이 다시 락을 잡고 로드한 것 (lock-expiry / dead-holder).
+ */
+function contentionTable(data: any): ReportTable {
+  const rows: string[][] = [];
+  strategies.forEach(s => cases.forEach(c => {
+    const name = (suffix: string) => phaseMetricName(s, c, suffix);
+    const wait = data.metrics[name('lock_wait_time')]?.values;
+    const ownerLoads = count(data, name('lock_owner_loads'));
+    const errorRate = data.metrics[name('errors')]?.values?.rate;
+    const serverLocks = SCRAPE_ENABLED
+      ? `${count(data, name('server_lock_acquired'))} / ${count(data, name('server_lock_failed'))}`
+      : '-';
+
+    rows.push([
+      s,
+      c,
+      wait ? `${fmtMs(wait.med)} / ${fmtMs(wait['p(95)'])} / ${fmtMs(wait['p(99)'])}` : '-',
+      String(count(data, name('lock_waits'))),
+      String(count(data, name('lock_fallbacks'))),
+      String(ownerLoads),
+      String(Math.max(0, ownerLoads - 1)),
+      `${count(data, name('origin_loads'))} / ${data.metrics[name('origin_loads_max_per_key')]?.values?.value ?? 0}`,
+      errorRate === undefined ? '-' : `${(errorRate * 100).toFixed(2)}%`,
+      serverLocks,
+    ]);
+  }));
+  return { title: 'Lock contention', header: CONTENTION_HEADER, rows };
+}
+
+export function handleSummary(data: any) {
+  const table = contentionTable(data);
+
+  console.log('\n=== Lock Contention ===\n');
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]} (${cells[1]})`);
+    table.header.slice(2).forEach((h, i) => console.log(`  ${h}: ${cells[i + 2]}`));
+    console.log('');
+  });
+
+  const rows: ReportRow[] = [];
+  strategies.forEach(s => cases.forEach(c => {
+    rows.push(readRow(data, s, c, phaseRowNames(s, c, 'origin_loads')));
+  }));
+
+  const report = {
+    title: 'Lock Contention',
+    notes: [
+      `lock: timeout=${lock.timeoutSec}s, wait budget=${LOCK_WAIT_BUDGET_MS}ms (${lock.maxRetries} x ${lock.retryIntervalMs}ms)`,
+      `case: ${CASE_RPS} rps x ${CASE_SEC}s on a single key, settle ${SETTLE_SEC}s`,
+      ...cases.map(c => `${c}: ${CASES[c].description}`),
+      'Duplicate loads (lock expiry) = lock-holder loads (MISS) beyond the first one per case',
+    ],
+    rows: rows.filter(Boolean),
+    tables: [table],
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all cases', kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      { label: 'lock fallbacks', kind: 'count' as const, points: readTimeSeries(data, fallbackSeries) },
+    ],
+    phases: timeline.phases,
+  };
+
+  return {
+    'stdout': JSON.stringify(data, null, 2),
+    'results/lock-contention-summary.json': JSON.stringify(data),
+    ...reportFiles('lock-contention', report),
+    ...seriesFiles('lock-contention', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      timelineLabeler(timeline)),
+    ...baselineFiles('lock-contention', data, baseline),
+  };
+}
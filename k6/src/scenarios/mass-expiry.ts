@@ -0,0 +1,384 @@
+import { check } from 'k6';
+import http from 'k6/http';
+import { Gauge } from 'k6/metrics';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { invalidateCache } from '../utils/invalidation';
+import { measureOriginLoads, originLoadMetrics, originLoadProbe, OriginLoadMetrics, recordOriginLoads } from '../utils/origin-loads';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, ReportRow, reportFiles, ReportTable } from '../utils/report';
+import { createServerScraper, runScrapeIteration, SCRAPE_ENABLED, scraperScenario } from '../utils/scraper';
+import { cleanupCatalog, seedConfig, seedProducts } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, parseStrategyName, productUrl, STRATEGIES, StrategyName } from '../utils/strategies';
+import { createTimeSeries, elapsedSec, readTimeSeries, SeriesPoint, TimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, Phase, ScheduledPhase } from '../utils/timeline';
+import { ttl, verifyTtlAgainstServer } from '../utils/ttl';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace, workload } from '../utils/workload';
+
+/**
+ * 대량 동시 만료 테스트 - TTL jitter가 만료 시점을 실제로 분산시키는지 측정
+ *
+ * compare-strategies는 hot key 하나만 보므로 jitter는 만료 절벽을 최대 JITTER_MAX_SEC 뒤로 미룰 뿐이다.
+ * 여기서는 전략마다 MASS_KEYS개 키를 같은 순간에 채우고(http.batch) 모든 키에 고르게 일정한 트래픽을 보내며
+ * 만료 구간(warm + BASE_TTL_SEC ~ warm + BASE_TTL_SEC + JITTER_MAX_SEC + 1)의 초당 원본 로드를 기록한다.
+ * - basic  : 모든 키가 같은 초에 만료 → 원본 로드가 한 bucket에 몰림 (peak-to-mean ≈ 만료 구간 bucket 수)
+ * - jitter : 만료가 0 ~ JITTER_MAX_SEC초에 흩어짐 → peak-to-mean ≈ 1
+ *
+ * 원본 로드는 요청 단위(X-Cache-Outcome)로 세므로 soft TTL 백그라운드 갱신이 보이지 않는 soft-hard 전략은 대상에서 제외한다.
+ */
+
+const env = defineConfig('mass-expiry', {
+  MASS_STRATEGIES: { type: 'string', default: 'basic,jitter' },
+  // 시드할 키 수 (CATALOG_SIZE / PRODUCT_IDS 지정 시 그 키스페이스 사용)
+  MASS_KEYS: { type: 'number', default: 200, min: 1, integer: true },
+  RPS: { type: 'number', default: 600, min: 1, scale: 'rate' },
+  // 키를 한 번에 채우는 병렬 요청 수 (options.batch / batchPerHost)
+  WARM_BATCH: { type: 'number', default: 50, min: 1, integer: true },
+  // warm 이후 steady 트래픽 시작까지 대기
+  WARM_SEC: { type: 'number', default: 2, min: 0, integer: true },
+  // 만료 구간 이후 추가로 관찰하는 시간
+  TAIL_SEC: { type: 'number', default: 5, min: 0, integer: true },
+  GAP_SEC: { type: 'number', default: 3, min: 0, integer: true },
+  // RPS × 응답 지연(만료 직후 원본 로드 ~200ms)만큼은 미리 할당 - 600 × 0.2 = 120
+  PRE_VUS: { type: 'number', default: 150, min: 1, integer: true, scale: 'vus' },
+  MAX_VUS: { type: 'number', default: 800, min: 1, integer: true, scale: 'vus' },
+});
+
+const strategies: StrategyName[] = env.MASS_STRATEGIES
+  .split(',')
+  .map(s => parseStrategyName(s.trim()))
+  .map(s => {
+    if (STRATEGIES[s].ttlModel.expiry !== 'hard') {
+      throw new Error(`Strategy "${s}" has no single hard TTL (mass-expiry supports: basic, jitter, jitter-lock)`);
+    }
+    return s;
+  });
+
+const { MASS_KEYS, RPS, WARM_BATCH, WARM_SEC, TAIL_SEC, GAP_SEC, PRE_VUS, MAX_VUS } = env;
+
+// 만료 구간 길이 - jitter는 초 단위 0 ~ jitterMax (Random.nextLong(0, jitterMax + 1))
+const EXPIRY_WINDOW_SEC = ttl.jitterMaxSec + 1;
+const STEADY_SEC = Math.max(1, ttl.baseTtlSec + EXPIRY_WINDOW_SEC + TAIL_SEC - WARM_SEC);
+
+const phases: Phase[] = [];
+strategies.forEach(s => {
+  const prefix = STRATEGIES[s].metricPrefix;
+  const tags = { strategy: s };
+  phases.push(
+    { kind: 'action', name: `warm_${prefix}`, phase: 'warm', exec: 'warm', tags, maxDurationSec: WARM_SEC + 10 },
+    { kind: 'wait', name: `warmed_${prefix}`, durationSec: WARM_SEC },
+    originLoadProbe(`probe_${prefix}`, STEADY_SEC, 'probe', tags),
+    {
+      kind: 'load',
+      name: `steady_${prefix}`,
+      phase: 'steady',
+      tags,
+      exec: 'hit',
+      durationSec: STEADY_SEC,
+      rps: RPS,
+      preAllocatedVUs: PRE_VUS,
+      maxVUs: MAX_VUS,
+    },
+    { kind: 'wait', name: `gap_${prefix}`, durationSec: GAP_SEC },
+  );
+});
+const timeline = buildTimeline(phases);
+
+// 전략별 메트릭 - warm 시각(경과 초)은 만료 구간 계산용
+interface MassMetrics {
+  steady: PhaseMetrics;
+  originLoads: OriginLoadMetrics;   // 서버 집계 (steady 구간)
+  warmStartedAt: Gauge;
+  warmSpread: Gauge;                // 첫 warm 요청 시작 ~ 마지막 응답 (초)
+  warmKeys: Gauge;
+  warmErrors: Gauge;
+  originSeries: TimeSeries;         // 초당 원본 로드 (클라이언트)
+}
+
+const massMetrics: Record<string, MassMetrics> = {};
+strategies.forEach(s => {
+  const prefix = STRATEGIES[s].metricPrefix;
+  massMetrics[s] = {
+    steady: createPhaseMetrics(s, 'steady'),
+    originLoads: originLoadMetrics(phaseMetricName(s, 'steady', 'origin_loads')),
+    warmStartedAt: new Gauge(phaseMetricName(s, 'warm', 'started_at_sec')),
+    warmSpread: new Gauge(phaseMetricName(s, 'warm', 'spread_sec')),
+    warmKeys: new Gauge(phaseMetricName(s, 'warm', 'keys')),
+    warmErrors: new Gauge(phaseMetricName(s, 'warm', 'errors')),
+    originSeries: createTimeSeries(`ts_${prefix}_origin_loads`, 'counter', timeline.totalSec),
+  };
+});
+
+const serverScraper = createServerScraper(timeline);
+
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+
+const baseline = loadBaseline('mass-expiry'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
+export const options = {
+  scenarios: SCRAPE_ENABLED
+    ? { ...timeline.scenarios, scrape_server_metrics: scraperScenario(timeline.totalSec) }
+    : timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
+  batch: WARM_BATCH,
+  batchPerHost: WARM_BATCH,
+};
+
+// 키스페이스가 작으면 만료가 분산돼도 눈에 띄지 않으므로 기본은 MASS_KEYS개를 시드
+function resolveMassKeyspace(): Keyspace {
+  if (seedConfig.catalogSize > 0 || workload.productIds.length > 0) {
+    return resolveKeyspace('uniform');
+  }
+  const ids = seedProducts(MASS_KEYS);
+  return { ids, seededIds: ids, distribution: 'uniform', startedAtMs: Date.now() };
+}
+
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
+
+export function setup() {
+  console.log('=== Mass Expiry ===');
+  printConfig();
+  console.log(`strategies=${strategies.join(',')}, rps=${RPS}, steady=${STEADY_SEC}s, total=${timeline.totalSec}s`);
+
+  // 만료 구간은 서버 TTL에서 파생 - 다르면 중단
+  verifyTtlAgainstServer();
+
+  const keyspace = resolveMassKeyspace();
+  console.log(describeKeyspace(keyspace));
+  console.log(`per-key revisit interval ≈ ${(keyspace.ids.length / RPS).toFixed(2)}s (keys / rps)`);
+  return { keyspace };
+}
+
+export function teardown(data: { keyspace: Keyspace }) {
+  cleanupCatalog(data.keyspace);
+}
+
+// 전략 네임스페이스를 비우고 모든 키를 한꺼번에 채움 → 모든 키의 TTL이 같은 순간에 시작
+export function warm(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const metrics = massMetrics[strategy];
+
+  invalidateCache({ scope: 'all', strategies: [strategy] }, data.keyspace);
+
+  const startedAt = elapsedSec(timeline);
+  const responses = http.batch(data.keyspace.ids.map(id => ({
+    method: 'GET',
+    url: productUrl(strategy, id),
+    params: { tags: { strategy, phase: 'warm' } },
+  })));
+  const spread = elapsedSec(timeline) - startedAt;
+  const errors = responses.filter(r => r.status !== 200).length;
+
+  check(null, { 'warm responses are 200': () => errors === 0 });
+  metrics.warmStartedAt.add(startedAt);
+  metrics.warmSpread.add(spread);
+  metrics.warmKeys.add(responses.length);
+  metrics.warmErrors.add(errors);
+  console.log(`[${strategy}] warmed ${responses.length} keys in ${spread.toFixed(2)}s (errors=${errors})`);
+}
+
+export function hit(data: { keyspace: Keyspace }) {
+  const { phase, tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const metrics = massMetrics[strategy];
+
+  const res = http.get(productUrl(strategy, pickProductId(data.keyspace)), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { strategy, phase },
+  });
+
+  const ok = check(res, {
+    'status is 200': (r: any) => r.status === 200,
+    'has strategy meta': (r: any) => {
+      try {
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
+      } catch {
+        return false;
+      }
+    },
+  });
+
+  const outcome = classifyResponse(res);
+  const at = elapsedSec(timeline);
+  recordPhaseSample(metrics.steady, res.timings.duration, ok, outcome);
+  latencySeries.add(res.timings.duration, at);
+  if (!ok) errorSeries.add(1, at);
+  if (isOriginLoad(outcome)) metrics.originSeries.add(1, at);
+}
+
+// steady 구간과 동시에 시작해 구간 내 서버 원본 로드 수를 기록
+export function probe() {
+  const { tags, durationSec } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  recordOriginLoads(massMetrics[strategy].originLoads, measureOriginLoads(strategy, durationSec));
+}
+
+export function scrape() {
+  runScrapeIteration(serverScraper);
+}
+
+export default function () {
+  // Not used
+}
+
+// ===== 리포트 =====
+
+function steadyPhaseOf(strategy: StrategyName): ScheduledPhase {
+  return timeline.phases.find(p => p.kind === 'load' && p.tags.strategy === strategy)!;
+}
+
+interface ExpirySpread {
+  windowStartSec: number;
+  windowEndSec: number;
+  loads: number;       // 만료 구간 내 원본 로드 (클라이언트)
+  peakPerSec: number;
+  meanPerSec: number;
+  peakToMean?: number;
+  spreadSec?: number;  // 구간 내 원본 로드의 10% ~ 90%가 발생한 bucket 사이 간격
+}
+
+/**
+ * 만료 구간의 초당 원본 로드 분포
+ * 구간은 모든 전략에 같은 길이(JITTER_MAX_SEC + 1초, 앞뒤 warm 소요 시간 포함)를 쓰므로 전략 간 peak-to-mean을 그대로 비교할 수 있다.
+ */
+function expirySpread(data: any, strategy: StrategyName, origin: SeriesPoint[]): ExpirySpread | undefined {
+  const startedAt = data.metrics[phaseMetricName(strategy, 'warm', 'started_at_sec')]?.values?.value;
+  if (startedAt === undefined) return undefined;
+  const warmSpread = data.metrics[phaseMetricName(strategy, 'warm', 'spread_sec')]?.values?.value ?? 0;
+
+  const bucketSec = latencySeries.bucketSec;
+  const first = Math.floor((startedAt + ttl.baseTtlSec) / bucketSec);
+  const last = Math.ceil((startedAt + warmSpread + ttl.baseTtlSec + EXPIRY_WINDOW_SEC) / bucketSec);
+  const counts = origin.slice(first, last).map(p => p.count);
+  const loads = counts.reduce((a, b) => a + b, 0);
+  const spanSec = Math.max(1, counts.length) * bucketSec;
+
+  const peakPerSec = Math.max(0, ...counts) / bucketSec;
+  const meanPerSec = loads / spanSec;
+
+  let spreadSec: number | undefined;
+  if (loads > 0) {
+    let cumulative = 0;
+    let p10: number | undefined;
+    let p90: number | undefined;
+    counts.forEach((c, i) => {
+      cumulative += c;
+      if (p10 === undefined && cumulative >= loads * 0.1) p10 = i;
+      if (p90 === undefined && cumulative >= loads * 0.9) p90 = i;
+    });
+    spreadSec = (p90! - p10! + 1) * bucketSec;
+  }
+
+  return {
+    windowStartSec: first * bucketSec,
+    windowEndSec: last * bucketSec,
+    loads,
+    peakPerSec,
+    meanPerSec,
+    peakToMean: meanPerSec > 0 ? peakPerSec / meanPerSec : undefined,
+    spreadSec,
+  };
+}
+
+function count(data: any, name: string): number {
+  return data.metrics[name]?.values?.count ?? 0;
+}
+
+const EXPIRY_HEADER = [
+  'Strategy', 'Keys warmed', 'Warm spread (s)', 'Expiry window (s)', 'Origin loads in window', 'Peak loads/s',
+  'Mean loads/s', 'Peak-to-mean', '10-90% spread (s)', 'Steady origin loads (server, max/key)', 'Steady p95 (ms)',
+];
+
+function expiryTable(data: any, origin: Record<string, SeriesPoint[]>): ReportTable {
+  const rows = strategies.map(s => {
+    const spread = expirySpread(data, s, origin[s]);
+    const name = (phase: string, suffix: string) => phaseMetricName(s, phase, suffix);
+    const keys = data.metrics[name('warm', 'keys')]?.values?.value ?? 0;
+    const warmErrors = data.metrics[name('warm', 'errors')]?.values?.value ?? 0;
+    const warmSpread = data.metrics[name('warm', 'spread_sec')]?.values?.value;
+    const p95 = data.metrics[name('steady', 'response_time')]?.values?.['p(95)'];
+
+    return [
+      s,
+      warmErrors > 0 ? `${keys - warmErrors} (${warmErrors} errors)` : String(keys),
+      warmSpread === undefined ? '-' : warmSpread.toFixed(2),
+      spread ? `${spread.windowStartSec.toFixed(0)}-${spread.windowEndSec.toFixed(0)}` : '-',
+      spread ? String(spread.loads) : '-',
+      spread ? spread.peakPerSec.toFixed(0) : '-',
+      spread ? spread.meanPerSec.toFixed(1) : '-',
+      spread?.peakToMean === undefined ? '-' : spread.peakToMean.toFixed(2),
+      spread?.spreadSec === undefined ? '-' : spread.spreadSec.toFixed(0),
+      `${count(data, name('steady', 'origin_loads'))} / ${data.metrics[name('steady', 'origin_loads_max_per_key')]?.values?.value ?? 0}`,
+      p95 === undefined ? '-' : p95.toFixed(1),
+    ];
+  });
+  return { title: 'Mass expiry', header: EXPIRY_HEADER, rows };
+}
+
+function expiryMarkers(): ReportMarker[] {
+  return strategies.map(s => ({
+    atSec: steadyPhaseOf(s).startSec - WARM_SEC + ttl.baseTtlSec,
+    label: `${s} expiry`,
+  }));
+}
+
+export function handleSummary(data: any) {
+  const origin: Record<string, SeriesPoint[]> = {};
+  strategies.forEach(s => {
+    origin[s] = readTimeSeries(data, massMetrics[s].originSeries);
+  });
+  const table = expiryTable(data, origin);
+
+  console.log('\n=== Mass Expiry ===\n');
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]}`);
+    table.header.slice(1).forEach((h, i) => console.log(`  ${h}: ${cells[i + 1]}`));
+    console.log('');
+  });
+
+  const rows: ReportRow[] = [];
+  strategies.forEach(s => {
+    const row = readRow(data, s, 'steady', phaseRowNames(s, 'steady', 'origin_loads'));
+    if (row) rows.push(row);
+  });
+
+  const report = {
+    title: 'Mass Expiry',
+    notes: [
+      `all keys warmed at once (batch ${WARM_BATCH}), then ${RPS} rps uniform across them for ${STEADY_SEC}s per strategy`,
+      `TTL: base ${ttl.baseTtlSec}s + jitter 0-${ttl.jitterMaxSec}s → expiry window ${EXPIRY_WINDOW_SEC}s after warm (bucket ${latencySeries.bucketSec}s)`,
+      'Peak-to-mean = peak origin loads/s ÷ mean origin loads/s over the expiry window (all keys at once ≈ window buckets, evenly spread ≈ 1)',
+      'A key is reloaded on its first request after expiry, so loads lag expiry by up to the per-key revisit interval (keys / rps)',
+    ],
+    rows,
+    tables: [table],
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all strategies', kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      ...strategies.map(s => ({ label: `${s} origin loads`, kind: 'count' as const, points: origin[s] })),
+    ],
+    phases: timeline.phases,
+    markers: expiryMarkers(),
+  };
+
+  return {
+    'stdout': JSON.stringify(data, null, 2),
+    'results/mass-expiry-summary.json': JSON.stringify(data),
+    ...reportFiles('mass-expiry', report),
+    ...seriesFiles('mass-expiry', data, {
+      latency: latencySeries,
+      errors: errorSeries,
+      originLoads: strategies.map(s => massMetrics[s].originSeries),
+    }, timelineLabeler(timeline)),
+    ...baselineFiles('mass-expiry', data, baseline),
+  };
+}
@@ -0,0 +1,387 @@
+import { check } from 'k6';
+import http from 'k6/http';
+import { Counter, Trend } from 'k6/metrics';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { config, defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { describeInvalidation, invalidateCache, invalidationSpec } from '../utils/invalidation';
+import { isolationConfig, resetServerState, resetWindowSec, verifyReset } from '../utils/isolation';
+import {
+  ClusterOriginLoadMetrics,
+  clusterOriginLoadDelta,
+  clusterOriginLoadMetrics,
+  fetchClusterOriginLoads,
+  measureClusterOriginLoads,
+  OriginLoadSnapshot,
+  originLoadProbe,
+  PROBE_SETTLE_SEC,
+  recordClusterOriginLoads,
+} from '../utils/origin-loads';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, ReportRow, reportFiles, ReportTable } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import {
+  CACHED_STRATEGIES,
+  matchesStrategyMeta,
+  metricFamily,
+  parseStrategyName,
+  productUrl,
+  STRATEGIES,
+  strategyMetricName,
+  StrategyName,
+} from '../utils/strategies';
+import { guaranteeThresholds, mergeThresholds, printThresholdResults } from '../utils/thresholds';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, LoadPhase, Phase, TtlWindow } from '../utils/timeline';
+import { ttl, ttlBoundaries, verifyTtlAgainstServer } from '../utils/ttl';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
+
+/**
+ * 멀티 인스턴스 테스트 - 로드밸런서 뒤에서도 스탬피드 방지가 유지되는지
+ *
+ * 상품 요청을 BASE_URLS의 여러 앱 인스턴스(같은 Redis / Postgres 공유)에 BASE_URL_BALANCE 방식으로 나눠 보낸다.
+ * 서버의 중복 제거는 두 층이다.
+ * - 분산 락(RedisDistributedLock): 모든 인스턴스가 공유 → 만료 후 동기 로드는 클러스터 전체에서 한 요청만
+ * - 백그라운드 갱신 중복 제거(refreshingKeys): 인스턴스 안에서만 유효 → 인스턴스마다 갱신을 따로 시작할 수 있다
+ *
+ * 전략마다: warmup → (soft TTL 전략) stale-burst → 무효화 → miss-burst
+ * burst마다 인스턴스별 원본 로드 스냅샷 차이로 키당 중복 로드를 센다. (origin-loads.ts clusterOriginLoadDelta)
+ */
+
+const env = defineConfig('multi-instance', {
+  INSTANCE_STRATEGIES: { type: 'string', default: CACHED_STRATEGIES.join(',') },
+  WARMUP_RPS: { type: 'number', default: 50, min: 1, scale: 'rate' },
+  WARMUP_SEC: { type: 'number', default: 5, min: 1, integer: true, scale: 'time' },
+  BURST_RPS: { type: 'number', default: 600, min: 1, scale: 'rate' },
+  BURST_SEC: { type: 'number', default: 5, min: 1, integer: true, scale: 'time' }, // stale-burst가 hard 만료 전에 끝나도록 짧게
+  MAX_VUS: { type: 'number', default: 1000, min: 1, integer: true, scale: 'vus' },
+  PREALLOCATED_VUS: { type: 'number', default: 150, min: 1, integer: true, scale: 'vus' },
+  GAP_SEC: { type: 'number', default: 3, min: 0, integer: true, scale: 'time' },
+  WAIT_BUFFER_SEC: { type: 'number', default: 1, min: 0 }, // 가장 늦은 soft 만료 시점 이후 여유
+});
+
+const strategies: StrategyName[] = env.INSTANCE_STRATEGIES
+  .split(',')
+  .map(s => parseStrategyName(s.trim()))
+  .filter(s => STRATEGIES[s].ttlModel.expiry !== 'none');
+
+const { WARMUP_RPS, WARMUP_SEC, BURST_RPS, BURST_SEC, MAX_VUS, PREALLOCATED_VUS, GAP_SEC, WAIT_BUFFER_SEC } = env;
+
+if (strategies.length === 0) {
+  throw new Error(`INSTANCE_STRATEGIES="${env.INSTANCE_STRATEGIES}" has no cached strategy`);
+}
+
+function hasSoftTtl(strategy: StrategyName): boolean {
+  return ttlBoundaries(strategy)?.softEarliest !== undefined;
+}
+
+function loadPhase(strategy: StrategyName, phase: string, rps: number, durationSec: number, ttlWindow?: TtlWindow): LoadPhase {
+  return {
+    kind: 'load',
+    name: `${phase.replace(/-/g, '_')}_${STRATEGIES[strategy].metricPrefix}`,
+    phase,
+    tags: { strategy },
+    exec: 'hit',
+    durationSec,
+    rps,
+    preAllocatedVUs: PREALLOCATED_VUS,
+    maxVUs: MAX_VUS,
+    ttlWindow,
+  };
+}
+
+// burst와 같은 시점에 시작하는 클러스터 probe - probe 이름 → 기록할 메트릭 ({strategy}_{phase}_origin_loads_*)
+const probeMetrics: Record<string, ClusterOriginLoadMetrics> = {};
+
+// probe 구간(burst + settle)이 끝난 뒤 다음 action이 오도록 settle만큼 비워 둔다
+function burstWithProbe(strategy: StrategyName, phase: string, ttlWindow: TtlWindow): Phase[] {
+  const burst = loadPhase(strategy, phase, BURST_RPS, BURST_SEC, ttlWindow);
+  const probeName = `probe_${burst.name}`;
+  probeMetrics[probeName] = clusterOriginLoadMetrics(phaseMetricName(strategy, phase, 'origin_loads'));
+  return [
+    originLoadProbe(probeName, BURST_SEC, 'probe', { strategy }),
+    burst,
+    { kind: 'wait', name: `settle_${burst.name}`, durationSec: PROBE_SETTLE_SEC },
+  ];
+}
+
+// 전략별 burst phase (stale-burst: soft TTL 만료 직후 백그라운드 갱신, miss-burst: 무효화 직후 동기 로드)
+function burstPhases(strategy: StrategyName): string[] {
+  return hasSoftTtl(strategy) ? ['stale-burst', 'miss-burst'] : ['miss-burst'];
+}
+
+const phases: Phase[] = [];
+strategies.forEach((s, i) => {
+  const sid = STRATEGIES[s].metricPrefix;
+  const tags = { strategy: s };
+  if (isolationConfig.enabled) {
+    phases.push(
+      { kind: 'action', name: `reset_${sid}`, phase: 'reset', exec: 'reset', tags, maxDurationSec: resetWindowSec() + 10, clearsCache: true },
+      { kind: 'wait', name: `reset_wait_${sid}`, durationSec: resetWindowSec() },
+    );
+  }
+  phases.push(loadPhase(s, 'warmup', WARMUP_RPS, WARMUP_SEC));
+  if (hasSoftTtl(s)) {
+    // jitter와 무관하게 모든 인스턴스가 stale 값을 보도록 가장 늦은 soft 만료 이후에 시작 (12.5 - 5 + 1 = 8.5s)
+    const softLatest = ttlBoundaries(s)!.softLatest!;
+    phases.push(
+      { kind: 'wait', name: `wait_stale_${sid}`, durationSec: Math.max(0, softLatest - WARMUP_SEC + WAIT_BUFFER_SEC) },
+      ...burstWithProbe(s, 'stale-burst', 'stale'),
+    );
+  }
+  phases.push(
+    { kind: 'action', name: `invalidate_${sid}`, phase: 'invalidate', exec: 'invalidate', tags, maxDurationSec: 1, clearsCache: true },
+    ...burstWithProbe(s, 'miss-burst', 'expired'),
+  );
+  if (i < strategies.length - 1) {
+    phases.push({ kind: 'wait', name: `gap_${sid}`, durationSec: GAP_SEC });
+  }
+});
+
+const timeline = buildTimeline(phases);
+
+// 전략 전체 / 전략 × phase 메트릭
+const overallMetrics = {} as Record<StrategyName, PhaseMetrics>;
+const phaseMetrics: Record<string, PhaseMetrics> = {};
+strategies.forEach(s => {
+  overallMetrics[s] = createPhaseMetrics(s);
+});
+timeline.phases.filter(p => p.kind === 'load').forEach(p => {
+  phaseMetrics[`${p.tags.strategy}:${p.phase}`] = createPhaseMetrics(p.tags.strategy as StrategyName, p.phase);
+});
+
+// setup ~ teardown 전체 (인스턴스 합산 + 중복)
+const originLoadsByStrategy = metricFamily('origin_loads', clusterOriginLoadMetrics, strategies);
+
+const resetFailures = new Counter('isolation_reset_failures');
+const resetDrainTime = new Trend('isolation_reset_drain_ms');
+const invalidatedKeys = new Counter('multi_instance_invalidated_keys');
+
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const slowPathSeries = createTimeSeries('ts_slow_path', 'counter', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+
+// 키당 원본 로드 상한은 인스턴스 합산 기준 - 인스턴스 사이 중복도 그대로 threshold 실패로 드러난다
+const thresholds = mergeThresholds(
+  ...strategies.map(s => guaranteeThresholds(s, {
+    burstMaxLoadsPerKey: phaseMetricName(s, 'miss-burst', 'origin_loads_max_per_key'),
+    errors: strategyMetricName(s, 'errors'),
+  })),
+  ...strategies.filter(hasSoftTtl).map(s => guaranteeThresholds(s, {
+    burstMaxLoadsPerKey: phaseMetricName(s, 'stale-burst', 'origin_loads_max_per_key'),
+    staleBurstLatency: phaseMetricName(s, 'stale-burst', 'response_time'),
+  })),
+  isolationConfig.enabled ? { isolation_reset_failures: ['count==0'] } : {},
+);
+
+const baseline = loadBaseline('multi-instance'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
+export const options = {
+  scenarios: timeline.scenarios,
+  thresholds,
+  summaryTrendStats: REPORT_TREND_STATS,
+};
+
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
+
+export function setup() {
+  console.log('=== Multi-Instance Stampede Protection ===');
+  printConfig();
+  verifyTtlAgainstServer();
+  console.log(`instances=${config.baseUrls.join(', ')} (balance=${config.balance})`);
+  if (config.baseUrls.length < 2) {
+    console.warn('only one instance configured (BASE_URLS) - cross-instance duplicates will always be 0');
+  }
+  console.log(`strategies=${strategies.join(',')}, invalidate=${describeInvalidation(invalidationSpec)}`);
+  console.log(`burstRps=${BURST_RPS}, burstSec=${BURST_SEC}, total=${timeline.totalSec}s`);
+
+  const keyspace = resolveKeyspace();
+  console.log(describeKeyspace(keyspace));
+  console.log('');
+
+  // 모든 인스턴스에 닿는지도 여기서 확인 (하나라도 실패하면 중단)
+  return { keyspace, originLoads: fetchClusterOriginLoads() };
+}
+
+export function teardown(data: { keyspace: Keyspace; originLoads: OriginLoadSnapshot[] }) {
+  const after = fetchClusterOriginLoads();
+  strategies.forEach(s => {
+    recordClusterOriginLoads(originLoadsByStrategy[s], clusterOriginLoadDelta(data.originLoads, after, s));
+  });
+  cleanupCatalog(data.keyspace);
+}
+
+export function hit(data: { keyspace: Keyspace }) {
+  const { phase, tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+
+  const res = http.get(productUrl(strategy, pickProductId(data.keyspace)), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { strategy },
+  });
+
+  const ok = check(res, {
+    'status is 200': (r: any) => r.status === 200,
+    'has strategy meta': (r: any) => {
+      try {
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
+      } catch {
+        return false;
+      }
+    },
+  });
+
+  const outcome = classifyResponse(res);
+  recordPhaseSample(overallMetrics[strategy], res.timings.duration, ok, outcome);
+  recordPhaseSample(phaseMetrics[`${strategy}:${phase}`], res.timings.duration, ok, outcome);
+
+  const t = elapsedSec(timeline);
+  latencySeries.add(res.timings.duration, t);
+  if (isOriginLoad(outcome)) slowPathSeries.add(1, t);
+  if (!ok) errorSeries.add(1, t);
+}
+
+// 전략 블록 직전: 모든 인스턴스의 갱신이 끝나길 기다린 뒤 캐시 / 락을 지우고 비었는지 확인
+export function reset() {
+  const { tags } = currentPhase(timeline);
+  const result = resetServerState();
+  const problems = verifyReset(result);
+
+  check(result, { 'server state reset before strategy': () => problems.length === 0 });
+  resetFailures.add(problems.length > 0 ? 1 : 0);
+  resetDrainTime.add(result.waitedMs);
+  console.log(`[reset before ${tags.strategy}] drained in ${result.waitedMs}ms, deleted keys=${result.deletedKeys}, locks=${result.deletedLocks}`);
+  if (problems.length > 0) console.warn(`[reset before ${tags.strategy}] not isolated: ${problems.join('; ')}`);
+}
+
+// 측정 중인 전략의 캐시만 무효화 (캐시는 공유 Redis라 한 인스턴스에만 요청)
+export function invalidate(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const result = invalidateCache({ ...invalidationSpec, strategies: [strategy] }, data.keyspace);
+  invalidatedKeys.add(result.deletedKeys);
+  console.log(`[invalidate ${strategy}] ${describeInvalidation(invalidationSpec)}: deletedKeys=${result.deletedKeys}`);
+}
+
+// burst와 동시에 시작해 burst 구간(+ settle)의 인스턴스별 원본 로드 수를 기록
+export function probe() {
+  const { name, tags, durationSec } = currentPhase(timeline);
+  const delta = measureClusterOriginLoads(tags.strategy as StrategyName, durationSec);
+  recordClusterOriginLoads(probeMetrics[name], delta);
+  console.log(`[${name}] origin loads=${delta.total} over ${delta.keys} keys, duplicates=${delta.duplicateLoads}, by instance=${delta.byInstance.join('/')}`);
+}
+
+export default function () {
+  // Not used
+}
+
+// ===== 리포트 =====
+
+function count(data: any, name: string): number {
+  return data.metrics[name]?.values?.count ?? 0;
+}
+
+function gauge(data: any, name: string): number {
+  return data.metrics[name]?.values?.value ?? 0;
+}
+
+const DUPLICATE_HEADER = [
+  'Strategy', 'Burst', 'Origin loads (server)', 'Keys', 'Max per key', 'Duplicate loads',
+  'Keys loaded on >1 instance', 'Max instances per key', 'By instance',
+];
+
+/**
+ * 전략 × burst별 인스턴스 간 중복 원본 로드
+ * Duplicate loads = 키당 첫 로드를 뺀 나머지 합. 락 전략의 miss-burst는 0이어야 하고,
+ * stale-burst에서 Keys loaded on >1 instance가 0보다 크면 백그라운드 갱신이 인스턴스마다 따로 돈 것
+ */
+function duplicateTable(data: any): ReportTable {
+  const rows: string[][] = [];
+  strategies.forEach(s => burstPhases(s).forEach(phase => {
+    const name = (suffix: string) => phaseMetricName(s, phase, `origin_loads${suffix}`);
+    rows.push([
+      s,
+      phase,
+      String(count(data, name(''))),
+      String(gauge(data, name('_keys'))),
+      String(gauge(data, name('_max_per_key'))),
+      String(count(data, name('_duplicates'))),
+      String(gauge(data, name('_cross_instance_keys'))),
+      String(gauge(data, name('_max_instances_per_key'))),
+      config.baseUrls.map((_, i) => count(data, name(`_instance_${i}`))).join(' / '),
+    ]);
+  }));
+  return { title: 'Cross-instance origin loads', header: DUPLICATE_HEADER, rows };
+}
+
+function reportRows(data: any): ReportRow[] {
+  const rows: ReportRow[] = [];
+  strategies.forEach(s => {
+    timeline.phases.filter(p => p.kind === 'load' && p.tags.strategy === s).forEach(p => {
+      const isBurst = p.phase !== 'warmup';
+      const row = readRow(data, s, p.phase, phaseRowNames(s, p.phase, isBurst ? 'origin_loads' : undefined));
+      if (row) rows.push(row);
+    });
+    const all = readRow(data, s, 'all', phaseRowNames(s, undefined, 'origin_loads'));
+    if (all) rows.push(all);
+  });
+  return rows;
+}
+
+function burstMarkers(): ReportMarker[] {
+  return timeline.phases
+    .filter(p => p.kind === 'load' && p.phase !== 'warmup')
+    .map(p => ({ atSec: p.startSec, label: `${p.tags.strategy} ${p.phase}` }));
+}
+
+export function handleSummary(data: any) {
+  const table = duplicateTable(data);
+
+  console.log('\n=== Multi-Instance Stampede Protection ===\n');
+  console.log(`Instances: ${config.baseUrls.join(', ')} (${config.balance})\n`);
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]} (${cells[1]})`);
+    table.header.slice(2).forEach((h, i) => console.log(`  ${h}: ${cells[i + 2]}`));
+    console.log('');
+  });
+  printThresholdResults(data);
+
+  const report = {
+    title: 'Multi-Instance Stampede Protection',
+    notes: [
+      `instances: ${config.baseUrls.join(', ')} (balance: ${config.balance})`,
+      `TTL: base=${ttl.baseTtlSec}s, jitterMax=${ttl.jitterMaxSec}s, softTtlRatio=${ttl.softTtlRatio}`,
+      `burst: ${BURST_RPS} rps x ${BURST_SEC}s, warmup: ${WARMUP_RPS} rps x ${WARMUP_SEC}s, invalidate: ${describeInvalidation(invalidationSpec)}`,
+      'stale-burst = right after soft TTL expiry (background refresh), miss-burst = right after invalidation (synchronous load)',
+      'Origin loads (server) = findById count summed over instances, Duplicate loads = loads beyond the first per key across the cluster',
+      isolationConfig.enabled
+        ? `Server state reset on every instance before each strategy, failed resets: ${count(data, 'isolation_reset_failures')}`
+        : 'Server state not reset between strategies (STRATEGY_RESET=false)',
+    ],
+    rows: reportRows(data),
+    tables: [table],
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all strategies', kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      { label: 'origin loads', kind: 'count' as const, points: readTimeSeries(data, slowPathSeries) },
+      { label: 'errors', kind: 'count' as const, points: readTimeSeries(data, errorSeries) },
+    ],
+    phases: timeline.phases,
+    markers: burstMarkers(),
+  };
+
+  return {
+    'stdout': JSON.stringify(data, null, 2),
+    'results/multi-instance-summary.json': JSON.stringify(data),
+    ...reportFiles('multi-instance', report),
+    ...seriesFiles('multi-instance', data, { latency: latencySeries, errors: errorSeries, originLoads: slowPathSeries },
+      timelineLabeler(timeline)),
+    ...baselineFiles('multi-instance', data, baseline),
+  };
+}
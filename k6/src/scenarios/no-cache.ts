@@ -1,13 +1,30 @@
 import http from 'k6/http';
 import { check, sleep } from 'k6';
 import { Counter, Rate, Trend } from 'k6/metrics';
-import { config, getRandomProductId, buildUrl } from '../utils/config';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { config, printConfig, rejectUnknownEnv, stagesDurationSec } from '../utils/config';
+import { REPORT_TREND_STATS, reportFiles, singleRunReport } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, stagesLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, productUrl } from '../utils/strategies';
+import { createTimeSeries, elapsedSec } from '../utils/timeseries';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace } from '../utils/workload';
 
 // 커스텀 메트릭
 const requestsTotal = new Counter('requests_total');
 const errorRate = new Rate('error_rate');
 const responseTime = new Trend('response_time', true);
 
+// 리포트 / 초 단위 export용 시계열
+const rampingSec = stagesDurationSec(config.rampingOptions.stages);
+const latencySeries = createTimeSeries('ts_response_time', 'trend', rampingSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', rampingSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', rampingSec);
+
+const baseline = loadBaseline('no-cache'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
 export const options = {
   scenarios: {
     no_cache: {
@@ -18,11 +35,25 @@ export const options = {
     },
   },
   thresholds: config.thresholds,
+  summaryTrendStats: REPORT_TREND_STATS,
 };
 
-export default function () {
-  const productId = getRandomProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/no-cache`);
+// 키스페이스 결정 + 필요 시 시드 (ramping 시나리오 기본 분포는 uniform, KEY_DISTRIBUTION으로 변경)
+export function setup() {
+  printConfig();
+  const keyspace = resolveKeyspace('uniform');
+  console.log(describeKeyspace(keyspace));
+  return { keyspace };
+}
+
+// SEED_CLEANUP=true면 setup에서 시드한 상품 삭제
+export function teardown(data: { keyspace: Keyspace }) {
+  cleanupCatalog(data.keyspace);
+}
+
+export default function (data: { keyspace: Keyspace }) {
+  const productId = pickProductId(data.keyspace);
+  const url = productUrl('no-cache', productId);
 
   const startTime = Date.now();
   const response = http.get(url, {
@@ -32,6 +63,9 @@ export default function () {
 
   requestsTotal.add(1);
   responseTime.add(duration);
+  const at = elapsedSec();
+  latencySeries.add(duration, at);
+  originSeries.add(1, at); // 캐시 없음 - 모든 요청이 원본 로드
 
   const success = check(response, {
     'status is 200': (r: any) => r.status === 200,
@@ -39,7 +73,7 @@ export default function () {
     'has valid response body': (r: any) => {
       try {
         const body = JSON.parse(r.body as string);
-        return body.id !== undefined && body.meta?.strategy === 'no-cache';
+        return body.id !== undefined && matchesStrategyMeta('no-cache', body);
       } catch {
         return false;
       }
@@ -47,6 +81,7 @@ export default function () {
   });
 
   errorRate.add(!success);
+  if (!success) errorSeries.add(1, at);
 
   // 요청 간 짧은 대기 (실제 사용자 행동 시뮬레이션)
   sleep(0.1);
@@ -56,5 +91,14 @@ export function handleSummary(data: any) {
   return {
     'stdout': JSON.stringify(data, null, 2),
     'results/no-cache-summary.json': JSON.stringify(data),
+    ...reportFiles('no-cache', singleRunReport(data, 'No cache (ramping)', 'no-cache', {
+      responseTime: 'response_time',
+      requests: 'requests_total',
+      errors: 'error_rate',
+      originLoads: 'requests_total',
+    }, latencySeries)),
+    ...seriesFiles('no-cache', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      stagesLabeler('no-cache', config.rampingOptions.stages)),
+    ...baselineFiles('no-cache', data, baseline),
   };
 }
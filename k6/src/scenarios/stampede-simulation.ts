@@ -3,180 +3,230 @@
 /// <reference types="k6/http" />
 /// <reference types="k6/metrics" />
 
-import { check, sleep } from 'k6';
+import { check } from 'k6';
 import http from 'k6/http';
 import { Counter, Rate, Trend } from 'k6/metrics';
-import { buildUrl } from '../utils/config';
-import { pickProductId } from '../utils/workload';
-
-// K6 글로벌 변수
-declare const __ENV: { [key: string]: string };
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { defineConfig, printConfig, rejectUnknownEnv, resolvedConfig } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import {
+  clearOriginFault,
+  configuredFault,
+  describeFault,
+  faultImpactTable,
+  faultMarkers,
+  faultPhase,
+  FAULTS_ENABLED,
+  faultWindows,
+  runFaultPhase,
+} from '../utils/faults';
+import {
+  fetchOriginLoads,
+  measureOriginLoads,
+  OriginLoadSnapshot,
+  originLoadDelta,
+  originLoadMetrics,
+  originLoadProbe,
+  recordOriginLoads,
+} from '../utils/origin-loads';
+import { describeInvalidation, invalidateCache, invalidationSpec } from '../utils/invalidation';
+import { classifyResponse, countOutcome, isOriginLoad, isStaleServe } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, reportFiles } from '../utils/report';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { matchesStrategyMeta, parseStrategyName, productUrl, STRATEGIES, StrategyName } from '../utils/strategies';
+import { failedThresholds, guaranteeThresholds, printThresholdResults } from '../utils/thresholds';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, LoadPhase } from '../utils/timeline';
+import { ttl, ttlBoundaries, verifyTtlAgainstServer } from '../utils/ttl';
+import { describeKeyspace, Keyspace, pickProductId, resolveKeyspace, workload } from '../utils/workload';
 
 /**
  * 캐시 스탬피드 시뮬레이션
  *
  * 시나리오:
  * 1) hot key를 충분히 워밍업해서 캐시가 "유효"한 상태에서 시작
- * 2) 특정 시점에 캐시 무효화
+ * 2) 특정 시점에 캐시 무효화 (INVALIDATE_TARGET: 단일 hot key ~ 네임스페이스 전체, invalidation.ts)
  * 3) 무효화 직후 매우 높은 요청률(burst)을 걸어 스탬피드 재현
  */
 
-type StrategyName = 'basic' | 'jitter' | 'jitter-swr' | 'jitter-lock' | 'full' | 'no-cache';
-
-function envString(name: string, fallback: string): string {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  return v && v.length > 0 ? v : fallback;
-}
+const {
+  STRATEGY,
+  MODE,
+  WAIT_BUFFER_SEC,
+  WARMUP_RPS,
+  WARMUP_SEC,
+  INVALIDATE_AT_SEC,
+  BURST_RPS,
+  BURST_SEC,
+  COOLDOWN_RPS,
+  COOLDOWN_SEC,
+  MAX_VUS,
+  WARMUP_VUS,
+  BURST_VUS,
+  COOLDOWN_VUS,
+} = defineConfig('stampede-simulation', {
+  STRATEGY: { type: 'string', default: 'full', choices: Object.keys(STRATEGIES) },
+  MODE: { type: 'string', default: 'invalidate', choices: ['invalidate', 'ttl-expiry'] },
+  // ttl-expiry: stale 구간 확실히 진입하도록 버퍼 (TTL에서 파생되는 대기라 profile과 무관)
+  WAIT_BUFFER_SEC: { type: 'number', default: 2, min: 0 },
+  // RPS/시간 파라미터
+  WARMUP_RPS: { type: 'number', default: 50, min: 1, scale: 'rate' },
+  WARMUP_SEC: { type: 'number', default: 5, min: 1, integer: true, scale: 'time' }, // 짧은 워밍업 (캐시 채우기만)
+  INVALIDATE_AT_SEC: { type: 'number', default: 15, min: 1, integer: true, scale: 'time' },
+  BURST_RPS: { type: 'number', default: 800, min: 1, scale: 'rate' },
+  BURST_SEC: { type: 'number', default: 10, min: 1, integer: true, scale: 'time' },
+  COOLDOWN_RPS: { type: 'number', default: 100, min: 1, scale: 'rate' },
+  COOLDOWN_SEC: { type: 'number', default: 20, min: 1, integer: true, scale: 'time' },
+  MAX_VUS: { type: 'number', default: 2000, min: 1, integer: true, scale: 'vus' },
+  WARMUP_VUS: { type: 'number', default: 50, min: 1, integer: true, scale: 'vus' },
+  BURST_VUS: { type: 'number', default: 300, min: 1, integer: true, scale: 'vus' },
+  COOLDOWN_VUS: { type: 'number', default: 100, min: 1, integer: true, scale: 'vus' },
+});
 
-function envNumber(name: string, fallback: number): number {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  if (!v) return fallback;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
+const strategy: StrategyName = parseStrategyName(STRATEGY);
+const mode = MODE;
 
-function seconds(n: number): string {
-  return `${n}s`;
+if (mode === 'invalidate' && INVALIDATE_AT_SEC <= WARMUP_SEC) {
+  throw new Error(`INVALIDATE_AT_SEC=${INVALIDATE_AT_SEC} must be greater than WARMUP_SEC=${WARMUP_SEC}`);
 }
 
-const strategy: StrategyName = envString('STRATEGY', 'full') as StrategyName;
-const mode = envString('MODE', 'invalidate'); // invalidate | ttl-expiry
-const endpointByStrategy: Record<StrategyName, string> = {
-  'no-cache': 'no-cache',
-  'basic': 'basic',
-  'jitter': 'jitter',
-  'jitter-swr': 'jitter-swr',
-  'jitter-lock': 'jitter-lock',
-  'full': 'full',
-};
-
 const responseTime = new Trend('stampede_response_time', true);
 const errors = new Rate('stampede_errors');
 const requests = new Counter('stampede_requests');
-const slowPath = new Counter('stampede_slow_path'); // meta.responseTimeMs 기반 "DB 접근 추정"
-
-// TTL-expiry 모드 파라미터 (SWR 테스트용) - 서버 application.yml과 일치시킬 것
-const BASE_TTL_SEC = envNumber('BASE_TTL_SEC', 20);       // 서버: cache.stampede.base-ttl-seconds
-const SOFT_TTL_RATIO = envNumber('SOFT_TTL_RATIO', 0.5);  // 서버: cache.stampede.soft-ttl-ratio
-const SOFT_TTL_SEC = BASE_TTL_SEC * SOFT_TTL_RATIO;       // = 10초
-const WAIT_BUFFER_SEC = envNumber('WAIT_BUFFER_SEC', 2);  // stale 구간 확실히 진입하도록 버퍼
-
-// RPS/시간 파라미터
-const WARMUP_RPS = envNumber('WARMUP_RPS', 50);
-const WARMUP_SEC = envNumber('WARMUP_SEC', 5);            // 짧은 워밍업 (캐시 채우기만)
-const INVALIDATE_AT_SEC = envNumber('INVALIDATE_AT_SEC', 15);
-const BURST_RPS = envNumber('BURST_RPS', 800);
-const BURST_SEC = envNumber('BURST_SEC', 10);
-const COOLDOWN_RPS = envNumber('COOLDOWN_RPS', 100);
-const COOLDOWN_SEC = envNumber('COOLDOWN_SEC', 20);
-const MAX_VUS = envNumber('MAX_VUS', 2000);
-const WARMUP_VUS = envNumber('WARMUP_VUS', 50);
-const BURST_VUS = envNumber('BURST_VUS', 300);
-const COOLDOWN_VUS = envNumber('COOLDOWN_VUS', 100);
-const STALE_WAIT_SEC = Math.max(0, SOFT_TTL_SEC - WARMUP_SEC + WAIT_BUFFER_SEC);
-
-const invalidateScenarios = {
-  warmup: {
-    executor: 'constant-arrival-rate',
-    rate: WARMUP_RPS,
-    timeUnit: '1s',
-    duration: seconds(WARMUP_SEC),
-    preAllocatedVUs: WARMUP_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-  },
-  invalidate: {
-    executor: 'per-vu-iterations',
-    vus: 1,
-    iterations: 1,
-    maxDuration: '1s',
-    exec: 'invalidate',
-    startTime: seconds(INVALIDATE_AT_SEC),
-  },
-  burst: {
-    executor: 'constant-arrival-rate',
-    rate: BURST_RPS,
-    timeUnit: '1s',
-    duration: seconds(BURST_SEC),
-    preAllocatedVUs: BURST_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-    startTime: seconds(INVALIDATE_AT_SEC),
-  },
-  cooldown: {
-    executor: 'constant-arrival-rate',
-    rate: COOLDOWN_RPS,
-    timeUnit: '1s',
-    duration: seconds(COOLDOWN_SEC),
-    preAllocatedVUs: COOLDOWN_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-    startTime: seconds(INVALIDATE_AT_SEC + BURST_SEC),
-  },
+const slowPath = new Counter('stampede_slow_path'); // 원본(DB) 접근 (X-Cache-Outcome = MISS / LOCK_TIMEOUT_FALLBACK)
+const staleServed = new Counter('stampede_stale_served'); // stale 값 반환 (STALE / REFRESH_TRIGGERED)
+// 서버 측 실제 원본 로드 수 (백그라운드 갱신 포함) - 전체 실행 / burst 구간
+const originLoads = originLoadMetrics('stampede_origin_loads');
+const burstOriginLoads = originLoadMetrics('stampede_burst_origin_loads');
+const invalidatedKeys = new Counter('stampede_invalidated_keys'); // 무효화로 실제 지워진 캐시 항목 수
+
+// TTL-expiry 모드 파라미터 (SWR 테스트용) - 서버 TTL 모델에서 파생, setup()에서 서버와 대조
+const SOFT_TTL_SEC = ttlBoundaries(strategy)?.softEarliest ?? ttl.baseTtlSec * ttl.softTtlRatio; // = 10초
+// jitter와 무관하게 stale 구간에 들어가도록 가장 늦은 soft 만료 기준 (= 12.5초)
+const STALE_WAIT_SEC = Math.max(0, (ttlBoundaries(strategy)?.softLatest ?? SOFT_TTL_SEC) - WARMUP_SEC + WAIT_BUFFER_SEC);
+
+const warmupPhase: LoadPhase = {
+  kind: 'load',
+  name: 'warmup',
+  exec: 'hit',
+  durationSec: WARMUP_SEC,
+  rps: WARMUP_RPS,
+  preAllocatedVUs: WARMUP_VUS,
+  maxVUs: MAX_VUS,
 };
 
-const ttlExpiryScenarios = {
-  warmup: {
-    executor: 'constant-arrival-rate',
-    rate: WARMUP_RPS,
-    timeUnit: '1s',
-    duration: seconds(WARMUP_SEC),
-    preAllocatedVUs: WARMUP_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-  },
-  wait_for_stale: {
-    executor: 'shared-iterations',
-    vus: 1,
-    iterations: 1,
-    maxDuration: seconds(STALE_WAIT_SEC + 1),
-    exec: 'waitStale',
-    startTime: seconds(WARMUP_SEC),
-  },
-  burst: {
-    executor: 'constant-arrival-rate',
-    rate: BURST_RPS,
-    timeUnit: '1s',
-    duration: seconds(BURST_SEC),
-    preAllocatedVUs: BURST_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-    startTime: seconds(WARMUP_SEC + STALE_WAIT_SEC),
-  },
-  cooldown: {
-    executor: 'constant-arrival-rate',
-    rate: COOLDOWN_RPS,
-    timeUnit: '1s',
-    duration: seconds(COOLDOWN_SEC),
-    preAllocatedVUs: COOLDOWN_VUS,
-    maxVUs: MAX_VUS,
-    exec: 'hit',
-    startTime: seconds(WARMUP_SEC + STALE_WAIT_SEC + BURST_SEC),
-  },
+const burstPhase: LoadPhase = {
+  kind: 'load',
+  name: 'burst',
+  exec: 'hit',
+  durationSec: BURST_SEC,
+  rps: BURST_RPS,
+  preAllocatedVUs: BURST_VUS,
+  maxVUs: MAX_VUS,
+  // ttl-expiry: soft TTL 전략은 stale 구간, 나머지는 만료 이후 / invalidate: 무효화 직후
+  ttlWindow: mode === 'ttl-expiry' && ttlBoundaries(strategy)?.softEarliest !== undefined ? 'stale' : 'expired',
 };
 
+const cooldownPhase: LoadPhase = {
+  kind: 'load',
+  name: 'cooldown',
+  exec: 'hit',
+  durationSec: COOLDOWN_SEC,
+  rps: COOLDOWN_RPS,
+  preAllocatedVUs: COOLDOWN_VUS,
+  maxVUs: MAX_VUS,
+};
+
+// FAULT_DELAY_MS / FAULT_ERROR_RATE 지정 시 burst 구간 동안 서버 원본 장애를 켬
+const burstFaults = FAULTS_ENABLED ? [faultPhase('faults_burst', 'burst', BURST_SEC, configuredFault())] : [];
+
+const timeline = buildTimeline(
+  mode === 'ttl-expiry'
+    ? [
+      warmupPhase,
+      { kind: 'wait', name: 'wait_for_stale', durationSec: STALE_WAIT_SEC },
+      ...burstFaults,
+      originLoadProbe('probe_burst', BURST_SEC, 'probe'),
+      burstPhase,
+      cooldownPhase,
+    ]
+    : [
+      warmupPhase,
+      { kind: 'wait', name: 'wait_for_invalidate', durationSec: INVALIDATE_AT_SEC - WARMUP_SEC },
+      { kind: 'action', name: 'invalidate', exec: 'invalidate', maxDurationSec: 1, clearsCache: true },
+      ...burstFaults,
+      originLoadProbe('probe_burst', BURST_SEC, 'probe'),
+      burstPhase,
+      cooldownPhase,
+    ],
+);
+
+// phase별 메트릭 ({strategy}_{phase}_response_time 등) + 리포트용 초 단위 시계열
+const phaseMetrics: Record<string, PhaseMetrics> = {};
+timeline.phases.filter(p => p.kind === 'load').forEach(p => {
+  phaseMetrics[p.phase] = createPhaseMetrics(strategy, p.phase);
+});
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const slowPathSeries = createTimeSeries('ts_slow_path', 'counter', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+
+// baseline은 전략/모드(/무효화 범위) 조합별로 따로 저장 (BASELINE=<name> 비교 시 같은 조합끼리 비교)
+const BASELINE_SCENARIO = mode === 'invalidate' && invalidationSpec.scope !== 'hot-key'
+  ? `stampede-simulation.${strategy}.${mode}.${invalidationSpec.scope}`
+  : `stampede-simulation.${strategy}.${mode}`;
+const baseline = loadBaseline(BASELINE_SCENARIO);
+
+rejectUnknownEnv();
+
 export const options = {
-  scenarios: mode === 'ttl-expiry' ? ttlExpiryScenarios : invalidateScenarios,
+  scenarios: timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
+  // 전략 보장 기준 (stale burst 지연은 stale 값이 남아있는 ttl-expiry 모드에서만 의미 있음)
+  thresholds: guaranteeThresholds(strategy, {
+    burstMaxLoadsPerKey: 'stampede_burst_origin_loads_max_per_key',
+    staleBurstLatency: mode === 'ttl-expiry' ? 'stampede_response_time{phase:burst}' : undefined,
+    errors: 'stampede_errors',
+  }),
 };
 
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline, strategy };
+
 export function setup() {
   console.log('=== Stampede Simulation ===');
+  printConfig();
+  verifyTtlAgainstServer();
   console.log(`strategy=${strategy}`);
   console.log(`mode=${mode}`);
-  console.log(`hotKeyId=${envNumber('HOT_KEY_ID', 1)}, hotKeyRatio=${envNumber('HOT_KEY_RATIO', 0.95)}`);
   if (mode === 'ttl-expiry') {
     console.log(`TTL-expiry: softTTL=${SOFT_TTL_SEC}s, wait=${STALE_WAIT_SEC}s`);
   } else {
-    console.log(`invalidateAtSec=${INVALIDATE_AT_SEC}`);
+    console.log(`invalidateAtSec=${INVALIDATE_AT_SEC}, target=${describeInvalidation(invalidationSpec)}`);
   }
   console.log(`burstRps=${BURST_RPS}, burstSec=${BURST_SEC}`);
+  if (FAULTS_ENABLED) {
+    console.log(`faults during burst: ${describeFault(configuredFault())}`);
+    clearOriginFault();
+  }
+
+  // invalidate 모드 기본값은 키스페이스의 첫 번째 키(hot key / 최상위 순위)만 무효화
+  const keyspace = resolveKeyspace();
+  console.log(describeKeyspace(keyspace));
 
-  return { hotKeyId: envNumber('HOT_KEY_ID', 1) };
+  return { keyspace, originLoads: fetchOriginLoads() };
 }
 
-export function hit(data: { hotKeyId: number }) {
-  const productId = pickProductId();
-  const url = buildUrl(`/api/v1/products/${productId}/${endpointByStrategy[strategy]}`);
+export function teardown(data: { keyspace: Keyspace; originLoads: OriginLoadSnapshot }) {
+  recordOriginLoads(originLoads, originLoadDelta(data.originLoads, fetchOriginLoads(), strategy));
+  if (FAULTS_ENABLED) clearOriginFault();
+  cleanupCatalog(data.keyspace);
+}
+
+export function hit(data: { keyspace: Keyspace }) {
+  const productId = pickProductId(data.keyspace);
+  const url = productUrl(strategy, productId);
 
   const res = http.get(url, {
     headers: { 'Content-Type': 'application/json' },
@@ -190,9 +240,7 @@ export function hit(data: { hotKeyId: number }) {
     'status is 200': (r: any) => r.status === 200,
     'has strategy meta': (r: any) => {
       try {
-        const body = JSON.parse(r.body as string);
-        if (strategy === 'full') return body?.meta?.strategy === 'full-protection';
-        return body?.meta?.strategy === strategy;
+        return matchesStrategyMeta(strategy, JSON.parse(r.body as string));
       } catch {
         return false;
       }
@@ -200,30 +248,138 @@ export function hit(data: { hotKeyId: number }) {
   });
   errors.add(!ok);
 
-  // meta.responseTimeMs는 서버 내부에서 측정한 시간 (DB hit면 대략 >= 100ms)
-  try {
-    const body = JSON.parse(res.body as string);
-    if ((body?.meta?.responseTimeMs ?? 0) >= 90) {
-      slowPath.add(1);
-    }
-  } catch {
-    // ignore
-  }
+  const outcome = classifyResponse(res);
+  countOutcome(outcome, { slowPath });
+  if (isStaleServe(outcome)) staleServed.add(1);
+
+  recordPhaseSample(phaseMetrics[currentPhase(timeline).phase], res.timings.duration, ok, outcome);
+  const t = elapsedSec(timeline);
+  latencySeries.add(res.timings.duration, t);
+  if (isOriginLoad(outcome)) slowPathSeries.add(1, t);
+  if (!ok) errorSeries.add(1, t);
+}
+
+// burst 시작 시점에 서버 원본 장애를 burst 길이만큼 켬 (서버 time box로 자동 해제)
+export function faults() {
+  runFaultPhase(timeline);
+}
+
+// burst와 동시에 시작해 burst 구간(+ settle)의 서버 원본 로드 수를 기록
+export function probe() {
+  const { durationSec } = currentPhase(timeline);
+  recordOriginLoads(burstOriginLoads, measureOriginLoads(strategy, durationSec));
 }
 
-export function invalidate(data: { hotKeyId: number }) {
-  const url = buildUrl(`/api/v1/products/${data.hotKeyId}/cache`);
-  const res = http.del(url);
-  check(res, { 'invalidate status is 200': (r: any) => r.status === 200 });
+export function invalidate(data: { keyspace: Keyspace }) {
+  const result = invalidateCache(invalidationSpec, data.keyspace);
+  invalidatedKeys.add(result.deletedKeys);
+  console.log(`invalidated ${describeInvalidation(invalidationSpec)}: deletedKeys=${result.deletedKeys}`);
 }
 
-export function waitStale() {
-  sleep(STALE_WAIT_SEC);
+// invalidate 모드: 무효화 시점, ttl-expiry 모드: warmup 시작 기준 soft TTL 만료 시점
+function reportMarkers(): ReportMarker[] {
+  if (mode === 'ttl-expiry') {
+    const warmup = timeline.phases.find(p => p.name === 'warmup');
+    return [{ atSec: (warmup?.startSec ?? 0) + SOFT_TTL_SEC, label: 'soft TTL expiry' }];
+  }
+  const action = timeline.phases.find(p => p.name === 'invalidate');
+  return action ? [{ atSec: action.startSec, label: 'invalidate' }] : [];
+}
+
+// 실행 1회 요약 - sweep.js가 파라미터 조합별로 모아 전략 × 부하 matrix를 만든다
+function runSummary(data: any) {
+  const burstRt = data.metrics[phaseMetricName(strategy, 'burst', 'response_time')];
+  return {
+    strategy,
+    mode,
+    params: {
+      burstRps: BURST_RPS,
+      burstSec: BURST_SEC,
+      keyDistribution: workload.distribution || 'hot-key',
+      hotKeyRatio: workload.hotKeyRatio,
+      softTtlRatio: ttl.softTtlRatio,
+    },
+    burstOriginLoads: data.metrics['stampede_burst_origin_loads']?.values?.count ?? 0,
+    burstKeys: data.metrics['stampede_burst_origin_loads_keys']?.values?.value ?? 0,
+    burstMaxLoadsPerKey: data.metrics['stampede_burst_origin_loads_max_per_key']?.values?.value ?? 0,
+    burstP99Ms: burstRt?.values?.['p(99)'] ?? null,
+    errorRate: data.metrics['stampede_errors']?.values?.rate ?? 0,
+    failedThresholds: failedThresholds(data),
+    config: resolvedConfig(),
+  };
 }
 
 export function handleSummary(data: any) {
+  const rt = data.metrics['stampede_response_time'];
+  const burstLoads = data.metrics['stampede_burst_origin_loads'];
+  const burstMaxPerKey = data.metrics['stampede_burst_origin_loads_max_per_key'];
+  const burstKeys = data.metrics['stampede_burst_origin_loads_keys'];
+  const totalLoads = data.metrics['stampede_origin_loads'];
+
+  console.log(`\n=== Stampede Simulation (${strategy}, ${mode}) ===`);
+  if (rt && rt.values) {
+    console.log(`  Avg Response Time: ${rt.values.avg?.toFixed(2)}ms`);
+    console.log(`  P95 Response Time: ${rt.values['p(95)']?.toFixed(2)}ms`);
+  }
+  if (mode === 'invalidate') {
+    console.log(`  Invalidated: ${describeInvalidation(invalidationSpec)}, ${data.metrics['stampede_invalidated_keys']?.values?.count ?? 0} cache entries`);
+  }
+  console.log(`  Origin Loads (burst): ${burstLoads?.values?.count ?? 0} over ${burstKeys?.values?.value ?? 0} keys (max per key: ${burstMaxPerKey?.values?.value ?? 0})`);
+  console.log(`  Origin Loads (total): ${totalLoads?.values?.count ?? 0}\n`);
+  printThresholdResults(data);
+
+  // burst 구간 장애 주입 시: stale 반환 비율 / 에러 전파 / 복구 시간
+  const windows = faultWindows(timeline, strategy);
+  const faultTable = faultImpactTable(
+    data, windows, readTimeSeries(data, latencySeries), readTimeSeries(data, errorSeries), latencySeries.bucketSec,
+  );
+  faultTable.rows.forEach(cells => console.log(`  ${faultTable.header.map((h, i) => `${h}: ${cells[i]}`).join(', ')}`));
+
+  const rows = timeline.phases
+    .filter(p => p.kind === 'load')
+    .map(p => readRow(data, strategy, p.phase, {
+      ...phaseRowNames(strategy, p.phase),
+      serverOriginLoads: p.phase === 'burst' ? 'stampede_burst_origin_loads' : undefined,
+    }));
+  rows.push(readRow(data, strategy, 'all', {
+    responseTime: 'stampede_response_time',
+    requests: 'stampede_requests',
+    errors: 'stampede_errors',
+    originLoads: 'stampede_slow_path',
+    serverOriginLoads: 'stampede_origin_loads',
+    staleServed: 'stampede_stale_served',
+  }));
+
+  const report = {
+    title: `Stampede Simulation (${strategy}, ${mode})`,
+    notes: [
+      `burst: ${BURST_RPS} rps x ${BURST_SEC}s, warmup: ${WARMUP_RPS} rps x ${WARMUP_SEC}s`,
+      `key distribution: ${workload.distribution || 'hot-key'}`,
+      ...(mode === 'invalidate'
+        ? [`invalidate: ${describeInvalidation(invalidationSpec)}, ${data.metrics['stampede_invalidated_keys']?.values?.count ?? 0} cache entries deleted`]
+        : []),
+      `burst origin loads (server): ${burstLoads?.values?.count ?? 0} over ${burstKeys?.values?.value ?? 0} keys, max ${burstMaxPerKey?.values?.value ?? 0} per key`,
+    ],
+    rows: rows.filter(Boolean),
+    tables: faultTable.rows.length > 0 ? [faultTable] : undefined,
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: strategy, kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      { label: 'origin loads', kind: 'count' as const, points: readTimeSeries(data, slowPathSeries) },
+      { label: 'errors', kind: 'count' as const, points: readTimeSeries(data, errorSeries) },
+    ],
+    phases: timeline.phases,
+    markers: [...reportMarkers(), ...faultMarkers(windows)],
+  };
+
   return {
     'stdout': JSON.stringify(data, null, 2),
     'results/stampede-simulation-summary.json': JSON.stringify(data),
+    'results/stampede-simulation-run.json': JSON.stringify(runSummary(data)),
+    ...reportFiles('stampede-simulation', report),
+    ...seriesFiles('stampede-simulation', data, { latency: latencySeries, errors: errorSeries, originLoads: slowPathSeries },
+      timelineLabeler(timeline, strategy)),
+    ...baselineFiles(BASELINE_SCENARIO, data, baseline),
   };
 }
@@ -0,0 +1,442 @@
+import { check, sleep } from 'k6';
+import http from 'k6/http';
+import { Counter, Rate, Trend } from 'k6/metrics';
+import { baselineFiles, loadBaseline } from '../utils/baseline';
+import { buildUrl, defineConfig, printConfig, rejectUnknownEnv } from '../utils/config';
+import { DryRunPlan } from '../utils/dry-run';
+import { classifyResponse, isOriginLoad } from '../utils/outcome';
+import { createPhaseMetrics, phaseMetricName, PhaseMetrics, phaseRowNames, recordPhaseSample } from '../utils/phase-metrics';
+import { readRow, REPORT_TREND_STATS, ReportMarker, ReportRow, reportFiles, ReportTable } from '../utils/report';
+import { createServerScraper, runScrapeIteration, SCRAPE_ENABLED, scraperScenario } from '../utils/scraper';
+import { cleanupCatalog } from '../utils/seed';
+import { seriesFiles, timelineLabeler } from '../utils/series-export';
+import { CACHED_STRATEGIES, matchesStrategyMeta, parseStrategyName, productUrl, STRATEGIES, StrategyName } from '../utils/strategies';
+import { createTimeSeries, elapsedSec, readTimeSeries } from '../utils/timeseries';
+import { buildTimeline, currentPhase, Phase, ScheduledPhase } from '../utils/timeline';
+import { describeKeyspace, Keyspace, resolveKeyspace } from '../utils/workload';
+
+/**
+ * 쓰기 경로 테스트 - 핫키 burst 중 상품 수정과 캐시된 읽기의 경합
+ *
+ * 케이스마다 writer(1 VU)가 WRITE_INTERVAL_MS마다 description에 버전("race:{run}:{version}@{이전 버전 커밋 ms}")을 넣어
+ * 상품을 수정하고, reader는 같은 키를 READ_RPS로 읽으며 응답의 버전을 읽기 직전에 커밋돼 있던 버전(DB 직접 조회)과 비교한다.
+ * - invalidate : 수정 후 모든 전략의 캐시 무효화 (PUT /api/v1/admin/products/{id}?invalidate=true)
+ * - update-only: DB만 수정 → TTL이 끝날 때까지 이전 값
+ *
+ * 측정:
+ * - stale read / staleness : 읽기 전에 더 새 버전이 이미 커밋됐는지, 커밋(updatedAt)된 지 얼마나 지났는지
+ * - version regression     : 같은 VU가 이미 본 버전보다 오래된 버전을 다시 읽음
+ *                            (무효화 직후 느린 로드 / 백그라운드 갱신이 옛 값을 캐시에 덮어쓴 흔적)
+ */
+
+type WriteCase = 'invalidate' | 'update-only';
+
+const CASES: Record<WriteCase, { description: string; invalidate: boolean }> = {
+  'invalidate': { description: 'update, then invalidate every strategy', invalidate: true },
+  'update-only': { description: 'update the database only (cache keeps the old value until TTL)', invalidate: false },
+};
+
+function isWriteCase(value: string): value is WriteCase {
+  return Object.prototype.hasOwnProperty.call(CASES, value);
+}
+
+const env = defineConfig('write-race', {
+  WRITE_STRATEGIES: { type: 'string', default: CACHED_STRATEGIES.join(',') },
+  WRITE_CASES: { type: 'string', default: Object.keys(CASES).join(',') },
+  READ_RPS: { type: 'number', default: 200, min: 1 },
+  RACE_SEC: { type: 'number', default: 20, min: 1, integer: true },
+  WRITE_INTERVAL_MS: { type: 'number', default: 1000, min: 100, integer: true },
+  ARM_SEC: { type: 'number', default: 1, min: 1, integer: true },
+  // 케이스 사이 대기 - 진행 중인 로드 / 백그라운드 갱신이 다음 케이스에 섞이지 않게
+  SETTLE_SEC: { type: 'number', default: 3, min: 0, integer: true },
+  PRE_VUS: { type: 'number', default: 100, min: 1, integer: true },
+  MAX_VUS: { type: 'number', default: 800, min: 1, integer: true },
+});
+
+const strategies: StrategyName[] = env.WRITE_STRATEGIES
+  .split(',')
+  .map(s => parseStrategyName(s.trim()));
+const cases: WriteCase[] = env.WRITE_CASES
+  .split(',')
+  .map(c => c.trim())
+  .map(c => {
+    if (!isWriteCase(c)) {
+      throw new Error(`Unknown write case "${c}" (expected one of: ${Object.keys(CASES).join(', ')})`);
+    }
+    return c;
+  });
+
+const { READ_RPS, RACE_SEC, WRITE_INTERVAL_MS, ARM_SEC, SETTLE_SEC, PRE_VUS, MAX_VUS } = env;
+
+// 케이스 하나의 쓰기 횟수 (버전 1..WRITES, 버전 0은 arm에서 씀)
+const WRITES = Math.max(1, Math.floor((RACE_SEC * 1000 - 1) / WRITE_INTERVAL_MS));
+
+const phases: Phase[] = [];
+strategies.forEach(s => {
+  const prefix = STRATEGIES[s].metricPrefix;
+  cases.forEach(c => {
+    const tags = { strategy: s, case: c };
+    phases.push(
+      { kind: 'action', name: `arm_${c}_${prefix}`, phase: 'arm', exec: 'arm', tags, maxDurationSec: ARM_SEC + 5 },
+      { kind: 'wait', name: `armed_${c}_${prefix}`, durationSec: ARM_SEC },
+      { kind: 'action', name: `writer_${c}_${prefix}`, phase: 'writer', exec: 'writer', tags, spanSec: RACE_SEC },
+      {
+        kind: 'load',
+        name: `${c}_${prefix}`,
+        phase: c,
+        tags,
+        exec: 'read',
+        durationSec: RACE_SEC,
+        rps: READ_RPS,
+        preAllocatedVUs: PRE_VUS,
+        maxVUs: MAX_VUS,
+      },
+      { kind: 'wait', name: `settle_${c}_${prefix}`, durationSec: SETTLE_SEC },
+    );
+  });
+});
+const timeline = buildTimeline(phases);
+
+// (전략, 케이스)별 메트릭
+interface CaseMetrics {
+  phase: PhaseMetrics;
+  staleReads: Rate;
+  staleness: Trend;           // stale read가 본 버전 다음 버전이 커밋된 뒤 지난 시간
+  regressions: Counter;
+  writes: Counter;
+  writeTime: Trend;
+  writeErrors: Rate;
+}
+
+const caseMetrics: Record<string, CaseMetrics> = {};
+strategies.forEach(s => cases.forEach(c => {
+  caseMetrics[`${s}:${c}`] = {
+    phase: createPhaseMetrics(s, c),
+    staleReads: new Rate(phaseMetricName(s, c, 'stale_reads')),
+    staleness: new Trend(phaseMetricName(s, c, 'staleness'), true),
+    regressions: new Counter(phaseMetricName(s, c, 'version_regressions')),
+    writes: new Counter(phaseMetricName(s, c, 'writes')),
+    writeTime: new Trend(phaseMetricName(s, c, 'write_time'), true),
+    writeErrors: new Rate(phaseMetricName(s, c, 'write_errors')),
+  };
+}));
+
+const serverScraper = createServerScraper(timeline);
+
+const latencySeries = createTimeSeries('ts_response_time', 'trend', timeline.totalSec);
+const errorSeries = createTimeSeries('ts_errors', 'counter', timeline.totalSec);
+const originSeries = createTimeSeries('ts_origin_loads', 'counter', timeline.totalSec);
+const staleSeries = createTimeSeries('ts_stale_reads', 'counter', timeline.totalSec);
+const regressionSeries = createTimeSeries('ts_version_regressions', 'counter', timeline.totalSec);
+
+const baseline = loadBaseline('write-race'); // BASELINE 지정 시에만 로드 (open()은 init context 전용)
+
+rejectUnknownEnv();
+
+export const options = {
+  scenarios: SCRAPE_ENABLED
+    ? { ...timeline.scenarios, scrape_server_metrics: scraperScenario(timeline.totalSec) }
+    : timeline.scenarios,
+  summaryTrendStats: REPORT_TREND_STATS,
+};
+
+// ===== 버전 =====
+
+function runTag(strategy: StrategyName, c: WriteCase): string {
+  return `${STRATEGIES[strategy].metricPrefix}-${c}`;
+}
+
+interface RaceVersion {
+  version: number;
+  prevCommitMs?: number;      // 이전 버전의 커밋 시각 (writer가 직전 수정 응답의 updatedAt을 넣음)
+}
+
+function versionDescription(tag: string, version: number, prevCommitMs?: number): string {
+  return prevCommitMs === undefined ? `race:${tag}:${version}` : `race:${tag}:${version}@${prevCommitMs}`;
+}
+
+// 다른 케이스 / 시드 값이면 -1 (케이스 시작 전 데이터)
+function parseVersion(description: unknown, tag: string): RaceVersion {
+  if (typeof description !== 'string') return { version: -1 };
+  const prefix = `race:${tag}:`;
+  if (description.indexOf(prefix) !== 0) return { version: -1 };
+  const [v, prev] = description.slice(prefix.length).split('@').map(Number);
+  if (!Number.isInteger(v)) return { version: -1 };
+  return { version: v, prevCommitMs: Number.isFinite(prev) ? prev : undefined };
+}
+
+// Instant(ISO-8601, 나노초 자리까지) → epoch ms
+function instantMs(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const ms = Date.parse(value.replace(/(\.\d{3})\d+/, '$1'));
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function parseJson(body: unknown): any {
+  try {
+    return JSON.parse(body as string);
+  } catch {
+    return undefined;
+  }
+}
+
+function raceLoadPhase(strategy: StrategyName, c: string): ScheduledPhase {
+  return timeline.phases.find(p => p.kind === 'load' && p.phase === c && p.tags.strategy === strategy)!;
+}
+
+// 버전 v(1..WRITES)를 쓰는 시점 (load phase 시작 기준 초)
+function writeAtSec(version: number): number {
+  return (version * WRITE_INTERVAL_MS) / 1000;
+}
+
+function updateProduct(productId: number, description: string, invalidate: boolean) {
+  return http.put(
+    buildUrl(`/api/v1/admin/products/${productId}?invalidate=${invalidate}`),
+    JSON.stringify({ description }),
+    { headers: { 'Content-Type': 'application/json' }, tags: { name: 'admin_products_update' } },
+  );
+}
+
+// 캐시를 거치지 않은 현재 DB 값 - 읽기 전에 커밋돼 있던 최신 버전
+function currentProduct(productId: number) {
+  return http.get(buildUrl(`/api/v1/admin/products/${productId}`), { tags: { name: 'admin_products_current' } });
+}
+
+// ===== 실행 =====
+
+// dry run(yarn dry-run)이 options와 함께 읽는 스케줄
+export const plan: DryRunPlan = { timeline };
+
+export function setup() {
+  console.log('=== Write Race ===');
+  printConfig();
+  console.log(`strategies=${strategies.join(',')}, cases=${cases.join(',')}`);
+  console.log(`readRps=${READ_RPS}, race=${RACE_SEC}s, writes=${WRITES} every ${WRITE_INTERVAL_MS}ms, total=${timeline.totalSec}s`);
+
+  const keyspace = resolveKeyspace('hot-key');
+  console.log(`${describeKeyspace(keyspace)} (write key: ${keyspace.ids[0]})`);
+  return { keyspace };
+}
+
+export function teardown(data: { keyspace: Keyspace }) {
+  cleanupCatalog(data.keyspace);
+}
+
+// 케이스 시작: 버전 0을 쓰고 모든 전략의 캐시를 비운다
+export function arm(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const res = updateProduct(data.keyspace.ids[0], versionDescription(runTag(tags.strategy as StrategyName, tags.case as WriteCase), 0), true);
+  check(res, { 'arm update status is 200': (r: any) => r.status === 200 });
+}
+
+// writer: 케이스 load phase와 같은 시점에 시작해 일정대로 버전 1..WRITES를 쓴다
+// 각 버전에 직전 버전의 커밋 시각을 함께 넣어 그 버전을 건너뛴 reader도 커밋 시각을 알 수 있게 한다
+export function writer(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const c = tags.case as WriteCase;
+  const metrics = caseMetrics[`${strategy}:${c}`];
+  const startMs = Date.now();
+  let prevCommitMs: number | undefined;
+
+  for (let version = 1; version <= WRITES; version++) {
+    const waitMs = startMs + writeAtSec(version) * 1000 - Date.now();
+    if (waitMs > 0) sleep(waitMs / 1000);
+
+    const res = updateProduct(
+      data.keyspace.ids[0],
+      versionDescription(runTag(strategy, c), version, prevCommitMs),
+      CASES[c].invalidate,
+    );
+    const ok = check(res, { 'update status is 200': (r: any) => r.status === 200 });
+    metrics.writes.add(1);
+    metrics.writeTime.add(res.timings.duration);
+    metrics.writeErrors.add(!ok);
+    prevCommitMs = ok ? instantMs(parseJson(res.body)?.product?.updatedAt) : undefined;
+  }
+}
+
+// VU별로 본 최대 버전 ((전략, 케이스) 단위) - 버전 역행 판정용
+const maxSeen: Record<string, number> = {};
+
+// VU별로 알게 된 버전별 커밋 시각 (epoch ms, (전략, 케이스) 단위) - staleness 기준
+const commitMs: Record<string, Record<number, number>> = {};
+
+// 응답의 버전과 그 버전(updatedAt) / 직전 버전(description)의 커밋 시각을 기록
+function learnCommits(key: string, tag: string, body: any): number {
+  const { version, prevCommitMs } = parseVersion(body?.description, tag);
+  if (version < 0) return version;
+  const commits = commitMs[key] ?? (commitMs[key] = {});
+  const committedAt = instantMs(body.updatedAt);
+  if (committedAt !== undefined) commits[version] = committedAt;
+  if (prevCommitMs !== undefined) commits[version - 1] = prevCommitMs;
+  return version;
+}
+
+// 읽은 버전 다음 버전의 커밋 시각 - 이 VU가 모르면 알고 있는 더 새 버전 중 가장 이른 커밋 (staleness 하한)
+function supersededAtMs(key: string, seen: number, latest: number): number | undefined {
+  const commits = commitMs[key] ?? {};
+  for (let v = seen + 1; v <= latest; v++) {
+    if (commits[v] !== undefined) return commits[v];
+  }
+  return undefined;
+}
+
+export function read(data: { keyspace: Keyspace }) {
+  const { tags } = currentPhase(timeline);
+  const strategy = tags.strategy as StrategyName;
+  const c = tags.case as WriteCase;
+  const key = `${strategy}:${c}`;
+  const tag = runTag(strategy, c);
+  const metrics = caseMetrics[key];
+
+  // 읽기 요청 전에 이미 커밋돼 있던 최신 버전 (조회 실패 시 stale 판정 생략)
+  const current = currentProduct(data.keyspace.ids[0]);
+  const latest = current.status === 200 ? learnCommits(key, tag, parseJson(current.body)) : undefined;
+
+  const res = http.get(productUrl(strategy, data.keyspace.ids[0]), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { strategy, case: c },
+  });
+  const readAtMs = Date.now();
+
+  const body = parseJson(res.body);
+  const ok = check(res, {
+    'status is 200': (r: any) => r.status === 200,
+    'has strategy meta': () => body !== undefined && matchesStrategyMeta(strategy, body),
+  });
+
+  const at = elapsedSec(timeline);
+  const outcome = classifyResponse(res);
+  recordPhaseSample(metrics.phase, res.timings.duration, ok, outcome);
+  latencySeries.add(res.timings.duration, at);
+  if (isOriginLoad(outcome)) originSeries.add(1, at);
+  if (!ok) {
+    errorSeries.add(1, at);
+    return;
+  }
+
+  // 읽기 전에 이미 커밋된 더 새 버전이 있었으면 stale - 커밋 시각(updatedAt, 서버 시계)부터 응답까지
+  const seen = learnCommits(key, tag, body);
+  if (latest !== undefined && latest >= 0) {
+    const stale = seen < latest;
+    metrics.staleReads.add(stale);
+    if (stale) {
+      const supersededAt = supersededAtMs(key, seen, latest);
+      if (supersededAt !== undefined) metrics.staleness.add(Math.max(0, readAtMs - supersededAt));
+      staleSeries.add(1, at);
+    }
+  }
+
+  if (seen < (maxSeen[key] ?? -1)) {
+    metrics.regressions.add(1);
+    regressionSeries.add(1, at);
+  }
+  maxSeen[key] = Math.max(maxSeen[key] ?? -1, seen);
+}
+
+export function scrape() {
+  runScrapeIteration(serverScraper);
+}
+
+export default function () {
+  // Not used
+}
+
+// ===== 리포트 =====
+
+function count(data: any, name: string): number {
+  return data.metrics[name]?.values?.count ?? 0;
+}
+
+function fmtMs(v?: number): string {
+  return v === undefined ? '-' : v.toFixed(1);
+}
+
+const RACE_HEADER = [
+  'Strategy', 'Case', 'Reads', 'Writes (errors)', 'Write p95 (ms)', 'Stale reads',
+  'Staleness p50 / p95 / max (ms)', 'Version regressions', 'Read errors',
+];
+
+/**
+ * 케이스별 읽기-쓰기 경합 결과
+ * Staleness max가 쓰기 간격을 넘으면 무효화 이후에도 옛 값이 캐시에 남은 것 (update-only는 TTL까지 남는 것이 정상)
+ */
+function raceTable(data: any): ReportTable {
+  const rows: string[][] = [];
+  strategies.forEach(s => cases.forEach(c => {
+    const name = (suffix: string) => phaseMetricName(s, c, suffix);
+    const staleness = data.metrics[name('staleness')]?.values;
+    const staleRate = data.metrics[name('stale_reads')]?.values?.rate;
+    const writeErrors = data.metrics[name('write_errors')]?.values?.rate ?? 0;
+    const errorRate = data.metrics[name('errors')]?.values?.rate;
+
+    rows.push([
+      s,
+      c,
+      String(count(data, name('requests'))),
+      `${count(data, name('writes'))} (${(writeErrors * 100).toFixed(0)}%)`,
+      fmtMs(data.metrics[name('write_time')]?.values?.['p(95)']),
+      staleRate === undefined ? '-' : `${(staleRate * 100).toFixed(1)}%`,
+      staleness ? `${fmtMs(staleness.med)} / ${fmtMs(staleness['p(95)'])} / ${fmtMs(staleness.max)}` : '-',
+      String(count(data, name('version_regressions'))),
+      errorRate === undefined ? '-' : `${(errorRate * 100).toFixed(2)}%`,
+    ]);
+  }));
+  return { title: 'Write race', header: RACE_HEADER, rows };
+}
+
+function raceMarkers(): ReportMarker[] {
+  return strategies.flatMap(s => cases.map(c => ({
+    atSec: raceLoadPhase(s, c).startSec,
+    label: `${s} ${c}`,
+  })));
+}
+
+export function handleSummary(data: any) {
+  const table = raceTable(data);
+
+  console.log('\n=== Write Race ===\n');
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]} (${cells[1]})`);
+    table.header.slice(2).forEach((h, i) => console.log(`  ${h}: ${cells[i + 2]}`));
+    console.log('');
+  });
+
+  const rows: ReportRow[] = [];
+  strategies.forEach(s => cases.forEach(c => {
+    const row = readRow(data, s, c, phaseRowNames(s, c));
+    if (row) rows.push(row);
+  }));
+
+  const report = {
+    title: 'Write Race',
+    notes: [
+      `reads: ${READ_RPS} rps x ${RACE_SEC}s on a single key, writes: ${WRITES} every ${WRITE_INTERVAL_MS}ms`,
+      ...cases.map(c => `${c}: ${CASES[c].description}`),
+      'Stale read = a newer version had already committed (DB read just before the request) when the read was sent',
+      'Staleness = time from the commit (updatedAt) of the next version after the one read until the response arrived',
+      'Version regression = a VU read an older version than one it had already seen',
+    ],
+    rows,
+    tables: [table],
+    bucketSec: latencySeries.bucketSec,
+    totalSec: timeline.totalSec,
+    series: [
+      { label: 'all cases', kind: 'latency' as const, points: readTimeSeries(data, latencySeries) },
+      { label: 'stale reads', kind: 'count' as const, points: readTimeSeries(data, staleSeries) },
+      { label: 'version regressions', kind: 'count' as const, points: readTimeSeries(data, regressionSeries) },
+    ],
+    phases: timeline.phases,
+    markers: raceMarkers(),
+  };
+
+  return {
+    'stdout': JSON.stringify(data, null, 2),
+    'results/write-race-summary.json': JSON.stringify(data),
+    ...reportFiles('write-race', report),
+    ...seriesFiles('write-race', data, { latency: latencySeries, errors: errorSeries, originLoads: originSeries },
+      timelineLabeler(timeline)),
+    ...baselineFiles('write-race', data, baseline),
+  };
+}
@@ -2,3 +2,8 @@
 declare const __ENV: { [key: string]: string };
 declare const __VU: number;
 declare const __ITER: number;
+declare const console: {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+};
@@ -0,0 +1,176 @@
+import { defineConfig } from './config';
+
+/**
+ * Baseline 비교 모드
+ *
+ * - SAVE_BASELINE=<name> : 이번 실행 결과를 results/baselines/<name>.<scenario>.json 으로 저장
+ * - BASELINE=<name>      : 저장된 baseline과 비교해 메트릭별 변화량을 출력하고,
+ *                          BASELINE_TOLERANCE(기본 10%)를 넘게 나빠진 항목을 REGRESSION으로 표시
+ *
+ * 비교 대상은 메트릭 이름 규칙(suffix)으로 고른다. 전략별 전체 메트릭({strategy}_response_time)과
+ * phase/burst 전용 메트릭({strategy}_burst_response_time 등)이 같은 규칙으로 함께 비교된다.
+ * baseline 파일은 init context에서 open()으로 읽으므로 스크립트(dist/) 기준 상대 경로를 쓴다.
+ */
+
+const env = defineConfig('baseline', {
+  BASELINE: { type: 'string', default: '' },
+  SAVE_BASELINE: { type: 'string', default: '' },
+  BASELINE_TOLERANCE: { type: 'number', default: 0.1, min: 0 },
+});
+
+export const baselineConfig = {
+  compareTo: env.BASELINE,
+  saveAs: env.SAVE_BASELINE,
+  tolerance: env.BASELINE_TOLERANCE,
+};
+
+const BASELINE_NAME_PATTERN = /^[0-9A-Za-z_.-]+$/;
+
+export interface BaselineFile {
+  scenario: string;
+  name: string;
+  savedAt: string;
+  metrics: Record<string, Record<string, number>>; // metric → summary values
+}
+
+// 비교 규칙: 이름 suffix → 비교할 통계값 (모두 낮을수록 좋음)
+interface DiffRule {
+  suffix: string;
+  stats: string[];
+}
+
+const DIFF_RULES: DiffRule[] = [
+  { suffix: 'response_time', stats: ['avg', 'p(95)', 'p(99)'] },
+  { suffix: 'http_req_duration', stats: ['avg', 'p(95)', 'p(99)'] },
+  { suffix: 'errors', stats: ['rate'] },
+  { suffix: 'error_rate', stats: ['rate'] },
+  { suffix: 'slow_path', stats: ['count'] },
+  { suffix: 'cache_misses', stats: ['count'] },
+  { suffix: 'origin_loads', stats: ['count'] },
+  { suffix: 'origin_loads_max_per_key', stats: ['value'] },
+];
+
+// 시계열 bucket 메트릭(ts_*_t0000)은 비교/저장하지 않음
+function isSeriesBucket(metric: string): boolean {
+  return /_t\d{4}$/.test(metric);
+}
+
+function ruleFor(metric: string): DiffRule | undefined {
+  if (isSeriesBucket(metric)) return undefined;
+  // 가장 구체적인(긴) suffix 우선 (origin_loads_max_per_key vs origin_loads)
+  return DIFF_RULES
+    .filter(r => metric === r.suffix || metric.endsWith(`_${r.suffix}`))
+    .sort((a, b) => b.suffix.length - a.suffix.length)[0];
+}
+
+function baselinePath(name: string, scenario: string): string {
+  if (!BASELINE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid baseline name "${name}" (allowed: letters, digits, '_', '.', '-')`);
+  }
+  return `results/baselines/${name}.${scenario}.json`;
+}
+
+/**
+ * init context에서 호출 - BASELINE이 지정되지 않으면 undefined
+ */
+export function loadBaseline(scenario: string): BaselineFile | undefined {
+  if (!baselineConfig.compareTo) return undefined;
+
+  const path = baselinePath(baselineConfig.compareTo, scenario);
+  let raw: string;
+  try {
+    raw = open(`../${path}`);
+  } catch (e) {
+    throw new Error(`Baseline "${baselineConfig.compareTo}" not found for ${scenario} (${path}). Save one with SAVE_BASELINE=${baselineConfig.compareTo}`);
+  }
+  return JSON.parse(raw) as BaselineFile;
+}
+
+export interface MetricDelta {
+  metric: string;
+  stat: string;
+  baseline: number;
+  current: number;
+  change?: number;      // 상대 변화율 (baseline 0이면 undefined)
+  regression: boolean;
+}
+
+export function diffAgainstBaseline(data: any, baseline: BaselineFile, tolerance = baselineConfig.tolerance): MetricDelta[] {
+  const deltas: MetricDelta[] = [];
+  for (const metric of Object.keys(baseline.metrics).sort()) {
+    const rule = ruleFor(metric);
+    const current = data.metrics[metric]?.values;
+    if (!rule || !current) continue;
+
+    for (const stat of rule.stats) {
+      const base = baseline.metrics[metric][stat];
+      const now = current[stat];
+      if (base === undefined || now === undefined) continue;
+
+      const change = base !== 0 ? (now - base) / base : undefined;
+      deltas.push({
+        metric,
+        stat,
+        baseline: base,
+        current: now,
+        change,
+        regression: change !== undefined ? change > tolerance : now > 0,
+      });
+    }
+  }
+  return deltas;
+}
+
+function fmt(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(3);
+}
+
+export function printBaselineDiff(baseline: BaselineFile, deltas: MetricDelta[]): void {
+  console.log(`--- Baseline diff (vs "${baseline.name}", saved ${baseline.savedAt}, tolerance ${(baselineConfig.tolerance * 100).toFixed(0)}%) ---\n`);
+  for (const d of deltas) {
+    const change = d.change === undefined ? 'n/a' : `${d.change >= 0 ? '+' : ''}${(d.change * 100).toFixed(1)}%`;
+    const flag = d.regression ? '  << REGRESSION' : '';
+    console.log(`  ${d.metric} ${d.stat}: ${fmt(d.baseline)} -> ${fmt(d.current)} (${change})${flag}`);
+  }
+  const regressions = deltas.filter(d => d.regression).length;
+  console.log(`\n  ${deltas.length} compared, ${regressions} regression(s)\n`);
+}
+
+function snapshotMetrics(data: any): Record<string, Record<string, number>> {
+  const metrics: Record<string, Record<string, number>> = {};
+  for (const name of Object.keys(data.metrics)) {
+    if (ruleFor(name)) metrics[name] = data.metrics[name].values;
+  }
+  return metrics;
+}
+
+/**
+ * handleSummary에서 호출: baseline 비교 출력 + (설정 시) 저장 / diff 파일 반환
+ */
+export function baselineFiles(scenario: string, data: any, baseline?: BaselineFile): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  if (baseline) {
+    const deltas = diffAgainstBaseline(data, baseline);
+    printBaselineDiff(baseline, deltas);
+    files[`results/${scenario}-baseline-diff.json`] = JSON.stringify({
+      scenario,
+      baseline: baseline.name,
+      tolerance: baselineConfig.tolerance,
+      deltas,
+    }, null, 2);
+  }
+
+  if (baselineConfig.saveAs) {
+    const file: BaselineFile = {
+      scenario,
+      name: baselineConfig.saveAs,
+      savedAt: new Date().toISOString(),
+      metrics: snapshotMetrics(data),
+    };
+    files[baselinePath(baselineConfig.saveAs, scenario)] = JSON.stringify(file, null, 2);
+    console.log(`Baseline saved: ${baselinePath(baselineConfig.saveAs, scenario)}\n`);
+  }
+
+  return files;
+}
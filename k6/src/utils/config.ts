@@ -1,11 +1,273 @@
 // K6 글로벌 변수
 declare const __ENV: { [key: string]: string };
+declare const __VU: number;
+
+/**
+ * 스키마 기반 환경변수 설정 (모든 시나리오 / 유틸 공통)
+ *
+ * 모듈마다 defineConfig(scope, schema)로 읽는 환경변수를 선언한다. 값은
+ * 1) 환경변수 (형식 / 범위 / 선택지 검사 - 잘못되면 init 단계에서 바로 실패)
+ * 2) PROFILE이 scale을 선언한 필드의 기본값에 곱한 값
+ * 3) 스키마 기본값
+ * 순서로 정해지고 레지스트리에 남는다. 시나리오는 init 끝에서 rejectUnknownEnv()로 오타를 거르고
+ * setup()에서 printConfig()로 최종 설정을 출력한다.
+ *
+ * PROFILE - scale이 선언된 필드(time = phase 길이, rate = RPS, vus = VU 수)의 기본값만 바꾼다. 환경변수가 항상 우선.
+ * - smoke   : 몇 초짜리 phase + 낮은 RPS (CI용)
+ * - standard: 스키마 기본값 그대로 (기본값)
+ * - soak    : phase 길이 x6, RPS는 그대로 (장시간 유지)
+ * TTL에서 파생되는 대기(만료 시점까지 대기 등)는 서버 TTL을 따르므로 profile과 무관하다.
+ */
+
+export type ScaleKind = 'time' | 'rate' | 'vus';
+
+export interface NumberField {
+  type: 'number';
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  scale?: ScaleKind;
+}
+
+export interface NumberListField {
+  type: 'numbers'; // csv (예: 1,2,3)
+  default: number[];
+}
+
+export interface StringField {
+  type: 'string';
+  default: string;
+  choices?: readonly string[];
+}
+
+export interface BooleanField {
+  type: 'boolean';
+  default: boolean;
+}
+
+export type ConfigField = NumberField | NumberListField | StringField | BooleanField;
+export type ConfigSchema = Record<string, ConfigField>;
+
+export type ConfigValues<S extends ConfigSchema> = {
+  readonly [K in keyof S]: S[K] extends NumberField ? number
+    : S[K] extends NumberListField ? number[]
+    : S[K] extends BooleanField ? boolean
+    : string;
+};
+
+export type ConfigSource = 'env' | 'profile' | 'default';
+
+interface ResolvedField {
+  scope: string;
+  field: ConfigField;
+  value: unknown;
+  source: ConfigSource;
+}
+
+const registry: Record<string, ResolvedField> = {};
+
+const PROFILES: Record<string, Record<ScaleKind, number>> = {
+  smoke: { time: 0.2, rate: 0.05, vus: 0.05 },
+  standard: { time: 1, rate: 1, vus: 1 },
+  soak: { time: 6, rate: 1, vus: 1 },
+};
+
+function rawEnv(name: string): string | undefined {
+  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
+  return v === undefined || v === '' ? undefined : v;
+}
+
+// profile 배율 적용 - 0은 "끔"이므로 그대로, 나머지는 정수로 반올림하되 최소 1
+function scaled(field: NumberField): number {
+  if (!field.scale || field.default === 0) return field.default;
+  const v = field.default * profile[field.scale];
+  return Math.max(1, field.scale === 'vus' ? Math.ceil(v) : Math.round(v));
+}
+
+function parseValue(name: string, field: ConfigField, raw: string): { value?: unknown; problem?: string } {
+  switch (field.type) {
+    case 'number': {
+      const n = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(n)) return { problem: `${name}="${raw}" is not a number` };
+      if (field.integer && !Number.isInteger(n)) return { problem: `${name}=${raw} must be an integer` };
+      if (field.min !== undefined && n < field.min) return { problem: `${name}=${raw} must be >= ${field.min}` };
+      if (field.max !== undefined && n > field.max) return { problem: `${name}=${raw} must be <= ${field.max}` };
+      return { value: n };
+    }
+    case 'numbers': {
+      const items = raw.split(',').map(s => s.trim()).filter(Boolean);
+      const bad = items.filter(s => !Number.isFinite(Number(s)));
+      if (bad.length > 0) return { problem: `${name}="${raw}" has non-numeric items: ${bad.join(', ')}` };
+      return { value: items.map(Number) };
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') return { problem: `${name}="${raw}" must be true or false` };
+      return { value: raw === 'true' };
+    case 'string':
+      if (field.choices && !field.choices.includes(raw)) {
+        return { problem: `${name}="${raw}" must be one of: ${field.choices.join(', ')}` };
+      }
+      return { value: raw };
+  }
+}
+
+/**
+ * 모듈의 환경변수 선언 + 해석. 형식이 잘못된 값이 하나라도 있으면 모두 모아 예외
+ * (같은 이름을 여러 모듈이 선언하면 먼저 선언한 쪽의 값을 공유)
+ */
+export function defineConfig<S extends ConfigSchema>(scope: string, schema: S): ConfigValues<S> {
+  const values: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  for (const [name, field] of Object.entries(schema)) {
+    const existing = registry[name];
+    if (existing) {
+      values[name] = existing.value;
+      continue;
+    }
+    const raw = rawEnv(name);
+    let resolved: ResolvedField;
+    if (raw !== undefined) {
+      const { value, problem } = parseValue(name, field, raw);
+      if (problem) {
+        problems.push(problem);
+        continue;
+      }
+      resolved = { scope, field, value, source: 'env' };
+    } else if (field.type === 'number' && scaled(field) !== field.default) {
+      resolved = { scope, field, value: scaled(field), source: 'profile' };
+    } else {
+      resolved = { scope, field, value: field.default, source: 'default' };
+    }
+    registry[name] = resolved;
+    values[name] = resolved.value;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration (${scope}):\n  ${problems.join('\n  ')}`);
+  }
+  return values as ConfigValues<S>;
+}
+
+export function configSource(name: string): ConfigSource | undefined {
+  return registry[name]?.source;
+}
+
+// 오타로 보는 기준: 선언된 이름과 편집 거리가 가깝거나,
+// 선언된 이름과 첫 단어가 같으면서 이 레포의 단위 접미사를 가진 이름 (예: BURST_DURATION_SEC)
+const UNIT_SUFFIXES = ['_SEC', '_MS', '_RPS', '_VUS', '_RATIO', '_STRATEGIES'];
+const IGNORED_PREFIXES = ['K6_'];
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+function firstWord(name: string): string {
+  return name.split('_')[0];
+}
+
+function closestKnown(name: string): string | undefined {
+  const limit = name.length < 8 ? 1 : 2;
+  return Object.keys(registry)
+    .map(known => ({ known, d: editDistance(name, known) }))
+    .filter(c => c.d <= limit)
+    .sort((a, b) => a.d - b.d)[0]?.known;
+}
+
+/**
+ * 이 시나리오가 읽지 않는 환경변수 중 오타로 보이는 것을 거부 (모든 defineConfig 이후, init 끝에서 호출)
+ * __ENV에는 시스템 환경변수도 섞여 있으므로 모든 미선언 이름이 아니라 위 기준에 걸리는 이름만 본다.
+ * ALLOW_UNKNOWN_ENV=true면 경고만 출력
+ */
+export function rejectUnknownEnv(): void {
+  if (typeof __ENV === 'undefined') return;
+  const knownFirstWords = new Set(Object.keys(registry).map(firstWord));
+  const problems = Object.keys(__ENV)
+    .filter(name => /^[A-Z][A-Z0-9_]*$/.test(name) && !registry[name])
+    .filter(name => !IGNORED_PREFIXES.some(p => name.startsWith(p)))
+    .map(name => {
+      const suggestion = closestKnown(name);
+      if (suggestion) return `${name} is not used by this scenario (did you mean ${suggestion}?)`;
+      if (UNIT_SUFFIXES.some(s => name.endsWith(s)) && knownFirstWords.has(firstWord(name))) {
+        return `${name} is not used by this scenario`;
+      }
+      return undefined;
+    })
+    .filter((p): p is string => p !== undefined);
+
+  if (problems.length === 0) return;
+  if (common.ALLOW_UNKNOWN_ENV) {
+    problems.forEach(p => console.warn(`[config] ${p}`));
+    return;
+  }
+  throw new Error(`Unknown environment variables (ALLOW_UNKNOWN_ENV=true to ignore):\n  ${problems.join('\n  ')}`);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(',');
+  return value === '' ? '""' : String(value);
+}
+
+// setup()에서 최종 설정 출력 (scope별, 기본값이 아닌 값은 출처 표시)
+export function printConfig(): void {
+  console.log(`--- Resolved config (PROFILE=${profile.name}) ---`);
+  const scopes: Record<string, string[]> = {};
+  for (const [name, r] of Object.entries(registry)) {
+    const origin = r.source === 'default' ? '' : ` (${r.source === 'profile' ? `profile ${profile.name}` : 'env'})`;
+    (scopes[r.scope] = scopes[r.scope] ?? []).push(`${name}=${formatValue(r.value)}${origin}`);
+  }
+  for (const [scope, lines] of Object.entries(scopes)) {
+    console.log(`  [${scope}] ${lines.join(', ')}`);
+  }
+  console.log('');
+}
+
+// 리포트 / 요약 파일에 남길 최종 설정
+export function resolvedConfig(): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [name, r] of Object.entries(registry)) out[name] = r.value;
+  return out;
+}
+
+const common = defineConfig('common', {
+  PROFILE: { type: 'string', default: 'standard', choices: Object.keys(PROFILES) },
+  BASE_URL: { type: 'string', default: 'http://localhost:8080' },
+  BASE_URLS: { type: 'string', default: '' }, // csv - 지정하면 BASE_URL 대신 여러 앱 인스턴스
+  BASE_URL_BALANCE: { type: 'string', default: 'round-robin', choices: ['round-robin', 'random'] },
+  ALLOW_UNKNOWN_ENV: { type: 'boolean', default: false },
+});
+
+export const profile = { name: common.PROFILE, ...PROFILES[common.PROFILE] };
+
+function parseBaseUrls(raw: string): string[] {
+  const urls = raw.split(',').map(s => s.trim().replace(/\/+$/, '')).filter(Boolean);
+  const bad = urls.filter(u => !/^https?:\/\/[^/]+/.test(u));
+  if (bad.length > 0) throw new Error(`Invalid configuration (common):\n  BASE_URLS has invalid URLs: ${bad.join(', ')}`);
+  const dup = urls.filter((u, i) => urls.indexOf(u) !== i);
+  if (dup.length > 0) throw new Error(`Invalid configuration (common):\n  BASE_URLS has duplicate URLs: ${dup.join(', ')}`);
+  return urls;
+}
+
+const baseUrls = common.BASE_URLS ? parseBaseUrls(common.BASE_URLS) : [common.BASE_URL.replace(/\/+$/, '')];
 
 export const config = {
-  baseUrl: (typeof __ENV !== 'undefined' && __ENV.BASE_URL) || 'http://localhost:8080',
+  baseUrl: baseUrls[0],
+  // 앱 인스턴스 목록 (BASE_URLS, 없으면 [BASE_URL]) - 상품 요청은 balance 방식으로 분산, admin 요청은 baseUrl(첫 번째)로
+  baseUrls,
+  balance: common.BASE_URL_BALANCE as 'round-robin' | 'random',
 
-  // 테스트 상품 ID (Hot Key 시뮬레이션용)
-  productIds: [1, 2, 3],
+  // 테스트 상품 ID / 키 분포는 workload.ts (resolveKeyspace, pickProductId)
 
   // 기본 테스트 설정
   defaultOptions: {
@@ -37,11 +299,46 @@ export const config = {
   },
 };
 
-export function getRandomProductId(): number {
-  const index = Math.floor(Math.random() * config.productIds.length);
-  return config.productIds[index];
-}
-
 export function buildUrl(endpoint: string): string {
   return `${config.baseUrl}${endpoint}`;
 }
+
+// 특정 인스턴스의 URL (인스턴스별 상태를 가진 admin API - 원본 로드 집계, 진행 중인 갱신 drain)
+export function buildInstanceUrl(instance: number, endpoint: string): string {
+  return `${config.baseUrls[instance]}${endpoint}`;
+}
+
+// round-robin 다음 인스턴스 (VU마다 따로 - 시작 위치를 VU 번호로 어긋나게 해 첫 요청이 한 인스턴스로 몰리지 않게)
+let nextInstance = -1;
+
+// 상품 요청을 보낼 인스턴스 번호 (BASE_URLS 순서) - VU 컨텍스트에서 호출
+export function pickInstance(): number {
+  const n = config.baseUrls.length;
+  if (n === 1) return 0;
+  if (config.balance === 'random') return Math.floor(Math.random() * n);
+  if (nextInstance < 0) nextInstance = (typeof __VU !== 'undefined' ? __VU : 0) % n;
+  const instance = nextInstance;
+  nextInstance = (nextInstance + 1) % n;
+  return instance;
+}
+
+export function buildBalancedUrl(endpoint: string): string {
+  return buildInstanceUrl(pickInstance(), endpoint);
+}
+
+// k6 duration 문자열('30s', '1m', '1m30s')을 초로 변환
+export function durationToSec(duration: string): number {
+  let total = 0;
+  const re = /(\d+(?:\.\d+)?)(ms|s|m|h)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(duration)) !== null) {
+    const n = Number(m[1]);
+    total += m[2] === 'h' ? n * 3600 : m[2] === 'm' ? n * 60 : m[2] === 's' ? n : n / 1000;
+  }
+  return total;
+}
+
+// ramping stage 전체 길이(초)
+export function stagesDurationSec(stages: { duration: string }[]): number {
+  return stages.reduce((sum, s) => sum + durationToSec(s.duration), 0);
+}
@@ -0,0 +1,350 @@
+import { durationToSec, profile, stagesDurationSec } from './config';
+import { StrategyName } from './strategies';
+import { ttl, TtlBoundaries, ttlBoundaries } from './ttl';
+import { ScheduledPhase, Timeline } from './timeline';
+
+/**
+ * Dry run - 서버 없이 시나리오 스케줄 검증 + ASCII 타임라인 (dry-run.js가 시나리오 init 코드만 실행한 뒤 호출)
+ *
+ * 시나리오가 export한 options와 (timeline 시나리오는) plan을 받아 검사한다.
+ * - ttl-window  : ttlWindow를 선언한 load phase가 hot key의 해당 TTL 구간에서 시작하는지
+ * - exec-overlap: 같은 exec 함수를 실행하는 scenario끼리 시간이 겹치는지
+ * - vu-budget   : arrival-rate scenario의 VU가 rate × 예상 지연보다 적은지 (maxVUs 부족 = error, preAllocatedVUs 부족 = warn)
+ *
+ * hot key 시뮬레이션은 load phase 동안 hot key에 요청이 끊기지 않는다고 가정한다. (hot-key 분포)
+ * 만료되면 다음 요청이 다시 적재하고, soft TTL 전략은 soft 만료 후 첫 요청이 갱신한다.
+ * jitter 때문에 쓰기 / 만료 시각은 [earliest, latest] 범위로 다루며, 모든 jitter 값에서 구간을 벗어나면 error, 일부만이면 warn.
+ */
+
+export interface DryRunPlan {
+  timeline: Timeline;
+  strategy?: StrategyName; // strategy 태그가 없는 phase의 전략 (단일 전략 시나리오)
+}
+
+export interface DryRunIssue {
+  level: 'error' | 'warn';
+  check: 'ttl-window' | 'exec-overlap' | 'vu-budget';
+  phase: string;
+  message: string;
+}
+
+interface Span {
+  from: number;
+  to: number;
+}
+
+type KeyEventKind = 'write' | 'soft' | 'hard' | 'clear';
+
+interface KeyEvent extends Span {
+  kind: KeyEventKind;
+}
+
+interface KeyTrace {
+  strategy: StrategyName;
+  bounds: TtlBoundaries;
+  events: KeyEvent[];
+  writeBefore: Record<string, Span | null>; // load phase 시작 직전의 마지막 쓰기 시각 범위 (null = 캐시 없음)
+}
+
+const MAX_RENEWALS = 1000;
+const CHART_WIDTH = 72;
+const LABEL_WIDTH = 26;
+
+function fmt(sec: number): string {
+  return `${Math.round(sec * 10) / 10}`;
+}
+
+function fmtSpan(from: number, to: number): string {
+  return Math.abs(to - from) < 0.05 ? `${fmt(from)}s` : `${fmt(from)}–${fmt(to)}s`;
+}
+
+function phaseStrategy(plan: DryRunPlan, p: ScheduledPhase): StrategyName | undefined {
+  return (p.tags.strategy as StrategyName | undefined) ?? plan.strategy;
+}
+
+// 전략 하나의 hot key 캐시 상태를 phase 순서대로 따라감
+function traceHotKey(plan: DryRunPlan, strategy: StrategyName, bounds: TtlBoundaries): KeyTrace {
+  const events: KeyEvent[] = [];
+  const writeBefore: Record<string, Span | null> = {};
+  const renewFrom = bounds.softEarliest ?? bounds.hardEarliest;
+  const renewTo = bounds.softLatest ?? bounds.hardLatest;
+  let write: Span | null = null;
+  let since = 0; // 현재 쓰기의 만료 범위를 기록하기 시작할 시각
+
+  // 현재 쓰기의 만료 범위를 until 전까지만 기록 (그 뒤는 다음 쓰기 / 삭제가 대체)
+  const record = (until: number) => {
+    if (!write) return;
+    const ranges: [KeyEventKind, number, number][] = [['hard', write.from + bounds.hardEarliest, write.to + bounds.hardLatest]];
+    if (bounds.softEarliest !== undefined && bounds.softLatest !== undefined) {
+      ranges.push(['soft', write.from + bounds.softEarliest, write.to + bounds.softLatest]);
+    }
+    ranges.forEach(([kind, from, to]) => {
+      const a = Math.max(from, since);
+      const b = Math.min(to, until);
+      if (a < until && a <= b) events.push({ kind, from: a, to: b });
+    });
+  };
+  const setWrite = (next: Span, at: number) => {
+    record(at);
+    write = next;
+    since = at;
+    events.push({ kind: 'write', from: at, to: next.to });
+  };
+
+  plan.timeline.phases.forEach(p => {
+    if (p.kind === 'action' && p.clearsCache && (phaseStrategy(plan, p) ?? strategy) === strategy) {
+      record(p.startSec);
+      write = null;
+      events.push({ kind: 'clear', from: p.startSec, to: p.startSec });
+      return;
+    }
+    if (p.kind !== 'load' || phaseStrategy(plan, p) !== strategy) return;
+
+    writeBefore[p.name] = write;
+    const start = p.startSec;
+    const end = p.startSec + p.durationSec;
+    const current = write as Span | null;
+
+    // 캐시가 없거나 hard 만료 이후면 첫 요청이 적재 (일부 jitter에서만 만료됐으면 쓰기 시각 범위를 넓힘)
+    if (!current || start >= current.to + bounds.hardLatest) {
+      setWrite({ from: start, to: start }, start);
+    } else if (start >= current.from + bounds.hardEarliest) {
+      setWrite({ from: current.from, to: start }, start);
+    }
+
+    // 요청이 이어지는 동안 갱신 (soft 만료 후 첫 요청 / soft TTL이 없으면 hard 만료 후 첫 요청)
+    for (let i = 0; i < MAX_RENEWALS && renewFrom > 0; i++) {
+      const w = write as Span | null;
+      if (!w) break;
+      const from = Math.max(start, w.from + renewFrom);
+      const to = Math.max(start, w.to + renewTo);
+      if (from >= end) break;
+      if (to < end) {
+        setWrite({ from, to }, from);
+        continue;
+      }
+      // phase가 끝나기 전에 갱신됐을 수도, 아닐 수도 있음
+      setWrite({ from: w.from, to: end }, from);
+      break;
+    }
+  });
+  record(plan.timeline.totalSec);
+
+  return { strategy, bounds, events, writeBefore };
+}
+
+function traces(plan: DryRunPlan): KeyTrace[] {
+  const strategies: StrategyName[] = [];
+  plan.timeline.phases
+    .filter(p => p.kind === 'load')
+    .forEach(p => {
+      const s = phaseStrategy(plan, p);
+      if (s && strategies.indexOf(s) < 0) strategies.push(s);
+    });
+  return strategies
+    .map(s => ({ s, bounds: ttlBoundaries(s) }))
+    .filter((x): x is { s: StrategyName; bounds: TtlBoundaries } => x.bounds !== undefined)
+    .map(({ s, bounds }) => traceHotKey(plan, s, bounds));
+}
+
+function checkTtlWindow(p: ScheduledPhase, trace: KeyTrace): DryRunIssue | undefined {
+  const { bounds, strategy } = trace;
+  const write = trace.writeBefore[p.name];
+  const start = p.startSec;
+  const issue = (level: DryRunIssue['level'], message: string): DryRunIssue => ({
+    level, check: 'ttl-window', phase: p.name, message: `${p.name} starts at ${fmt(start)}s but hot key [${strategy}] ${message}`,
+  });
+
+  if (p.ttlWindow === 'expired') {
+    if (!write) return undefined;
+    const hard = fmtSpan(write.from + bounds.hardEarliest, write.to + bounds.hardLatest);
+    if (start < write.from + bounds.hardEarliest) return issue('error', `is still cached (hard expiry at ${hard})`);
+    if (start < write.to + bounds.hardLatest) return issue('warn', `may still be cached for some jitter values (hard expiry at ${hard})`);
+    return undefined;
+  }
+
+  if (bounds.softEarliest === undefined || bounds.softLatest === undefined) {
+    return issue('error', 'has no soft TTL, so it is never served stale');
+  }
+  if (!write) return issue('error', 'is not cached (nothing to serve stale)');
+  const soft = fmtSpan(write.from + bounds.softEarliest, write.to + bounds.softLatest);
+  const hard = fmtSpan(write.from + bounds.hardEarliest, write.to + bounds.hardLatest);
+  if (start < write.from + bounds.softEarliest) return issue('error', `is still fresh (soft expiry at ${soft})`);
+  if (start >= write.to + bounds.hardLatest) return issue('error', `is already hard-expired (hard expiry at ${hard})`);
+  if (start < write.to + bounds.softLatest) return issue('warn', `may still be fresh for some jitter values (soft expiry at ${soft})`);
+  if (start >= write.from + bounds.hardEarliest) {
+    return issue('warn', `may already be hard-expired for some jitter values (hard expiry at ${hard})`);
+  }
+  return undefined;
+}
+
+interface Row {
+  name: string;
+  kind: ScheduledPhase['kind'] | 'scenario';
+  exec?: string;
+  startSec: number;
+  durationSec: number;
+  detail: string;
+}
+
+function scenarioDurationSec(s: any): number {
+  if (s.stages) return stagesDurationSec(s.stages);
+  return durationToSec(s.duration ?? s.maxDuration ?? '0s');
+}
+
+function describeScenario(s: any): string {
+  if (s.executor === 'constant-arrival-rate') return `${s.rate} rps, VUs ${s.preAllocatedVUs}/${s.maxVUs}`;
+  if (s.executor === 'ramping-arrival-rate') {
+    return `≤ ${Math.max(...s.stages.map((st: { target: number }) => st.target))} rps, VUs ${s.preAllocatedVUs}/${s.maxVUs}`;
+  }
+  if (s.stages) return `≤ ${Math.max(...s.stages.map((st: { target: number }) => st.target))} VUs`;
+  return `${s.vus ?? 1} VU`;
+}
+
+// 차트 행 - timeline 시나리오는 phase(wait 포함), 나머지(scraper, ramping 등)는 options.scenarios
+function rows(options: any, plan?: DryRunPlan): Row[] {
+  const scenarios: Record<string, any> = options.scenarios ?? {};
+  const fromPlan: Row[] = (plan?.timeline.phases ?? []).map(p => {
+    const s = scenarios[p.name];
+    const detail = p.kind === 'load' ? describeScenario(s)
+      : p.kind === 'wait' ? `${fmt(p.durationSec)}s`
+      : p.kind === 'faults' ? `fault ${fmt(p.durationSec)}s`
+      : p.clearsCache ? `${p.exec} (clears cache)` : `${p.exec}`;
+    return { name: p.name, kind: p.kind, exec: p.exec, startSec: p.startSec, durationSec: p.durationSec, detail };
+  });
+  const planned = new Set(fromPlan.map(r => r.name));
+  const others: Row[] = Object.entries(scenarios)
+    .filter(([name]) => !planned.has(name))
+    .map(([name, s]) => ({
+      name,
+      kind: 'scenario',
+      exec: s.exec ?? 'default',
+      startSec: durationToSec(s.startTime ?? '0s'),
+      durationSec: scenarioDurationSec(s),
+      detail: describeScenario(s),
+    }));
+  return [...fromPlan, ...others];
+}
+
+function checkExecOverlap(all: Row[]): DryRunIssue[] {
+  const running = all.filter(r => r.exec && r.durationSec > 0);
+  const issues: DryRunIssue[] = [];
+  running.forEach((a, i) => {
+    running.slice(i + 1)
+      .filter(b => b.exec === a.exec && a.startSec < b.startSec + b.durationSec && b.startSec < a.startSec + a.durationSec)
+      .forEach(b => {
+        const from = Math.max(a.startSec, b.startSec);
+        const to = Math.min(a.startSec + a.durationSec, b.startSec + b.durationSec);
+        issues.push({
+          level: 'error',
+          check: 'exec-overlap',
+          phase: b.name,
+          message: `${a.name} and ${b.name} both run exec "${a.exec}" during ${fmtSpan(from, to)}`,
+        });
+      });
+  });
+  return issues;
+}
+
+function checkVuBudget(options: any, latencyMs: number): DryRunIssue[] {
+  const issues: DryRunIssue[] = [];
+  Object.entries(options.scenarios ?? {}).forEach(([name, s]: [string, any]) => {
+    let rate: number;
+    if (s.executor === 'constant-arrival-rate') rate = s.rate;
+    else if (s.executor === 'ramping-arrival-rate') rate = Math.max(...s.stages.map((st: { target: number }) => st.target));
+    else return;
+    const perSec = rate / (durationToSec(s.timeUnit ?? '1s') || 1);
+    const needed = Math.ceil(perSec * latencyMs / 1000);
+    const budget = `${fmt(perSec)} rps × ${latencyMs}ms needs ${needed} VUs`;
+    if (s.maxVUs < needed) {
+      issues.push({ level: 'error', check: 'vu-budget', phase: name, message: `${name}: maxVUs=${s.maxVUs} but ${budget} (iterations will be dropped)` });
+    } else if (s.preAllocatedVUs < needed) {
+      issues.push({ level: 'warn', check: 'vu-budget', phase: name, message: `${name}: preAllocatedVUs=${s.preAllocatedVUs} but ${budget} (VUs allocated mid-run)` });
+    }
+  });
+  return issues;
+}
+
+export function analyzePlan(options: any, plan: DryRunPlan | undefined, latencyMs: number): DryRunIssue[] {
+  const issues: DryRunIssue[] = [];
+  if (plan) {
+    const byStrategy: Record<string, KeyTrace> = {};
+    traces(plan).forEach(t => { byStrategy[t.strategy] = t; });
+    plan.timeline.phases
+      .filter(p => p.kind === 'load' && p.ttlWindow)
+      .forEach(p => {
+        const strategy = phaseStrategy(plan, p);
+        const trace = strategy ? byStrategy[strategy] : undefined;
+        const issue = trace
+          ? checkTtlWindow(p, trace)
+          : { level: 'error' as const, check: 'ttl-window' as const, phase: p.name, message: `${p.name} expects a TTL window but its strategy has no TTL` };
+        if (issue) issues.push(issue);
+      });
+  }
+  return [...issues, ...checkExecOverlap(rows(options, plan)), ...checkVuBudget(options, latencyMs)];
+}
+
+function bar(cells: string[], from: number, to: number, secPerCol: number, ch: string): void {
+  const a = Math.min(cells.length - 1, Math.max(0, Math.floor(from / secPerCol)));
+  const b = to > from ? Math.min(cells.length - 1, Math.max(a, Math.ceil(to / secPerCol) - 1)) : a;
+  for (let i = a; i <= b; i++) cells[i] = ch;
+}
+
+function label(name: string): string {
+  return name.length > LABEL_WIDTH ? `${name.slice(0, LABEL_WIDTH - 1)}~` : name.padEnd(LABEL_WIDTH);
+}
+
+const ROW_CHARS: Record<Row['kind'], string> = { load: '#', wait: '.', action: '|', faults: '~', scenario: '=' };
+const KEY_CHARS: Record<KeyEventKind, string> = { soft: 's', hard: 'H', write: 'W', clear: 'x' };
+const KEY_ORDER: KeyEventKind[] = ['soft', 'hard', 'write', 'clear']; // 뒤쪽이 위에 그려짐
+
+export function renderPlan(scenario: string, options: any, plan: DryRunPlan | undefined, issues: DryRunIssue[], latencyMs: number): string {
+  const all = rows(options, plan);
+  const totalSec = Math.max(1, plan?.timeline.totalSec ?? 0, ...all.map(r => r.startSec + r.durationSec));
+  const cols = Math.min(CHART_WIDTH, Math.ceil(totalSec));
+  const secPerCol = totalSec / cols;
+  const flagged = new Set(issues.map(i => i.phase));
+
+  const axis = Array.from({ length: cols }, () => ' ');
+  for (let c = 0; c < cols; c += 10) {
+    const tick = `${Math.round(c * secPerCol)}s`;
+    if (c + tick.length <= cols) tick.split('').forEach((ch, i) => { axis[c + i] = ch; });
+  }
+
+  const lines = [
+    `=== Dry run: ${scenario} (PROFILE=${profile.name}) ===`,
+    `TTL model: base=${ttl.baseTtlSec}s, jitter=0..${ttl.jitterMaxSec}s, soft ratio=${ttl.softTtlRatio}`
+      + ` | VU budget latency=${latencyMs}ms | total ${fmt(totalSec)}s, ${fmt(secPerCol)}s per column`,
+    '',
+    `${label('')}  ${axis.join('')}`,
+  ];
+  all.forEach(r => {
+    const cells = Array.from({ length: cols }, () => ' ');
+    bar(cells, r.startSec, r.startSec + r.durationSec, secPerCol, ROW_CHARS[r.kind]);
+    lines.push(`${label(r.name)}${flagged.has(r.name) ? '! ' : '  '}${cells.join('')}  ${fmt(r.startSec)}s ${r.detail}`);
+  });
+
+  if (plan) {
+    const keyTraces = traces(plan);
+    if (keyTraces.length > 0) lines.push('');
+    keyTraces.forEach(t => {
+      const cells = Array.from({ length: cols }, () => ' ');
+      KEY_ORDER.forEach(kind => t.events
+        .filter(e => e.kind === kind)
+        .forEach(e => bar(cells, e.from, e.to, secPerCol, KEY_CHARS[kind])));
+      lines.push(`${label(`hot key [${t.strategy}]`)}  ${cells.join('')}`);
+    });
+  }
+
+  lines.push(
+    '',
+    'legend: # load  . wait  | action  ~ faults  = other scenario | hot key: W write  s soft expiry  H hard expiry  x cleared',
+    '',
+  );
+  if (issues.length === 0) {
+    lines.push('No problems found.');
+  } else {
+    issues.forEach(i => lines.push(`${i.level === 'error' ? 'ERROR' : 'WARN '} [${i.check}] ${i.message}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,244 @@
+import http from 'k6/http';
+import { buildUrl, defineConfig } from './config';
+import { phaseMetricName } from './phase-metrics';
+import { ReportMarker, ReportTable } from './report';
+import { STRATEGIES, StrategyName } from './strategies';
+import { SeriesPoint } from './timeseries';
+import { currentPhase, FaultPhase, Tags, Timeline } from './timeline';
+
+/**
+ * 서버 장애 주입 훅 (/api/v1/admin/faults) - VU 컨텍스트(setup / action phase)에서만 호출
+ *
+ * - origin      : ProductService.findById에 추가 지연 / 확률적 로드 실패 주입 (OriginFaultInjector)
+ *                 상품 ID 범위와 time box(durationSeconds)를 지정할 수 있다
+ * - orphan-locks: 해제되지 않는 갱신 락을 심어 "락을 잡은 채 죽은 보유자" 재현
+ * - cache       : 캐시 계층(Redis) 장애 - 켜져 있는 동안 캐시 조회 / 저장 / 분산 락 명령이 모두 연결 실패 (CacheOutageSwitch)
+ *
+ * 주입한 장애는 서버 전역 상태이므로 시나리오 teardown에서 반드시 clearOriginFault() / restoreCache()로 되돌린다.
+ * 타임라인의 faults phase는 time box를 걸어 켜므로 k6가 중간에 멈춰도 서버에서 자동 해제된다.
+ */
+
+export interface OriginFault {
+  delayMs?: number;         // 기본 조회 지연(100ms)에 더하는 지연
+  errorRate?: number;       // 원본 로드 실패 확률 0.0 ~ 1.0 (실패 시 HTTP 500)
+  productIds?: number[];    // 장애 대상 상품 ID (생략 = 전체)
+  durationSeconds?: number; // 자동 해제까지 시간 (생략 = 해제할 때까지)
+}
+
+// burst 구간 장애 설정 (FAULT_DELAY_MS / FAULT_ERROR_RATE 중 하나라도 지정하면 활성화)
+const env = defineConfig('faults', {
+  FAULT_DELAY_MS: { type: 'number', default: 0, min: 0 },
+  FAULT_ERROR_RATE: { type: 'number', default: 0, min: 0, max: 1 },
+  FAULT_PRODUCT_IDS: { type: 'numbers', default: [] },
+  RECOVERY_LATENCY_MS: { type: 'number', default: 200, min: 0 },
+});
+
+export const faultConfig = {
+  delayMs: env.FAULT_DELAY_MS,
+  errorRate: env.FAULT_ERROR_RATE,
+  productIds: env.FAULT_PRODUCT_IDS,
+  // 장애 해제 후 이 지연(p95) 이하 + 에러 0인 첫 bucket을 "복구"로 본다
+  recoveryLatencyMs: env.RECOVERY_LATENCY_MS,
+};
+
+export const FAULTS_ENABLED = faultConfig.delayMs > 0 || faultConfig.errorRate > 0;
+
+export function configuredFault(): OriginFault {
+  return {
+    delayMs: faultConfig.delayMs,
+    errorRate: faultConfig.errorRate,
+    productIds: faultConfig.productIds.length > 0 ? faultConfig.productIds : undefined,
+  };
+}
+
+export function describeFault(fault: OriginFault): string {
+  const parts: string[] = [];
+  if (fault.delayMs) parts.push(`+${fault.delayMs}ms`);
+  if (fault.errorRate) parts.push(`${(fault.errorRate * 100).toFixed(0)}% errors`);
+  parts.push(fault.productIds?.length ? `ids=${fault.productIds.join(',')}` : 'all ids');
+  return parts.join(', ');
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+export function setOriginFault(fault: OriginFault): void {
+  const res = http.put(buildUrl('/api/v1/admin/faults/origin'), JSON.stringify(fault), {
+    headers: JSON_HEADERS,
+    tags: { name: 'admin_faults_origin' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to set origin fault: status=${res.status}`);
+  }
+}
+
+export function clearOriginFault(): void {
+  const res = http.del(buildUrl('/api/v1/admin/faults/origin'), null, {
+    tags: { name: 'admin_faults_origin' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to clear origin fault: status=${res.status}`);
+  }
+}
+
+export interface CacheOutage {
+  timeoutMs?: number;       // 실패 전 대기 (0 = 즉시 연결 거부, 양수 = 연결 타임아웃 재현)
+  durationSeconds?: number; // 자동 복구까지 시간 (생략 = restoreCache까지). 자동 복구는 캐시를 비우지 않는다
+}
+
+export function setCacheOutage(outage: CacheOutage): void {
+  const res = http.put(buildUrl('/api/v1/admin/faults/cache'), JSON.stringify(outage), {
+    headers: JSON_HEADERS,
+    tags: { name: 'admin_faults_cache' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to start cache outage: status=${res.status}`);
+  }
+}
+
+/**
+ * 캐시 계층 복구
+ *
+ * @param flush true면 캐시 / 락 키를 비운 채 복구 (재시작된 빈 Redis - 콜드 캐시)
+ * @return 서버가 지운 키 수
+ */
+export function restoreCache(flush: boolean): number {
+  const res = http.del(buildUrl(`/api/v1/admin/faults/cache?flush=${flush}`), null, {
+    tags: { name: 'admin_faults_cache' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to restore cache: status=${res.status}`);
+  }
+  return (JSON.parse(res.body as string).flushedKeys ?? 0) as number;
+}
+
+/**
+ * 갱신 락을 ttlSec 동안 점유한 채 방치 (jitter-lock / full만 해당)
+ *
+ * @return 실제로 락을 심은 상품 ID (이미 락이 있던 키는 제외)
+ */
+export function plantOrphanLocks(strategy: StrategyName, ids: number[], ttlSec: number): number[] {
+  const meta = STRATEGIES[strategy].metaStrategy;
+  const url = buildUrl(`/api/v1/admin/faults/orphan-locks?strategy=${meta}&ids=${ids.join(',')}&ttlSeconds=${ttlSec}`);
+  const res = http.post(url, null, { tags: { name: 'admin_faults_orphan_locks' } });
+  if (res.status !== 200) {
+    throw new Error(`Failed to plant orphan locks for ${strategy}: status=${res.status}`);
+  }
+  return (JSON.parse(res.body as string).productIds ?? []) as number[];
+}
+
+// ===== faults phase =====
+
+/**
+ * 대상 load phase와 같은 시점에 장애를 켜는 faults phase (타임라인에서 대상 phase 바로 앞에 둔다)
+ * tags.target에 대상 load phase의 phase 값을 남겨 리포트에서 구간을 찾는다.
+ */
+export function faultPhase(name: string, target: string, durationSec: number, fault: OriginFault, tags?: Tags): FaultPhase {
+  return {
+    kind: 'faults',
+    name,
+    phase: 'faults',
+    tags: { ...(tags ?? {}), target },
+    durationSec,
+    fault,
+  };
+}
+
+// faults phase의 exec 함수 본문 - 서버 time box로 durationSec 뒤 자동 해제
+export function runFaultPhase(timeline: Timeline): void {
+  const { fault, durationSec } = currentPhase(timeline);
+  setOriginFault({ ...(fault ?? {}), durationSeconds: Math.max(1, Math.ceil(durationSec)) });
+}
+
+// ===== 장애 영향 리포트 =====
+
+export interface FaultWindow {
+  strategy: StrategyName;
+  target: string;      // 장애 구간과 겹치는 load phase
+  fault: OriginFault;
+  startSec: number;
+  endSec: number;
+  recoverBySec: number; // 복구 판정을 이어갈 마지막 시점 (같은 전략의 마지막 load phase 끝)
+}
+
+export function faultWindows(timeline: Timeline, defaultStrategy?: StrategyName): FaultWindow[] {
+  return timeline.phases
+    .filter(p => p.kind === 'faults')
+    .map(p => {
+      const strategy = (p.tags.strategy as StrategyName | undefined) ?? defaultStrategy!;
+      const sameStrategy = timeline.phases.filter(l => l.kind === 'load' && (l.tags.strategy ?? defaultStrategy) === strategy);
+      const recoverBySec = Math.max(p.startSec + p.durationSec, ...sameStrategy.map(l => l.startSec + l.durationSec));
+      return {
+        strategy,
+        target: p.tags.target,
+        fault: p.fault ?? {},
+        startSec: p.startSec,
+        endSec: p.startSec + p.durationSec,
+        recoverBySec,
+      };
+    });
+}
+
+/**
+ * 장애 해제 후 복구까지 걸린 시간(초) - 요청이 있고, 에러가 없고, p95가 recoveryLatencyMs 이하인 첫 bucket 시작 기준
+ * recoverBySec까지 복구되지 않으면 undefined
+ */
+export function recoverySec(
+  window: FaultWindow,
+  latency: SeriesPoint[],
+  errors: SeriesPoint[],
+  bucketSec: number,
+  latencyLimitMs: number = faultConfig.recoveryLatencyMs,
+): number | undefined {
+  for (let i = Math.ceil(window.endSec / bucketSec); i * bucketSec < window.recoverBySec && i < latency.length; i++) {
+    const point = latency[i];
+    if (point.count === 0) continue;
+    if ((errors[i]?.count ?? 0) === 0 && (point.p95 ?? Infinity) <= latencyLimitMs) {
+      return i * bucketSec - window.endSec;
+    }
+  }
+  return undefined;
+}
+
+export function faultMarkers(windows: FaultWindow[]): ReportMarker[] {
+  return windows.flatMap(w => [
+    { atSec: w.startSec, label: `${w.strategy} fault on` },
+    { atSec: w.endSec, label: `${w.strategy} fault off` },
+  ]);
+}
+
+const FAULT_IMPACT_HEADER = [
+  'Strategy', 'Phase', 'Fault', 'Requests', 'Error rate', 'Stale served', 'Origin errors (server)', 'Recovery (s)',
+];
+
+/**
+ * 장애 구간(= 대상 load phase)별 영향: 클라이언트 에러율(에러 전파), stale 반환 비율, 서버가 실제로 주입한 실패 수, 복구 시간
+ * 서버 주입 실패 수는 scraper의 {strategy}_{phase}_server_injected_errors (없으면 '-')
+ */
+export function faultImpactTable(
+  data: any,
+  windows: FaultWindow[],
+  latency: SeriesPoint[],
+  errors: SeriesPoint[],
+  bucketSec: number,
+): ReportTable {
+  const rows = windows.map(w => {
+    const values = (suffix: string) => data.metrics[phaseMetricName(w.strategy, w.target, suffix)]?.values;
+    const requests = values('requests')?.count ?? 0;
+    const errorRate = values('errors')?.rate;
+    const stale = values('stale_served')?.count ?? 0;
+    const injected = values('server_injected_errors');
+    const recovery = recoverySec(w, latency, errors, bucketSec);
+
+    return [
+      w.strategy,
+      w.target,
+      describeFault(w.fault),
+      String(requests),
+      errorRate === undefined ? '-' : `${(errorRate * 100).toFixed(2)}%`,
+      requests > 0 ? `${((stale / requests) * 100).toFixed(1)}%` : '-',
+      injected ? String(injected.count) : '-',
+      recovery === undefined ? 'not recovered' : recovery.toFixed(0),
+    ];
+  });
+  return { title: 'Fault impact', header: FAULT_IMPACT_HEADER, rows };
+}
@@ -0,0 +1,117 @@
+import http from 'k6/http';
+import { buildUrl, defineConfig } from './config';
+import { parseStrategyName, STRATEGIES, StrategyName } from './strategies';
+import { Keyspace } from './workload';
+
+/**
+ * 대상 지정 캐시 무효화 (POST /api/v1/admin/cache/invalidate) - VU 컨텍스트(setup / action phase)에서만 호출
+ *
+ * INVALIDATE_TARGET:
+ * - hot-key        : 키스페이스 첫 번째 키 (기본값, 단일 hot key 만료)
+ * - top:N          : 키스페이스 상위 N개 키 (순위 = 키스페이스 순서)
+ * - keyspace       : 키스페이스 전체 키
+ * - ids:1,2,3      : 지정한 상품 ID
+ * - category:Books : 카테고리의 모든 상품
+ * - all            : 전략 네임스페이스 전체 ("배포가 캐시를 날린" 대량 만료)
+ *
+ * INVALIDATE_STRATEGIES: all(기본) | 전략 csv (예: jitter-swr,full) - 측정 중인 전략만 지우면 다른 전략 캐시는 그대로 남는다
+ */
+
+export type InvalidationScope = 'hot-key' | 'top' | 'keyspace' | 'ids' | 'category' | 'all';
+
+export interface InvalidationSpec {
+  scope: InvalidationScope;
+  top?: number;
+  ids?: number[];
+  category?: string;
+  strategies?: StrategyName[]; // 생략 = 모든 전략
+}
+
+export interface InvalidationResult {
+  target: string;
+  strategies: string[];
+  productIds?: number; // 대상 상품 수 (all은 없음)
+  deletedKeys: number; // 실제로 캐시에 있던 항목 수
+}
+
+export function parseInvalidationSpec(target: string, strategies: string = 'all'): InvalidationSpec {
+  const sep = target.indexOf(':');
+  const scope = (sep < 0 ? target : target.slice(0, sep)).trim();
+  const arg = sep < 0 ? undefined : target.slice(sep + 1).trim();
+  const spec: InvalidationSpec = (() => {
+    switch (scope) {
+      case 'hot-key':
+      case 'keyspace':
+      case 'all':
+        return { scope };
+      case 'top': {
+        const top = Number(arg);
+        if (!Number.isInteger(top) || top <= 0) throw new Error(`Invalid INVALIDATE_TARGET "${target}" (expected top:<positive integer>)`);
+        return { scope, top };
+      }
+      case 'ids': {
+        const ids = (arg ?? '').split(',').map(s => Number(s.trim())).filter(n => Number.isFinite(n) && n > 0);
+        if (ids.length === 0) throw new Error(`Invalid INVALIDATE_TARGET "${target}" (expected ids:<id>,<id>...)`);
+        return { scope, ids };
+      }
+      case 'category':
+        if (!arg) throw new Error(`Invalid INVALIDATE_TARGET "${target}" (expected category:<name>)`);
+        return { scope, category: arg };
+      default:
+        throw new Error(`Unknown INVALIDATE_TARGET "${target}" (expected hot-key, top:N, keyspace, ids:..., category:... or all)`);
+    }
+  })();
+
+  if (strategies !== 'all') {
+    spec.strategies = strategies.split(',').map(s => parseStrategyName(s.trim()));
+  }
+  return spec;
+}
+
+const env = defineConfig('invalidation', {
+  INVALIDATE_TARGET: { type: 'string', default: 'hot-key' },
+  INVALIDATE_STRATEGIES: { type: 'string', default: 'all' },
+});
+
+export const invalidationSpec: InvalidationSpec = parseInvalidationSpec(env.INVALIDATE_TARGET, env.INVALIDATE_STRATEGIES);
+
+export function describeInvalidation(spec: InvalidationSpec): string {
+  const target = (() => {
+    switch (spec.scope) {
+      case 'top': return `top ${spec.top} keys`;
+      case 'ids': return `ids ${spec.ids!.join(',')}`;
+      case 'category': return `category ${spec.category}`;
+      case 'all': return 'whole namespace';
+      default: return spec.scope;
+    }
+  })();
+  return `${target} (${spec.strategies ? spec.strategies.join(',') : 'all strategies'})`;
+}
+
+// 키스페이스 기준 대상은 상품 ID 목록으로 풀어서 보낸다
+function requestBody(spec: InvalidationSpec, keyspace: Keyspace): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  switch (spec.scope) {
+    case 'hot-key': body.ids = keyspace.ids.slice(0, 1); break;
+    case 'top': body.ids = keyspace.ids.slice(0, spec.top); break;
+    case 'keyspace': body.ids = keyspace.ids; break;
+    case 'ids': body.ids = spec.ids; break;
+    case 'category': body.category = spec.category; break;
+    case 'all': body.all = true; break;
+  }
+  if (spec.strategies) {
+    body.strategies = spec.strategies.map(s => STRATEGIES[s].metaStrategy);
+  }
+  return body;
+}
+
+export function invalidateCache(spec: InvalidationSpec, keyspace: Keyspace): InvalidationResult {
+  const res = http.post(buildUrl('/api/v1/admin/cache/invalidate'), JSON.stringify(requestBody(spec, keyspace)), {
+    headers: { 'Content-Type': 'application/json' },
+    tags: { name: 'admin_cache_invalidate' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to invalidate cache (${describeInvalidation(spec)}): status=${res.status} ${res.body}`);
+  }
+  return JSON.parse(res.body as string) as InvalidationResult;
+}
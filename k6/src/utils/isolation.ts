@@ -0,0 +1,128 @@
+import http from 'k6/http';
+import { buildInstanceUrl, buildUrl, config, defineConfig } from './config';
+
+/**
+ * 전략 간 서버 상태 격리 (/api/v1/admin/cache/reset, /state) - VU 컨텍스트(setup / action phase)에서만 호출
+ *
+ * 한 실행에서 전략을 차례로 돌리면 앞 전략의 백그라운드 갱신 / 락 / 캐시 항목이 다음 전략 구간에 섞이고,
+ * 늘 같은 순서로 돌리면 그 영향이 특정 전략에만 쌓인다.
+ * - resetServerState: 진행 중인 갱신을 기다린 뒤(drain) 모든 전략의 캐시 / 락 삭제
+ *                     (갱신은 인스턴스마다 따로 돌므로 BASE_URLS의 모든 인스턴스에 차례로 요청)
+ * - verifyReset     : drain 완료 + 초기화 직후 상태가 비어 있는지 검사 (문제 목록, 빈 배열 = 통과)
+ * - strategyOrder   : STRATEGY_ORDER=random이면 ORDER_SEED로 섞은 순서
+ *
+ * k6는 VU마다 init 코드를 따로 실행하므로 순서는 반드시 seed로만 정한다. (VU마다 다른 타임라인 방지)
+ */
+
+export interface StrategyCacheState {
+  keys: number;
+  inFlightRefreshes: number;
+}
+
+export interface CacheState {
+  strategies: Record<string, StrategyCacheState>; // 서버 strategyName(meta.strategy) 기준
+  locks: number;
+  clean: boolean;
+}
+
+export interface CacheResetResult {
+  drained: boolean; // drainTimeoutMs 안에 진행 중인 갱신이 모두 끝났는지
+  waitedMs: number;
+  deletedKeys: number;
+  deletedLocks: number;
+  state: CacheState; // 초기화 직후 상태
+}
+
+const env = defineConfig('isolation', {
+  STRATEGY_RESET: { type: 'boolean', default: true },
+  RESET_DRAIN_MS: { type: 'number', default: 5000, min: 0, integer: true },
+  STRATEGY_ORDER: { type: 'string', default: 'fixed', choices: ['fixed', 'random'] },
+  ORDER_SEED: { type: 'number', default: 1, integer: true },
+});
+
+export const isolationConfig = {
+  enabled: env.STRATEGY_RESET,
+  drainTimeoutMs: env.RESET_DRAIN_MS,
+  order: env.STRATEGY_ORDER as 'fixed' | 'random',
+  seed: env.ORDER_SEED,
+};
+
+// reset action이 끝날 때까지 타임라인에 비워 둘 시간 (인스턴스마다 drain 최대 대기 + 삭제 여유)
+export function resetWindowSec(): number {
+  return config.baseUrls.length * (Math.ceil(isolationConfig.drainTimeoutMs / 1000) + 1);
+}
+
+export function fetchCacheState(): CacheState {
+  const res = http.get(buildUrl('/api/v1/admin/cache/state'), { tags: { name: 'admin_cache_state' } });
+  if (res.status !== 200) {
+    throw new Error(`Failed to fetch cache state: status=${res.status}`);
+  }
+  return JSON.parse(res.body as string) as CacheState;
+}
+
+function resetInstance(instance: number, drainTimeoutMs: number): CacheResetResult {
+  const url = buildInstanceUrl(instance, `/api/v1/admin/cache/reset?drainTimeoutMs=${drainTimeoutMs}`);
+  const res = http.post(url, null, { tags: { name: 'admin_cache_reset' } });
+  if (res.status !== 200) {
+    throw new Error(`Failed to reset cache state (${config.baseUrls[instance]}): status=${res.status} ${res.body}`);
+  }
+  return JSON.parse(res.body as string) as CacheResetResult;
+}
+
+// 인스턴스별 결과 합치기 - 캐시 / 락은 공유 Redis라 마지막 초기화 직후 값, 진행 중인 갱신은 인스턴스 합
+function mergeResetResults(results: CacheResetResult[]): CacheResetResult {
+  const last = results[results.length - 1];
+  const strategies: Record<string, StrategyCacheState> = {};
+  Object.entries(last.state.strategies).forEach(([strategy, s]) => {
+    strategies[strategy] = {
+      keys: s.keys,
+      inFlightRefreshes: results.reduce((sum, r) => sum + (r.state.strategies[strategy]?.inFlightRefreshes ?? 0), 0),
+    };
+  });
+  return {
+    drained: results.every(r => r.drained),
+    waitedMs: results.reduce((sum, r) => sum + r.waitedMs, 0),
+    deletedKeys: results.reduce((sum, r) => sum + r.deletedKeys, 0),
+    deletedLocks: results.reduce((sum, r) => sum + r.deletedLocks, 0),
+    state: { strategies, locks: last.state.locks, clean: results.every(r => r.state.clean) },
+  };
+}
+
+export function resetServerState(drainTimeoutMs: number = isolationConfig.drainTimeoutMs): CacheResetResult {
+  return mergeResetResults(config.baseUrls.map((_, i) => resetInstance(i, drainTimeoutMs)));
+}
+
+export function verifyReset(result: CacheResetResult): string[] {
+  const problems: string[] = [];
+  if (!result.drained) problems.push(`refreshes still in flight after ${result.waitedMs}ms`);
+  Object.entries(result.state.strategies).forEach(([strategy, s]) => {
+    if (s.keys > 0) problems.push(`${strategy}: ${s.keys} cache keys left`);
+    if (s.inFlightRefreshes > 0) problems.push(`${strategy}: ${s.inFlightRefreshes} refreshes in flight`);
+  });
+  if (result.state.locks > 0) problems.push(`${result.state.locks} locks left`);
+  return problems;
+}
+
+// mulberry32 - seed가 같으면 모든 VU에서 같은 수열
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// STRATEGY_ORDER=random이면 Fisher-Yates로 섞은 복사본, 아니면 그대로
+export function strategyOrder<T>(items: T[]): T[] {
+  if (isolationConfig.order === 'fixed') return items;
+  const random = seededRandom(isolationConfig.seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
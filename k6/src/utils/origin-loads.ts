@@ -0,0 +1,228 @@
+import { sleep } from 'k6';
+import http from 'k6/http';
+import { Counter, Gauge } from 'k6/metrics';
+import { buildInstanceUrl, config, defineConfig } from './config';
+import { STRATEGIES, StrategyName } from './strategies';
+import { ActionPhase, Tags } from './timeline';
+
+/**
+ * 서버 측 원본(DB) 로드 카운터 (GET /api/v1/admin/stats/origin-loads)
+ *
+ * 응답 시간/X-Cache-Outcome 기반 클라이언트 집계와 달리 백그라운드 갱신까지 포함한
+ * 실제 ProductService.findById 실행 횟수. 서버 카운터는 누적값이므로 항상 두 스냅샷의 차이로 쓴다.
+ *
+ * - 전체 실행: setup()에서 스냅샷 → teardown()에서 차이를 메트릭으로 기록
+ * - burst 단위: burst와 같은 시점에 시작하는 probe action이 burst 구간 전후 스냅샷 차이를 기록
+ *
+ * 카운터는 인스턴스마다 따로 있으므로 BASE_URLS로 여러 인스턴스를 치면 인스턴스별로 조회한다.
+ * fetchOriginLoads는 합산값, cluster* 함수는 같은 키를 여러 인스턴스가 중복 로드했는지까지 본다.
+ */
+
+// burst 종료 후 백그라운드 갱신이 끝날 때까지 추가로 기다리는 시간
+export const PROBE_SETTLE_SEC = defineConfig('origin-loads', {
+  PROBE_SETTLE_SEC: { type: 'number', default: 2, min: 0 },
+}).PROBE_SETTLE_SEC;
+
+// 서버 응답 (strategies 키 = meta.strategy 값, byKey 키 = 상품 ID)
+export interface StrategyOriginLoads {
+  total: number;
+  byKey: Record<string, number>;
+}
+
+export interface OriginLoadSnapshot {
+  total: number;
+  strategies: Record<string, StrategyOriginLoads>;
+}
+
+export interface OriginLoadDelta {
+  total: number;      // 구간 내 원본 로드 수
+  keys: number;       // 원본 로드가 발생한 키 수
+  maxPerKey: number;  // 키 하나당 최대 원본 로드 수 (스탬피드 방지 = 1에 가까움)
+}
+
+// 여러 인스턴스에 걸친 구간 원본 로드 (키당 로드 수는 인스턴스 합산 기준)
+export interface ClusterOriginLoadDelta extends OriginLoadDelta {
+  duplicateLoads: number;     // 키당 첫 로드를 뺀 나머지 합 (= total - keys, 0이면 키마다 클러스터 전체에서 한 번만 로드)
+  crossInstanceKeys: number;  // 둘 이상의 인스턴스가 로드한 키 수 (인스턴스 내부 중복 제거로는 막을 수 없는 중복)
+  maxInstancesPerKey: number; // 키 하나를 로드한 최대 인스턴스 수
+  byInstance: number[];       // 인스턴스별 원본 로드 수 (BASE_URLS 순서)
+}
+
+export function fetchInstanceOriginLoads(instance: number): OriginLoadSnapshot {
+  const res = http.get(buildInstanceUrl(instance, '/api/v1/admin/stats/origin-loads'), {
+    tags: { name: 'admin_origin_loads' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to fetch origin loads from ${config.baseUrls[instance]}: status=${res.status}`);
+  }
+  return JSON.parse(res.body as string) as OriginLoadSnapshot;
+}
+
+// 인스턴스별 스냅샷 (BASE_URLS 순서)
+export function fetchClusterOriginLoads(): OriginLoadSnapshot[] {
+  return config.baseUrls.map((_, i) => fetchInstanceOriginLoads(i));
+}
+
+// 모든 인스턴스 합산 스냅샷 (인스턴스가 하나면 그 인스턴스 값 그대로)
+export function fetchOriginLoads(): OriginLoadSnapshot {
+  return mergeOriginLoads(fetchClusterOriginLoads());
+}
+
+export function mergeOriginLoads(snapshots: OriginLoadSnapshot[]): OriginLoadSnapshot {
+  const merged: OriginLoadSnapshot = { total: 0, strategies: {} };
+  snapshots.forEach(snapshot => {
+    merged.total += snapshot.total;
+    Object.entries(snapshot.strategies).forEach(([meta, loads]) => {
+      const target = merged.strategies[meta] = merged.strategies[meta] ?? { total: 0, byKey: {} };
+      target.total += loads.total;
+      Object.entries(loads.byKey).forEach(([key, n]) => {
+        target.byKey[key] = (target.byKey[key] ?? 0) + n;
+      });
+    });
+  });
+  return merged;
+}
+
+// 키별 구간 원본 로드 수 (0 이하는 제외)
+function keyDeltas(before: OriginLoadSnapshot, after: OriginLoadSnapshot, strategy: StrategyName): Record<string, number> {
+  const meta = STRATEGIES[strategy].metaStrategy;
+  const prev = before.strategies[meta]?.byKey ?? {};
+  const curr = after.strategies[meta]?.byKey ?? {};
+
+  const deltas: Record<string, number> = {};
+  for (const key of Object.keys(curr)) {
+    const n = curr[key] - (prev[key] ?? 0);
+    if (n > 0) deltas[key] = n;
+  }
+  return deltas;
+}
+
+export function originLoadDelta(
+  before: OriginLoadSnapshot,
+  after: OriginLoadSnapshot,
+  strategy: StrategyName,
+): OriginLoadDelta {
+  const delta: OriginLoadDelta = { total: 0, keys: 0, maxPerKey: 0 };
+  Object.values(keyDeltas(before, after, strategy)).forEach(n => {
+    delta.total += n;
+    delta.keys += 1;
+    delta.maxPerKey = Math.max(delta.maxPerKey, n);
+  });
+  return delta;
+}
+
+// before / after = fetchClusterOriginLoads() (같은 BASE_URLS 순서)
+export function clusterOriginLoadDelta(
+  before: OriginLoadSnapshot[],
+  after: OriginLoadSnapshot[],
+  strategy: StrategyName,
+): ClusterOriginLoadDelta {
+  const perInstance = after.map((snapshot, i) => keyDeltas(before[i], snapshot, strategy));
+  const loadsByKey: Record<string, number> = {};
+  const instancesByKey: Record<string, number> = {};
+  perInstance.forEach(deltas => {
+    Object.entries(deltas).forEach(([key, n]) => {
+      loadsByKey[key] = (loadsByKey[key] ?? 0) + n;
+      instancesByKey[key] = (instancesByKey[key] ?? 0) + 1;
+    });
+  });
+
+  const delta: ClusterOriginLoadDelta = {
+    total: 0,
+    keys: 0,
+    maxPerKey: 0,
+    duplicateLoads: 0,
+    crossInstanceKeys: 0,
+    maxInstancesPerKey: 0,
+    byInstance: perInstance.map(deltas => Object.values(deltas).reduce((sum, n) => sum + n, 0)),
+  };
+  Object.entries(loadsByKey).forEach(([key, n]) => {
+    delta.total += n;
+    delta.keys += 1;
+    delta.maxPerKey = Math.max(delta.maxPerKey, n);
+    delta.duplicateLoads += n - 1;
+    if (instancesByKey[key] > 1) delta.crossInstanceKeys += 1;
+    delta.maxInstancesPerKey = Math.max(delta.maxInstancesPerKey, instancesByKey[key]);
+  });
+  return delta;
+}
+
+// 구간 단위 원본 로드 메트릭 (init context에서 생성)
+export interface OriginLoadMetrics {
+  loads: Counter;
+  keys: Gauge;
+  maxPerKey: Gauge;
+}
+
+// 예: originLoadMetrics('basic_burst_origin_loads') → basic_burst_origin_loads, _keys, _max_per_key
+// (metricFamily('burst_origin_loads', originLoadMetrics)로 전략별 묶음 생성 가능)
+export function originLoadMetrics(name: string): OriginLoadMetrics {
+  return {
+    loads: new Counter(name),
+    keys: new Gauge(`${name}_keys`),
+    maxPerKey: new Gauge(`${name}_max_per_key`),
+  };
+}
+
+export function recordOriginLoads(metrics: OriginLoadMetrics, delta: OriginLoadDelta): void {
+  metrics.loads.add(delta.total);
+  metrics.keys.add(delta.keys);
+  metrics.maxPerKey.add(delta.maxPerKey);
+}
+
+// 클러스터 메트릭: 위 메트릭(인스턴스 합산) + _duplicates, _cross_instance_keys, _max_instances_per_key, _instance_{n}
+export interface ClusterOriginLoadMetrics extends OriginLoadMetrics {
+  duplicates: Counter;
+  crossInstanceKeys: Gauge;
+  maxInstancesPerKey: Gauge;
+  byInstance: Counter[]; // BASE_URLS 순서 (_instance_0, _instance_1, ...)
+}
+
+export function clusterOriginLoadMetrics(name: string): ClusterOriginLoadMetrics {
+  return {
+    ...originLoadMetrics(name),
+    duplicates: new Counter(`${name}_duplicates`),
+    crossInstanceKeys: new Gauge(`${name}_cross_instance_keys`),
+    maxInstancesPerKey: new Gauge(`${name}_max_instances_per_key`),
+    byInstance: config.baseUrls.map((_, i) => new Counter(`${name}_instance_${i}`)),
+  };
+}
+
+export function recordClusterOriginLoads(metrics: ClusterOriginLoadMetrics, delta: ClusterOriginLoadDelta): void {
+  recordOriginLoads(metrics, delta);
+  metrics.duplicates.add(delta.duplicateLoads);
+  metrics.crossInstanceKeys.add(delta.crossInstanceKeys);
+  metrics.maxInstancesPerKey.add(delta.maxInstancesPerKey);
+  delta.byInstance.forEach((n, i) => metrics.byInstance[i].add(n));
+}
+
+/**
+ * 측정 대상 load phase와 같은 시점에 시작하는 probe action
+ * (타임라인에서 대상 phase 바로 앞에 둔다. action은 커서를 전진시키지 않음)
+ */
+export function originLoadProbe(name: string, targetDurationSec: number, exec: string, tags?: Tags): ActionPhase {
+  return {
+    kind: 'action',
+    name,
+    phase: 'probe',
+    tags,
+    exec,
+    spanSec: targetDurationSec + PROBE_SETTLE_SEC,
+  };
+}
+
+// probe action 본문: 스냅샷 → spanSec 대기 → 스냅샷
+export function measureOriginLoads(strategy: StrategyName, spanSec: number): OriginLoadDelta {
+  const before = fetchOriginLoads();
+  sleep(spanSec);
+  const after = fetchOriginLoads();
+  return originLoadDelta(before, after, strategy);
+}
+
+// 클러스터 probe action 본문: 인스턴스별 스냅샷 → spanSec 대기 → 인스턴스별 스냅샷
+export function measureClusterOriginLoads(strategy: StrategyName, spanSec: number): ClusterOriginLoadDelta {
+  const before = fetchClusterOriginLoads();
+  sleep(spanSec);
+  const after = fetchClusterOriginLoads();
+  return clusterOriginLoadDelta(before, after, strategy);
+}
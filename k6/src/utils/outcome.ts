@@ -0,0 +1,78 @@
+import { Counter } from 'k6/metrics';
+
+/**
+ * 서버가 보고한 캐시 처리 결과 분류
+ *
+ * 응답 시간 기반 추측(duration < 20ms → HIT 등) 대신 서버의 X-Cache-Outcome 헤더
+ * (없으면 body의 meta.cacheOutcome)를 그대로 사용한다.
+ */
+
+export type CacheOutcome =
+  | 'HIT'
+  | 'STALE'
+  | 'MISS'
+  | 'LOCK_WAIT'
+  | 'LOCK_TIMEOUT_FALLBACK'
+  | 'REFRESH_TRIGGERED'
+  | 'UNKNOWN';
+
+export const CACHE_OUTCOMES: CacheOutcome[] = [
+  'HIT',
+  'STALE',
+  'MISS',
+  'LOCK_WAIT',
+  'LOCK_TIMEOUT_FALLBACK',
+  'REFRESH_TRIGGERED',
+];
+
+const OUTCOME_HEADER = 'X-Cache-Outcome';
+
+function toOutcome(value: unknown): CacheOutcome | undefined {
+  if (typeof value !== 'string') return undefined;
+  return (CACHE_OUTCOMES as string[]).indexOf(value) >= 0 ? value as CacheOutcome : undefined;
+}
+
+export function classifyResponse(res: any): CacheOutcome {
+  const fromHeader = toOutcome(res?.headers?.[OUTCOME_HEADER]);
+  if (fromHeader) return fromHeader;
+
+  try {
+    const body = JSON.parse(res.body as string);
+    return toOutcome(body?.meta?.cacheOutcome) ?? 'UNKNOWN';
+  } catch {
+    return 'UNKNOWN';
+  }
+}
+
+// 이 요청이 원본(DB)을 직접 호출했는지
+export function isOriginLoad(outcome: CacheOutcome): boolean {
+  return outcome === 'MISS' || outcome === 'LOCK_TIMEOUT_FALLBACK';
+}
+
+// soft TTL이 지난(stale) 값이 반환되었는지
+export function isStaleServe(outcome: CacheOutcome): boolean {
+  return outcome === 'STALE' || outcome === 'REFRESH_TRIGGERED';
+}
+
+export interface OutcomeCounters {
+  hits?: Counter;
+  stale?: Counter;      // 없으면 hits로 집계
+  lockWaits?: Counter;  // 없으면 hits로 집계
+  misses?: Counter;
+  slowPath?: Counter;   // 원본(DB) 접근
+}
+
+export function countOutcome(outcome: CacheOutcome, counters: OutcomeCounters): void {
+  if (outcome === 'UNKNOWN') return;
+
+  if (isOriginLoad(outcome)) {
+    counters.misses?.add(1);
+    counters.slowPath?.add(1);
+  } else if (isStaleServe(outcome)) {
+    (counters.stale ?? counters.hits)?.add(1);
+  } else if (outcome === 'LOCK_WAIT') {
+    (counters.lockWaits ?? counters.hits)?.add(1);
+  } else {
+    counters.hits?.add(1);
+  }
+}
@@ -0,0 +1,55 @@
+import { Counter, Rate, Trend } from 'k6/metrics';
+import { CacheOutcome, isOriginLoad, isStaleServe } from './outcome';
+import { RowMetricNames } from './report';
+import { strategyMetricName, StrategyName } from './strategies';
+
+/**
+ * 전략 × phase 단위 메트릭
+ *
+ * 이름 규칙: {strategy prefix}_{phase}_{suffix}, phase 생략 시 {strategy prefix}_{suffix}
+ * 예: basic_burst_response_time, full_soft_burst_slow_path, jitter_lock_errors
+ */
+
+export interface PhaseMetrics {
+  responseTime: Trend;
+  requests: Counter;
+  errors: Rate;
+  slowPath: Counter;     // 원본(DB) 접근 (X-Cache-Outcome = MISS / LOCK_TIMEOUT_FALLBACK)
+  staleServed: Counter;  // stale 값 반환 (STALE / REFRESH_TRIGGERED)
+}
+
+export function phaseMetricName(strategy: StrategyName, phase: string | undefined, suffix: string): string {
+  return strategyMetricName(strategy, phase ? `${phase.replace(/-/g, '_')}_${suffix}` : suffix);
+}
+
+export function createPhaseMetrics(strategy: StrategyName, phase?: string): PhaseMetrics {
+  return {
+    responseTime: new Trend(phaseMetricName(strategy, phase, 'response_time'), true),
+    requests: new Counter(phaseMetricName(strategy, phase, 'requests')),
+    errors: new Rate(phaseMetricName(strategy, phase, 'errors')),
+    slowPath: new Counter(phaseMetricName(strategy, phase, 'slow_path')),
+    staleServed: new Counter(phaseMetricName(strategy, phase, 'stale_served')),
+  };
+}
+
+export function recordPhaseSample(metrics: PhaseMetrics, durationMs: number, ok: boolean, outcome: CacheOutcome): void {
+  metrics.requests.add(1);
+  metrics.responseTime.add(durationMs);
+  metrics.errors.add(!ok);
+  if (isOriginLoad(outcome)) metrics.slowPath.add(1);
+  if (isStaleServe(outcome)) metrics.staleServed.add(1);
+}
+
+// report.ts readRow용 이름 묶음 (serverOriginLoads: origin-loads.ts probe 메트릭 suffix)
+export function phaseRowNames(strategy: StrategyName, phase?: string, serverOriginLoadsSuffix?: string): RowMetricNames {
+  return {
+    responseTime: phaseMetricName(strategy, phase, 'response_time'),
+    requests: phaseMetricName(strategy, phase, 'requests'),
+    errors: phaseMetricName(strategy, phase, 'errors'),
+    originLoads: phaseMetricName(strategy, phase, 'slow_path'),
+    staleServed: phaseMetricName(strategy, phase, 'stale_served'),
+    serverOriginLoads: serverOriginLoadsSuffix
+      ? phaseMetricName(strategy, phase, serverOriginLoadsSuffix)
+      : undefined,
+  };
+}
@@ -0,0 +1,109 @@
+import http from 'k6/http';
+import { buildUrl } from './config';
+
+/**
+ * Prometheus text format(0.0.4) 파서 - /actuator/prometheus 응답용
+ *
+ * Micrometer 이름 규칙: `cache.full.cache_hit` Counter → `cache_full_cache_hit_total`,
+ * Timer → `{name}_seconds_count` / `{name}_seconds_sum` / `{name}_seconds_max` / `{name}_seconds_bucket`
+ * 주석(# HELP / # TYPE)과 timestamp는 무시한다.
+ */
+
+export type PromLabels = Record<string, string>;
+
+export interface PromSample {
+  name: string;
+  labels: PromLabels;
+  value: number;
+}
+
+const LABEL_ESCAPES: Record<string, string> = { n: '\n', '"': '"', '\\': '\\' };
+
+function parseValue(token: string): number {
+  if (token === '+Inf') return Infinity;
+  if (token === '-Inf') return -Infinity;
+  return Number(token); // NaN은 그대로 NaN
+}
+
+// `{a="x",b="y\"z"}` 부분 파싱 - 반환값: [labels, 닫는 괄호 다음 위치]
+function parseLabels(line: string, start: number): [PromLabels, number] {
+  const labels: PromLabels = {};
+  let i = start + 1; // '{' 다음
+
+  while (i < line.length) {
+    while (line[i] === ' ' || line[i] === ',') i++;
+    if (line[i] === '}') return [labels, i + 1];
+
+    const eq = line.indexOf('=', i);
+    if (eq < 0 || line[eq + 1] !== '"') {
+      throw new Error(`Malformed label set: ${line}`);
+    }
+    const key = line.slice(i, eq).trim();
+
+    let value = '';
+    i = eq + 2;
+    while (i < line.length && line[i] !== '"') {
+      if (line[i] === '\\' && i + 1 < line.length) {
+        value += LABEL_ESCAPES[line[i + 1]] ?? line[i + 1];
+        i += 2;
+      } else {
+        value += line[i++];
+      }
+    }
+    labels[key] = value;
+    i++; // 닫는 '"'
+  }
+  throw new Error(`Unterminated label set: ${line}`);
+}
+
+export function parsePrometheusText(text: string): PromSample[] {
+  const samples: PromSample[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (line.length === 0 || line.startsWith('#')) continue;
+
+    const brace = line.indexOf('{');
+    const space = line.indexOf(' ');
+    let name: string;
+    let labels: PromLabels = {};
+    let rest: string;
+
+    if (brace >= 0 && (space < 0 || brace < space)) {
+      name = line.slice(0, brace);
+      const [parsed, end] = parseLabels(line, brace);
+      labels = parsed;
+      rest = line.slice(end).trim();
+    } else {
+      name = line.slice(0, space);
+      rest = line.slice(space + 1).trim();
+    }
+
+    samples.push({ name, labels, value: parseValue(rest.split(/\s+/)[0]) });
+  }
+  return samples;
+}
+
+function matchesLabels(sample: PromSample, filter?: PromLabels): boolean {
+  if (!filter) return true;
+  return Object.keys(filter).every(k => sample.labels[k] === filter[k]);
+}
+
+// 이름이 같고 label 필터에 모두 일치하는 샘플 값의 합 (예: ttl_state 구분 없이 합산)
+export function sumSamples(samples: PromSample[], name: string, filter?: PromLabels): number {
+  let sum = 0;
+  for (const s of samples) {
+    if (s.name === name && matchesLabels(s, filter) && Number.isFinite(s.value)) sum += s.value;
+  }
+  return sum;
+}
+
+export function fetchPrometheus(): PromSample[] {
+  const res = http.get(buildUrl('/actuator/prometheus'), {
+    tags: { name: 'actuator_prometheus' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to scrape /actuator/prometheus: status=${res.status}`);
+  }
+  return parsePrometheusText(res.body as string);
+}
@@ -0,0 +1,365 @@
+import { readTimeSeries, SeriesPoint, SeriesSpec } from './timeseries';
+import { ScheduledPhase } from './timeline';
+
+/**
+ * 공용 리포트 생성기 (handleSummary에서 사용)
+ *
+ * - Markdown: 전략 × phase 표 (PR 코멘트에 그대로 붙여넣기용)
+ * - HTML: 표 + 시간축 latency / 처리량 차트 (인라인 SVG, 외부 리소스 없는 단일 파일)
+ *
+ * 리포트는 summary 집계값(data.metrics)과 timeseries.ts의 초 단위 bucket 메트릭만으로 만든다.
+ */
+
+// p(99), count는 k6 기본 summaryTrendStats에 없으므로 리포트를 쓰는 시나리오는 options에 지정
+export const REPORT_TREND_STATS = ['avg', 'min', 'med', 'max', 'p(90)', 'p(95)', 'p(99)', 'count'];
+
+export interface ReportRow {
+  strategy: string;
+  phase: string;
+  requests: number;
+  avg?: number;
+  p95?: number;
+  p99?: number;
+  errorRate?: number;
+  originLoads?: number;       // X-Cache-Outcome 기준 (요청 단위)
+  serverOriginLoads?: number; // 서버 집계 (백그라운드 갱신 포함)
+  staleServed?: number;       // stale 값이 반환된 요청 수
+  serverRevalidations?: number; // 서버 Micrometer 갱신 시작 수 (scraper.ts)
+}
+
+// 행을 구성할 summary 메트릭 이름 (없는 항목은 표에서 '-')
+export interface RowMetricNames {
+  responseTime: string;       // Trend
+  requests?: string;          // Counter (없으면 responseTime의 count)
+  errors?: string;            // Rate
+  originLoads?: string;       // Counter
+  serverOriginLoads?: string; // Counter
+  staleServed?: string;       // Counter
+  serverRevalidations?: string; // Counter
+}
+
+export interface ReportSeries {
+  label: string;
+  kind: 'latency' | 'count';
+  points: SeriesPoint[];
+}
+
+export interface ReportMarker {
+  atSec: number;
+  label: string;
+}
+
+// 메인 표 외 추가 표 (예: 전략 간 서버 메트릭 비교) - 셀은 이미 포맷된 문자열
+export interface ReportTable {
+  title: string;
+  header: string[];
+  rows: string[][];
+}
+
+export interface Report {
+  title: string;
+  notes?: string[];
+  rows: ReportRow[];
+  tables?: ReportTable[];
+  bucketSec?: number;
+  totalSec?: number;
+  series?: ReportSeries[];
+  phases?: ScheduledPhase[];
+  markers?: ReportMarker[];
+}
+
+function metricValues(data: any, name?: string): any {
+  return name ? data.metrics[name]?.values : undefined;
+}
+
+export function readRow(data: any, strategy: string, phase: string, names: RowMetricNames): ReportRow | undefined {
+  const rt = metricValues(data, names.responseTime);
+  if (!rt) return undefined;
+
+  return {
+    strategy,
+    phase,
+    requests: metricValues(data, names.requests)?.count ?? rt.count ?? 0,
+    avg: rt.avg,
+    p95: rt['p(95)'],
+    p99: rt['p(99)'],
+    errorRate: metricValues(data, names.errors)?.rate,
+    originLoads: names.originLoads ? metricValues(data, names.originLoads)?.count ?? 0 : undefined,
+    serverOriginLoads: names.serverOriginLoads ? metricValues(data, names.serverOriginLoads)?.count ?? 0 : undefined,
+    staleServed: names.staleServed ? metricValues(data, names.staleServed)?.count ?? 0 : undefined,
+    serverRevalidations: names.serverRevalidations
+      ? metricValues(data, names.serverRevalidations)?.count ?? 0
+      : undefined,
+  };
+}
+
+// ===== Markdown =====
+
+function fmtMs(v?: number): string {
+  return v === undefined ? '-' : v.toFixed(2);
+}
+
+function fmtPct(v?: number): string {
+  return v === undefined ? '-' : `${(v * 100).toFixed(2)}%`;
+}
+
+function fmtCount(v?: number): string {
+  return v === undefined ? '-' : String(v);
+}
+
+function staleRatio(row: ReportRow): string {
+  if (row.staleServed === undefined || row.requests === 0) return '-';
+  return fmtPct(row.staleServed / row.requests);
+}
+
+const TABLE_HEADER = [
+  'Strategy', 'Phase', 'Requests', 'Avg (ms)', 'P95 (ms)', 'P99 (ms)',
+  'Error rate', 'Origin loads', 'Origin loads (server)', 'Stale served', 'Revalidations (server)',
+];
+
+function tableCells(row: ReportRow): string[] {
+  return [
+    row.strategy,
+    row.phase,
+    String(row.requests),
+    fmtMs(row.avg),
+    fmtMs(row.p95),
+    fmtMs(row.p99),
+    fmtPct(row.errorRate),
+    fmtCount(row.originLoads),
+    fmtCount(row.serverOriginLoads),
+    staleRatio(row),
+    fmtCount(row.serverRevalidations),
+  ];
+}
+
+export function renderMarkdown(report: Report): string {
+  const lines: string[] = [`# ${report.title}`, ''];
+  for (const note of report.notes ?? []) {
+    lines.push(`- ${note}`);
+  }
+  if (report.notes?.length) lines.push('');
+
+  lines.push(`| ${TABLE_HEADER.join(' | ')} |`);
+  lines.push(`|${TABLE_HEADER.map(() => '---').join('|')}|`);
+  for (const row of report.rows) {
+    lines.push(`| ${tableCells(row).join(' | ')} |`);
+  }
+  lines.push('');
+
+  for (const table of report.tables ?? []) {
+    lines.push(`## ${table.title}`, '');
+    lines.push(`| ${table.header.join(' | ')} |`);
+    lines.push(`|${table.header.map(() => '---').join('|')}|`);
+    for (const cells of table.rows) {
+      lines.push(`| ${cells.join(' | ')} |`);
+    }
+    lines.push('');
+  }
+
+  if (report.markers?.length) {
+    lines.push('Markers:', '');
+    for (const m of report.markers) {
+      lines.push(`- ${m.atSec.toFixed(1)}s: ${m.label}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// ===== HTML (인라인 SVG 차트) =====
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 260;
+const MARGIN = { top: 24, right: 16, bottom: 32, left: 56 };
+const LINE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c'];
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface ChartLine {
+  label: string;
+  values: (number | undefined)[]; // bucket별 값 (없으면 선을 끊음)
+}
+
+function niceStep(range: number, targetTicks: number): number {
+  const raw = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const residual = raw / magnitude;
+  const nice = residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1;
+  return nice * magnitude;
+}
+
+function svgChart(
+  title: string,
+  unit: string,
+  lines: ChartLine[],
+  bucketSec: number,
+  totalSec: number,
+  phases: ScheduledPhase[],
+  markers: ReportMarker[],
+): string {
+  const w = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const h = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const maxValue = Math.max(1, ...lines.flatMap(l => l.values.filter((v): v is number => v !== undefined)));
+  const yMax = maxValue * 1.1;
+  const x = (sec: number) => MARGIN.left + (Math.min(sec, totalSec) / totalSec) * w;
+  const y = (v: number) => MARGIN.top + h - (v / yMax) * h;
+
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">`);
+  parts.push(`<text x="${MARGIN.left}" y="16" class="title">${escapeHtml(title)} (${escapeHtml(unit)})</text>`);
+
+  // phase 구간 (load phase만 음영)
+  phases.filter(p => p.kind === 'load').forEach((p, i) => {
+    const x0 = x(p.startSec);
+    const x1 = x(p.startSec + p.durationSec);
+    parts.push(`<rect x="${x0}" y="${MARGIN.top}" width="${Math.max(0, x1 - x0)}" height="${h}" class="band${i % 2}"/>`);
+    const label = p.tags.strategy ? `${p.tags.strategy} ${p.phase}` : p.phase;
+    parts.push(`<text x="${x0 + 2}" y="${MARGIN.top + 10}" class="band-label">${escapeHtml(label)}</text>`);
+  });
+
+  // 축 + 눈금
+  const yStep = niceStep(yMax, 4);
+  for (let v = 0; v <= yMax; v += yStep) {
+    parts.push(`<line x1="${MARGIN.left}" x2="${MARGIN.left + w}" y1="${y(v)}" y2="${y(v)}" class="grid"/>`);
+    parts.push(`<text x="${MARGIN.left - 6}" y="${y(v) + 4}" class="tick" text-anchor="end">${+v.toFixed(2)}</text>`);
+  }
+  const xStep = niceStep(totalSec, 10);
+  for (let s = 0; s <= totalSec; s += xStep) {
+    parts.push(`<text x="${x(s)}" y="${MARGIN.top + h + 16}" class="tick" text-anchor="middle">${s}s</text>`);
+  }
+  parts.push(`<rect x="${MARGIN.left}" y="${MARGIN.top}" width="${w}" height="${h}" class="frame"/>`);
+
+  // 데이터 (bucket 중앙에 점)
+  lines.forEach((line, i) => {
+    const color = LINE_COLORS[i % LINE_COLORS.length];
+    let segment: string[] = [];
+    const flush = () => {
+      if (segment.length > 0) {
+        parts.push(`<polyline points="${segment.join(' ')}" fill="none" stroke="${color}" stroke-width="1.5"/>`);
+      }
+      segment = [];
+    };
+    line.values.forEach((v, idx) => {
+      if (v === undefined) {
+        flush();
+        return;
+      }
+      segment.push(`${x((idx + 0.5) * bucketSec).toFixed(1)},${y(v).toFixed(1)}`);
+    });
+    flush();
+    parts.push(`<text x="${MARGIN.left + w - 4}" y="${MARGIN.top + 14 + i * 14}" class="legend" text-anchor="end" fill="${color}">${escapeHtml(line.label)}</text>`);
+  });
+
+  // invalidate / TTL 만료 시점
+  for (const m of markers) {
+    parts.push(`<line x1="${x(m.atSec)}" x2="${x(m.atSec)}" y1="${MARGIN.top}" y2="${MARGIN.top + h}" class="marker"/>`);
+    parts.push(`<text x="${x(m.atSec) + 3}" y="${MARGIN.top + h - 4}" class="marker-label">${escapeHtml(m.label)}</text>`);
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 24px; color: #111827; }
+table { border-collapse: collapse; margin: 16px 0; font-size: 13px; }
+th, td { border: 1px solid #d1d5db; padding: 4px 8px; text-align: right; }
+th:nth-child(-n+2), td:nth-child(-n+2) { text-align: left; }
+th { background: #f3f4f6; }
+.chart { width: 100%; max-width: ${CHART_WIDTH}px; display: block; margin: 12px 0; }
+.chart .title { font-size: 13px; font-weight: 600; }
+.chart .tick, .chart .legend, .chart .band-label, .chart .marker-label { font-size: 10px; }
+.chart .band-label { fill: #6b7280; }
+.chart .band0 { fill: #f9fafb; }
+.chart .band1 { fill: #eef2ff; }
+.chart .grid { stroke: #e5e7eb; }
+.chart .frame { fill: none; stroke: #9ca3af; }
+.chart .marker { stroke: #b91c1c; stroke-dasharray: 4 3; }
+.chart .marker-label { fill: #b91c1c; }
+`;
+
+export function renderHtml(report: Report): string {
+  const parts: string[] = [];
+  parts.push('<!DOCTYPE html>');
+  parts.push(`<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title><style>${HTML_STYLE}</style></head><body>`);
+  parts.push(`<h1>${escapeHtml(report.title)}</h1>`);
+
+  if (report.notes?.length) {
+    parts.push(`<ul>${report.notes.map(n => `<li>${escapeHtml(n)}</li>`).join('')}</ul>`);
+  }
+
+  parts.push('<table><thead><tr>');
+  parts.push(TABLE_HEADER.map(h => `<th>${escapeHtml(h)}</th>`).join(''));
+  parts.push('</tr></thead><tbody>');
+  for (const row of report.rows) {
+    parts.push(`<tr>${tableCells(row).map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`);
+  }
+  parts.push('</tbody></table>');
+
+  for (const table of report.tables ?? []) {
+    parts.push(`<h2>${escapeHtml(table.title)}</h2>`);
+    parts.push(`<table><thead><tr>${table.header.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>`);
+    for (const cells of table.rows) {
+      parts.push(`<tr>${cells.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`);
+    }
+    parts.push('</tbody></table>');
+  }
+
+  const series = report.series ?? [];
+  if (series.length > 0 && report.totalSec && report.bucketSec) {
+    const phases = report.phases ?? [];
+    const markers = report.markers ?? [];
+
+    for (const s of series.filter(s => s.kind === 'latency')) {
+      parts.push(svgChart(`${s.label} latency`, 'ms', [
+        { label: 'avg', values: s.points.map(p => (p.count > 0 ? p.avg : undefined)) },
+        { label: 'p95', values: s.points.map(p => (p.count > 0 ? p.p95 : undefined)) },
+        { label: 'p99', values: s.points.map(p => (p.count > 0 ? p.p99 : undefined)) },
+      ], report.bucketSec, report.totalSec, phases, markers));
+    }
+
+    // 처리량 차트: latency 시계열의 샘플 수 + count 시계열 (bucket당 → 초당 환산)
+    const perSec = (p: SeriesPoint) => p.count / report.bucketSec;
+    const countLines: ChartLine[] = [
+      ...series.filter(s => s.kind === 'latency').map(s => ({ label: `${s.label} requests`, values: s.points.map(perSec) })),
+      ...series.filter(s => s.kind === 'count').map(s => ({ label: s.label, values: s.points.map(perSec) })),
+    ];
+    parts.push(svgChart('Throughput', 'per second', countLines, report.bucketSec, report.totalSec, phases, markers));
+  }
+
+  parts.push('</body></html>');
+  return parts.join('\n');
+}
+
+// phase 구분이 없는 단일 전략 시나리오(ramping-vus)용 리포트: 전체 1행 + latency 시계열
+export function singleRunReport(
+  data: any,
+  title: string,
+  strategy: string,
+  names: RowMetricNames,
+  latency: SeriesSpec,
+): Report {
+  const row = readRow(data, strategy, 'all', names);
+  return {
+    title,
+    rows: row ? [row] : [],
+    bucketSec: latency.bucketSec,
+    totalSec: latency.totalSec,
+    series: [{ label: strategy, kind: 'latency', points: readTimeSeries(data, latency) }],
+  };
+}
+
+// handleSummary 반환값에 펼쳐 넣을 파일 묶음
+export function reportFiles(name: string, report: Report): Record<string, string> {
+  return {
+    [`results/${name}-report.md`]: renderMarkdown(report),
+    [`results/${name}-report.html`]: renderHtml(report),
+  };
+}
@@ -0,0 +1,274 @@
+import { sleep } from 'k6';
+import { Counter, Trend } from 'k6/metrics';
+import { defineConfig } from './config';
+import { phaseMetricName } from './phase-metrics';
+import { ReportTable } from './report';
+import { fetchPrometheus, PromLabels, PromSample, sumSamples } from './prometheus';
+import { STRATEGIES, StrategyName } from './strategies';
+import { elapsedSec } from './timeseries';
+import { ScheduledPhase, Timeline } from './timeline';
+
+/**
+ * 서버 Micrometer 메트릭 scraper
+ *
+ * 타임라인 전체 길이 동안 1 VU가 /actuator/prometheus를 SCRAPE_INTERVAL_SEC마다 조회하고,
+ * 직전 조회와의 차이(delta)를 그 시점의 phase 메트릭에 기록한다.
+ *
+ * - counter: delta를 Counter {strategy}_{phase}_{suffix} 에 더함
+ * - timer  : _seconds_sum / _seconds_count delta로 구간 평균(ms)을 Trend에 1개 샘플로 기록
+ *
+ * 공통 메트릭(cache.strategy.*)은 모든 캐시 전략에서 같은 이름 / strategy 태그로 등록되므로
+ * serverComparisonTable()로 다섯 전략을 같은 기준으로 비교할 수 있다.
+ *
+ * phase는 "조회 시점 이전에 마지막으로 시작한 load phase"로 정한다. burst가 끝난 직후 대기 구간에서
+ * 끝나는 백그라운드 갱신은 그 burst에 포함된다. 모든 샘플에는 phase / strategy 태그도 붙는다.
+ */
+
+const env = defineConfig('scraper', {
+  SCRAPE_INTERVAL_SEC: { type: 'number', default: 1, min: 0.2 },
+  SCRAPE_SERVER_METRICS: { type: 'boolean', default: true },
+});
+
+export const SCRAPE_INTERVAL_SEC = env.SCRAPE_INTERVAL_SEC;
+export const SCRAPE_ENABLED = env.SCRAPE_SERVER_METRICS;
+
+export interface ScrapeTarget {
+  suffix: string;      // k6 메트릭 suffix ({strategy}_{phase}_{suffix})
+  metric: string;      // Micrometer 메트릭 이름 (Prometheus 이름으로 변환 전)
+  labels?: PromLabels; // strategy 외 label 필터 - 생략한 label은 합산
+  kind: 'counter' | 'timer';
+  global?: boolean;    // strategy label이 없는 서버 전역 메트릭 - 스크랩 시점의 phase 전략에 귀속 (전략을 순서대로 돌릴 때만 의미 있음)
+}
+
+function promName(target: ScrapeTarget): string {
+  const base = target.metric.replace(/\./g, '_');
+  return target.kind === 'timer' ? `${base}_seconds` : `${base}_total`;
+}
+
+// 모든 캐시 전략 공통 서버 메트릭 (CacheStrategyMetrics - cache.strategy.* {strategy} 기준)
+const outcomeTarget = (suffix: string, outcome: string): ScrapeTarget =>
+  ({ suffix, metric: 'cache.strategy.outcome', labels: { outcome }, kind: 'counter' });
+
+export const COMMON_SCRAPE_TARGETS: ScrapeTarget[] = [
+  outcomeTarget('server_hits', 'HIT'),
+  outcomeTarget('server_stale_hits', 'STALE'),
+  outcomeTarget('server_refresh_triggered', 'REFRESH_TRIGGERED'),
+  outcomeTarget('server_misses', 'MISS'),
+  outcomeTarget('server_lock_waits', 'LOCK_WAIT'),
+  outcomeTarget('server_lock_fallbacks', 'LOCK_TIMEOUT_FALLBACK'),
+  { suffix: 'server_revalidations', metric: 'cache.strategy.revalidate', labels: { result: 'started' }, kind: 'counter' },
+  { suffix: 'server_background_revalidations', metric: 'cache.strategy.revalidate', labels: { mode: 'background', result: 'started' }, kind: 'counter' },
+  { suffix: 'server_revalidate_failures', metric: 'cache.strategy.revalidate', labels: { result: 'failed' }, kind: 'counter' },
+  { suffix: 'server_revalidate_duration', metric: 'cache.strategy.revalidate_duration', kind: 'timer' },
+  { suffix: 'server_lock_acquired', metric: 'cache.strategy.lock_acquire', labels: { result: 'acquired' }, kind: 'counter' },
+  { suffix: 'server_lock_failed', metric: 'cache.strategy.lock_acquire', labels: { result: 'failed' }, kind: 'counter' },
+  // 장애 주입 훅이 실제로 실패시킨 원본 로드 (faults.ts)
+  { suffix: 'server_injected_errors', metric: 'origin.fault.injected', labels: { type: 'error' }, kind: 'counter' },
+  // 캐시 계층 장애 스위치가 거부한 Redis 명령 / 그중 분산 락 명령 (cache-outage.ts)
+  { suffix: 'server_cache_rejected', metric: 'cache.outage.rejected', kind: 'counter', global: true },
+  { suffix: 'server_lock_redis_errors', metric: 'cache.lock.redis_errors', kind: 'counter', global: true },
+];
+
+// 전략별 서버 메트릭 - 공통 메트릭 + 전략 고유 메트릭 (full: soft/hard TTL 구분)
+export const SERVER_SCRAPE_TARGETS: Partial<Record<StrategyName, ScrapeTarget[]>> = {
+  basic: COMMON_SCRAPE_TARGETS,
+  jitter: COMMON_SCRAPE_TARGETS,
+  'jitter-swr': COMMON_SCRAPE_TARGETS,
+  'jitter-lock': COMMON_SCRAPE_TARGETS,
+  full: [
+    ...COMMON_SCRAPE_TARGETS,
+    { suffix: 'server_revalidations_soft', metric: 'cache.full.revalidate_started', labels: { ttl_state: 'soft' }, kind: 'counter' },
+    { suffix: 'server_revalidations_hard', metric: 'cache.full.revalidate_started', labels: { ttl_state: 'hard' }, kind: 'counter' },
+  ],
+};
+
+// 누적값 (timer는 sum/count 쌍)
+interface ScrapedValue {
+  value: number;
+  count?: number;
+}
+
+function readTarget(samples: PromSample[], strategy: StrategyName, target: ScrapeTarget): ScrapedValue {
+  const filter = target.global
+    ? { ...(target.labels ?? {}) }
+    : { ...(target.labels ?? {}), strategy: STRATEGIES[strategy].metaStrategy };
+  const name = promName(target);
+  if (target.kind === 'timer') {
+    return { value: sumSamples(samples, `${name}_sum`, filter), count: sumSamples(samples, `${name}_count`, filter) };
+  }
+  return { value: sumSamples(samples, name, filter) };
+}
+
+type ScrapeMetric = Counter | Trend;
+
+function createMetric(target: ScrapeTarget, name: string): ScrapeMetric {
+  return target.kind === 'timer' ? new Trend(name, true) : new Counter(name);
+}
+
+export interface ServerScraper {
+  strategies: StrategyName[];
+  scrape(): void; // VU 컨텍스트 전용
+}
+
+/**
+ * init context에서 생성 - 타임라인의 (전략, load phase)마다 메트릭을 미리 만든다
+ * strategy 태그가 없는 타임라인(단일 전략 시나리오)은 defaultStrategy를 쓴다.
+ */
+export function createServerScraper(timeline: Timeline, defaultStrategy?: StrategyName): ServerScraper {
+  const loadPhases = timeline.phases.filter(p => p.kind === 'load');
+  const strategyOf = (p: ScheduledPhase) => (p.tags.strategy as StrategyName | undefined) ?? defaultStrategy;
+
+  const strategies = Array.from(new Set(loadPhases.map(strategyOf)))
+    .filter((s): s is StrategyName => s !== undefined && SERVER_SCRAPE_TARGETS[s] !== undefined);
+
+  // 메트릭 이름 → 메트릭 (phase 생략 = 전체 합산)
+  const metrics: Record<string, ScrapeMetric> = {};
+  const metricFor = (strategy: StrategyName, phase: string | undefined, target: ScrapeTarget) => {
+    const name = phaseMetricName(strategy, phase, target.suffix);
+    if (!metrics[name]) metrics[name] = createMetric(target, name);
+    return metrics[name];
+  };
+  strategies.forEach(s => {
+    SERVER_SCRAPE_TARGETS[s]!.forEach(target => {
+      metricFor(s, undefined, target);
+      loadPhases.filter(p => strategyOf(p) === s).forEach(p => metricFor(s, p.phase, target));
+    });
+  });
+
+  // 조회 시점 이전에 마지막으로 시작한 load phase
+  const phaseAt = (t: number): ScheduledPhase | undefined => {
+    let found: ScheduledPhase | undefined;
+    for (const p of loadPhases) {
+      if (p.startSec <= t) found = p;
+    }
+    return found;
+  };
+
+  let previous: Record<string, ScrapedValue> | undefined; // VU 로컬 (scraper VU는 1개)
+
+  return {
+    strategies,
+    scrape() {
+      const samples = fetchPrometheus();
+      const phase = phaseAt(elapsedSec());
+      const current: Record<string, ScrapedValue> = {};
+
+      strategies.forEach(s => {
+        SERVER_SCRAPE_TARGETS[s]!.forEach(target => {
+          const key = `${s}:${target.suffix}`;
+          const now = readTarget(samples, s, target);
+          current[key] = now;
+
+          const before = previous?.[key];
+          if (!before) return;
+
+          const tags = { strategy: s, phase: phase?.phase ?? 'none' };
+          const inPhase = phase !== undefined && strategyOf(phase) === s;
+          // 전역 메트릭은 모든 전략이 같은 값을 읽으므로 현재 phase의 전략에만 귀속
+          if (target.global && !inPhase) return;
+          const targets = [metricFor(s, undefined, target)];
+          if (inPhase) targets.push(metricFor(s, phase!.phase, target));
+
+          if (target.kind === 'timer') {
+            const count = (now.count ?? 0) - (before.count ?? 0);
+            if (count <= 0) return;
+            const avgMs = ((now.value - before.value) / count) * 1000;
+            targets.forEach(m => m.add(avgMs, tags));
+          } else {
+            const delta = now.value - before.value;
+            if (delta <= 0) return; // 서버 재시작 등으로 카운터가 줄어든 경우 무시
+            targets.forEach(m => m.add(delta, tags));
+          }
+        });
+      });
+
+      previous = current;
+    },
+  };
+}
+
+// ===== 전략 간 서버 메트릭 비교 (공통 메트릭만 사용) =====
+
+function scrapedCount(data: any, strategy: StrategyName, phase: string | undefined, suffix: string): number {
+  return data.metrics[phaseMetricName(strategy, phase, suffix)]?.values?.count ?? 0;
+}
+
+export const SERVER_COMPARISON_HEADER = [
+  'Strategy', 'Requests (server)', 'Hit', 'Stale', 'Miss', 'Lock wait', 'Lock fallback',
+  'Revalidations (sync / bg)', 'Revalidate failed', 'Revalidate avg (ms)', 'Lock acquired / failed',
+];
+
+/**
+ * 공통 cache.strategy.* 메트릭만으로 만든 전략별 행 - 모든 전략이 같은 기준으로 집계된다
+ * phase 생략 시 전체 합산. 서버가 보고한 요청이 없으면 (scraper 비활성 등) 행을 생략한다.
+ */
+export function serverComparisonTable(
+  data: any,
+  strategies: StrategyName[],
+  phase?: string,
+  title = 'Server-side cache metrics (cache.strategy.*)',
+): ReportTable {
+  const rows: string[][] = [];
+  strategies.forEach(s => {
+    const count = (suffix: string) => scrapedCount(data, s, phase, suffix);
+
+    const hits = count('server_hits');
+    const stale = count('server_stale_hits') + count('server_refresh_triggered');
+    const misses = count('server_misses');
+    const lockWaits = count('server_lock_waits');
+    const fallbacks = count('server_lock_fallbacks');
+    const total = hits + stale + misses + lockWaits + fallbacks;
+    if (total === 0) return;
+    const pct = (v: number) => (total > 0 ? ` (${((v / total) * 100).toFixed(1)}%)` : '');
+
+    const revalidations = count('server_revalidations');
+    const background = count('server_background_revalidations');
+    const duration = data.metrics[phaseMetricName(s, phase, 'server_revalidate_duration')]?.values?.avg;
+
+    rows.push([
+      s,
+      String(total),
+      `${hits}${pct(hits)}`,
+      `${stale}${pct(stale)}`,
+      `${misses}${pct(misses)}`,
+      String(lockWaits),
+      String(fallbacks),
+      `${revalidations - background} / ${background}`,
+      String(count('server_revalidate_failures')),
+      duration !== undefined ? duration.toFixed(2) : '-',
+      `${count('server_lock_acquired')} / ${count('server_lock_failed')}`,
+    ]);
+  });
+  return { title, header: SERVER_COMPARISON_HEADER, rows };
+}
+
+export function printServerComparison(table: ReportTable): void {
+  if (table.rows.length === 0) return;
+  console.log(`--- ${table.title} ---\n`);
+  table.rows.forEach(cells => {
+    console.log(`Strategy: ${cells[0]}`);
+    table.header.slice(1).forEach((h, i) => console.log(`  ${h}: ${cells[i + 1]}`));
+    console.log('');
+  });
+}
+
+/**
+ * options.scenarios에 추가할 scraper scenario (테스트 시작부터 타임라인 끝 + 여유 시간까지)
+ */
+export function scraperScenario(totalSec: number, exec = 'scrape', tailSec = 5): Record<string, any> {
+  return {
+    executor: 'constant-vus',
+    vus: 1,
+    duration: `${Math.ceil(totalSec + tailSec)}s`,
+    startTime: '0s',
+    gracefulStop: '5s',
+    exec,
+    tags: { phase: 'scrape' },
+  };
+}
+
+// scraper scenario의 exec 함수 본문
+export function runScrapeIteration(scraper: ServerScraper): void {
+  scraper.scrape();
+  sleep(SCRAPE_INTERVAL_SEC);
+}
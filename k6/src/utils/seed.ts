@@ -0,0 +1,122 @@
+import http from 'k6/http';
+import { buildUrl, defineConfig } from './config';
+
+/**
+ * 테스트 데이터 시드 (setup / teardown 전용 - HTTP 요청이므로 init context에서는 호출 불가)
+ *
+ * - CATALOG_SIZE > 0 : 항상 그 수만큼 상품을 새로 만들어 키스페이스로 사용
+ * - 그 외            : 지정한 ID(PRODUCT_IDS 또는 HOT_KEY_ID + COLD_KEY_IDS)가 없으면 같은 수만큼 새로 생성
+ * - SEED_MODE        : bulk(POST /admin/products/bulk, 기본) | single(POST /admin/products 반복)
+ * - SEED_CLEANUP     : true면 teardown에서 이번 실행이 만든 상품을 삭제
+ */
+
+export type SeedMode = 'bulk' | 'single';
+
+const env = defineConfig('seed', {
+  CATALOG_SIZE: { type: 'number', default: 0, min: 0, integer: true },
+  SEED_MODE: { type: 'string', default: 'bulk', choices: ['bulk', 'single'] },
+  SEED_CLEANUP: { type: 'boolean', default: false },
+});
+
+export const seedConfig = {
+  catalogSize: env.CATALOG_SIZE,
+  mode: env.SEED_MODE as SeedMode,
+  cleanup: env.SEED_CLEANUP,
+};
+
+const ADMIN_PRODUCTS = '/api/v1/admin/products';
+const CATEGORIES = ['Electronics', 'Books', 'Clothing', 'Food'];
+
+const JSON_HEADERS = { headers: { 'Content-Type': 'application/json' } };
+const DELETE_CHUNK = 200; // 쿼리 스트링 길이 제한 대비
+
+function parseIds(body: string | null): number[] {
+  return ((body ? JSON.parse(body).productIds : undefined) ?? []) as number[];
+}
+
+function createBulk(count: number): number[] {
+  const res = http.post(buildUrl(`${ADMIN_PRODUCTS}/bulk?count=${count}`));
+  if (res.status !== 200) {
+    throw new Error(`Seeding via ${ADMIN_PRODUCTS}/bulk failed: HTTP ${res.status}`);
+  }
+  return parseIds(res.body as string);
+}
+
+function createOneByOne(count: number): number[] {
+  const ids: number[] = [];
+  for (let i = 1; i <= count; i++) {
+    const res = http.post(buildUrl(ADMIN_PRODUCTS), JSON.stringify({
+      name: `Load Test Product ${i}`,
+      description: `Seeded by k6 setup (${i}/${count})`,
+      price: 1000 + i * 100,
+      stockQuantity: 100 + i,
+      category: CATEGORIES[i % CATEGORIES.length],
+    }), JSON_HEADERS);
+    if (res.status !== 201) {
+      throw new Error(`Seeding via ${ADMIN_PRODUCTS} failed at ${i}/${count}: HTTP ${res.status}`);
+    }
+    ids.push(JSON.parse(res.body as string).id);
+  }
+  return ids;
+}
+
+export function seedProducts(count: number, mode: SeedMode = seedConfig.mode): number[] {
+  const ids = mode === 'single' ? createOneByOne(count) : createBulk(count);
+  if (ids.length === 0) {
+    throw new Error('Seeding returned no productIds');
+  }
+  console.log(`Seeded ${ids.length} products (${mode}): ${ids[0]}..${ids[ids.length - 1]}`);
+  return ids;
+}
+
+export function missingProductIds(ids: number[]): number[] {
+  const res = http.get(buildUrl(`${ADMIN_PRODUCTS}/existing?ids=${ids.join(',')}`));
+  if (res.status !== 200) {
+    throw new Error(`Failed to check existing products: HTTP ${res.status}`);
+  }
+  const existing = new Set(parseIds(res.body as string));
+  return ids.filter(id => !existing.has(id));
+}
+
+export interface SeededCatalog {
+  ids: number[];
+  seededIds: number[]; // 이번 실행에서 새로 만든 ID (cleanup 대상)
+}
+
+/**
+ * setup()에서 호출 - 요청할 상품 ID 목록을 확정하고 필요하면 시드
+ */
+export function ensureCatalog(configuredIds: number[]): SeededCatalog {
+  if (seedConfig.catalogSize > 0) {
+    const ids = seedProducts(seedConfig.catalogSize);
+    return { ids, seededIds: ids };
+  }
+
+  const missing = missingProductIds(configuredIds);
+  if (missing.length === 0) {
+    return { ids: configuredIds, seededIds: [] };
+  }
+
+  console.warn(`Products ${missing.join(',')} not found - seeding ${configuredIds.length} new products instead`);
+  const ids = seedProducts(configuredIds.length);
+  return { ids, seededIds: ids };
+}
+
+/**
+ * teardown()에서 호출 - SEED_CLEANUP=true일 때만 이번 실행이 만든 상품 삭제
+ */
+export function cleanupCatalog(catalog: SeededCatalog): void {
+  if (!seedConfig.cleanup || catalog.seededIds.length === 0) return;
+
+  let deleted = 0;
+  for (let i = 0; i < catalog.seededIds.length; i += DELETE_CHUNK) {
+    const chunk = catalog.seededIds.slice(i, i + DELETE_CHUNK);
+    const res = http.del(buildUrl(`${ADMIN_PRODUCTS}?ids=${chunk.join(',')}`));
+    if (res.status !== 200) {
+      console.warn(`Failed to clean up seeded products: HTTP ${res.status}`);
+      return;
+    }
+    deleted += JSON.parse(res.body as string).deleted;
+  }
+  console.log(`Cleaned up ${deleted} seeded products`);
+}
@@ -0,0 +1,134 @@
+import { durationToSec } from './config';
+import { readTimeSeries, SeriesPoint, SeriesSpec } from './timeseries';
+import { Timeline } from './timeline';
+
+/**
+ * 초 단위 결과 export (handleSummary에서 사용)
+ *
+ * summary 집계값만으로는 스탬피드의 모양(만료 순간의 spike, 지속 시간, 회복 속도)이 사라지므로
+ * timeseries.ts bucket 메트릭을 bucket마다 한 행으로 펼쳐 results/{scenario}-timeseries.csv / .ndjson으로 쓴다.
+ * 스크립트 내부 메트릭만 쓰므로 외부 k6 output(InfluxDB 등) 없이 동작한다.
+ *
+ * 각 행의 strategy / phase는 bucket 시작 시점에 실행 중이던 phase에서 정한다. (labeler)
+ */
+
+// 시나리오가 기록하는 시계열 - originLoads는 여러 개면 bucket별 합계 (예: 전략별 시계열)
+export interface ExportSeries {
+  latency: SeriesSpec;          // trend: 요청 수 / p50 / p99
+  errors?: SeriesSpec;          // counter
+  originLoads?: SeriesSpec | SeriesSpec[]; // counter
+}
+
+export interface BucketLabel {
+  strategy: string;
+  phase: string;
+}
+
+export type BucketLabeler = (startSec: number) => BucketLabel;
+
+export interface SeriesRow {
+  t_sec: number;
+  strategy: string;
+  phase: string;
+  requests: number;
+  rps: number;
+  p50_ms: number | null;
+  p99_ms: number | null;
+  errors: number | null;
+  origin_loads: number | null;
+}
+
+const COLUMNS: (keyof SeriesRow)[] = [
+  't_sec', 'strategy', 'phase', 'requests', 'rps', 'p50_ms', 'p99_ms', 'errors', 'origin_loads',
+];
+
+/**
+ * 타임라인 기반 시나리오 - bucket 시작 시점을 덮는 load phase (없으면 wait phase 이름, 전략은 비움)
+ * load phase에 strategy 태그가 없는 단일 전략 시나리오는 defaultStrategy를 쓴다.
+ */
+export function timelineLabeler(timeline: Timeline, defaultStrategy: string = ''): BucketLabeler {
+  const covering = (kind: string, t: number) => timeline.phases.find(p =>
+    p.kind === kind && p.startSec <= t && t < p.startSec + p.durationSec);
+
+  return (startSec: number) => {
+    const load = covering('load', startSec);
+    if (load) return { strategy: load.tags.strategy ?? defaultStrategy, phase: load.phase };
+    const wait = covering('wait', startSec);
+    return { strategy: wait ? '' : defaultStrategy, phase: wait ? wait.phase : 'idle' };
+  };
+}
+
+// ramping stage 시나리오 - stage 순번 (stage1, stage2, ...). 마지막 stage 이후는 graceful ramp-down
+export function stagesLabeler(strategy: string, stages: { duration: string }[]): BucketLabeler {
+  const ends: number[] = [];
+  stages.reduce((sum, s) => {
+    ends.push(sum + durationToSec(s.duration));
+    return ends[ends.length - 1];
+  }, 0);
+
+  return (startSec: number) => {
+    const index = ends.findIndex(end => startSec < end);
+    return { strategy, phase: index < 0 ? 'ramp-down' : `stage${index + 1}` };
+  };
+}
+
+function sumCounts(data: any, specs: SeriesSpec[]): number[] {
+  const totals: number[] = [];
+  specs.map(spec => readTimeSeries(data, spec)).forEach(points => points.forEach((p, i) => {
+    totals[i] = (totals[i] ?? 0) + p.count;
+  }));
+  return totals;
+}
+
+function round(v: number | undefined, digits: number): number | null {
+  return v === undefined ? null : Number(v.toFixed(digits));
+}
+
+export function readSeriesRows(data: any, series: ExportSeries, labeler: BucketLabeler): SeriesRow[] {
+  const latency: SeriesPoint[] = readTimeSeries(data, series.latency);
+  const errors = series.errors ? sumCounts(data, [series.errors]) : undefined;
+  const origin = series.originLoads
+    ? sumCounts(data, Array.isArray(series.originLoads) ? series.originLoads : [series.originLoads])
+    : undefined;
+  const bucketSec = series.latency.bucketSec;
+
+  return latency.map((p, i) => ({
+    t_sec: p.startSec,
+    ...labeler(p.startSec),
+    requests: p.count,
+    rps: round(p.count / bucketSec, 2)!,
+    p50_ms: round(p.p50, 2),
+    p99_ms: round(p.p99, 2),
+    errors: errors ? errors[i] ?? 0 : null,
+    origin_loads: origin ? origin[i] ?? 0 : null,
+  }));
+}
+
+function csvCell(v: string | number | null): string {
+  if (v === null) return '';
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function renderCsv(rows: SeriesRow[]): string {
+  const lines = rows.map(row => COLUMNS.map(c => csvCell(row[c])).join(','));
+  return [COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function renderNdjson(rows: SeriesRow[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+}
+
+// handleSummary 반환값에 펼쳐 넣을 파일 묶음
+export function seriesFiles(
+  scenario: string,
+  data: any,
+  series: ExportSeries,
+  labeler: BucketLabeler,
+): Record<string, string> {
+  const rows = readSeriesRows(data, series, labeler);
+  return {
+    [`results/${scenario}-timeseries.csv`]: renderCsv(rows),
+    [`results/${scenario}-timeseries.ndjson`]: renderNdjson(rows),
+  };
+}
@@ -0,0 +1,169 @@
+import { defineConfig } from './config';
+import { phaseMetricName } from './phase-metrics';
+import { ReportTable } from './report';
+import { StrategyName } from './strategies';
+import { SeriesPoint } from './timeseries';
+import { ScheduledPhase, Timeline } from './timeline';
+
+/**
+ * 스탬피드 이벤트 검출 (handleSummary에서 사용)
+ *
+ * phase 단위 avg / p95는 스탬피드의 크기와 길이를 가린다. 무효화 / TTL 경계(보통 burst phase 시작)마다
+ * 초 단위 bucket(timeseries.ts)에서 원본 로드 spike 또는 지연 spike를 찾아 이벤트 하나로 묶고 다음을 계산한다.
+ *
+ * - peak concurrent origin loads: bucket 안 원본 로드 응답 시간 합 ÷ bucket 길이 (Little's law 추정치)
+ * - amplification             : 원본 로드 수 ÷ 로드된 키 수 (서버 probe 기준, 1 = 키당 한 번만 로드)
+ * - time to recover           : 경계 ~ spike 조건을 벗어난 첫 bucket
+ *
+ * spike bucket = 요청이 있고, 원본 로드 수 >= EVENT_MIN_ORIGIN_LOADS 이거나 p95 >= EVENT_LATENCY_MS
+ */
+
+const env = defineConfig('stampede-events', {
+  EVENT_MIN_ORIGIN_LOADS: { type: 'number', default: 2, min: 1 },
+  EVENT_LATENCY_MS: { type: 'number', default: 200, min: 0 },
+  // 경계 이후 spike 시작을 찾는 범위 (jitter로 만료가 늦어지는 만큼)
+  EVENT_SEARCH_SEC: { type: 'number', default: 3, min: 1 },
+});
+
+export const eventConfig = {
+  minOriginLoads: env.EVENT_MIN_ORIGIN_LOADS,
+  latencyMs: env.EVENT_LATENCY_MS,
+  searchSec: env.EVENT_SEARCH_SEC,
+};
+
+export interface EventBoundary {
+  strategy: StrategyName;
+  phase: string;    // 경계에서 시작하는 load phase (burst, soft-burst, ...) - 서버 probe 메트릭 이름에 사용
+  atSec: number;
+  untilSec: number; // 이벤트 / 복구 판정을 이어갈 마지막 시점 (같은 전략의 마지막 load phase 끝)
+}
+
+// 경계 = isBoundary를 만족하는 load phase의 시작 (예: compare-strategies의 burst phase)
+export function phaseBoundaries(
+  timeline: Timeline,
+  isBoundary: (phase: ScheduledPhase) => boolean,
+  defaultStrategy?: StrategyName,
+): EventBoundary[] {
+  const loads = timeline.phases.filter(p => p.kind === 'load');
+  return loads.filter(isBoundary).map(p => {
+    const strategy = (p.tags.strategy as StrategyName | undefined) ?? defaultStrategy!;
+    const sameStrategy = loads.filter(l => (l.tags.strategy ?? defaultStrategy) === strategy);
+    return {
+      strategy,
+      phase: p.phase,
+      atSec: p.startSec,
+      untilSec: Math.max(...sameStrategy.map(l => l.startSec + l.durationSec)),
+    };
+  });
+}
+
+// 검출에 쓰는 초 단위 시계열 (readTimeSeries 결과, 모두 같은 bucket 크기)
+export interface EventSeries {
+  latency: SeriesPoint[];        // 전체 요청 (trend)
+  originLoads: SeriesPoint[];    // 원본 로드 수 (counter)
+  originLoadTime: SeriesPoint[]; // 원본 로드 요청의 응답 시간 (trend)
+  bucketSec: number;
+}
+
+export interface StampedeEvent {
+  boundary: EventBoundary;
+  detected: boolean;
+  startSec?: number;                 // 경계 기준 spike 시작
+  recoverySec?: number;              // 경계 기준 복구 (untilSec까지 복구되지 않으면 undefined)
+  originLoads: number;               // 이벤트 구간 원본 로드 (클라이언트)
+  peakOriginLoadsPerSec: number;
+  peakConcurrentOriginLoads: number; // Little's law 추정치
+  peakP99?: number;
+  serverOriginLoads?: number;        // 서버 probe (백그라운드 갱신 포함)
+  uniqueKeys?: number;
+  amplification?: number;
+}
+
+function isSpike(series: EventSeries, i: number): boolean {
+  const point = series.latency[i];
+  if (!point || point.count === 0) return false;
+  return (series.originLoads[i]?.count ?? 0) >= eventConfig.minOriginLoads || (point.p95 ?? 0) >= eventConfig.latencyMs;
+}
+
+// 서버 probe 메트릭 ({strategy}_{phase}_origin_loads / _keys)이 있으면 amplification 계산
+function serverLoads(data: any, boundary: EventBoundary): Pick<StampedeEvent, 'serverOriginLoads' | 'uniqueKeys' | 'amplification'> {
+  const name = phaseMetricName(boundary.strategy, boundary.phase, 'origin_loads');
+  const loads = data.metrics[name]?.values?.count;
+  const keys = data.metrics[`${name}_keys`]?.values?.value;
+  if (loads === undefined || keys === undefined) return {};
+  return { serverOriginLoads: loads, uniqueKeys: keys, amplification: keys > 0 ? loads / keys : undefined };
+}
+
+export function detectStampedeEvents(data: any, boundaries: EventBoundary[], series: EventSeries): StampedeEvent[] {
+  const { bucketSec } = series;
+
+  return boundaries.map(boundary => {
+    const first = Math.floor(boundary.atSec / bucketSec);
+    const searchEnd = Math.min(Math.ceil((boundary.atSec + eventConfig.searchSec) / bucketSec), series.latency.length);
+    const last = Math.min(Math.ceil(boundary.untilSec / bucketSec), series.latency.length);
+
+    let start: number | undefined;
+    for (let i = first; i < searchEnd && start === undefined; i++) {
+      if (isSpike(series, i)) start = i;
+    }
+    const event: StampedeEvent = {
+      boundary,
+      detected: start !== undefined,
+      originLoads: 0,
+      peakOriginLoadsPerSec: 0,
+      peakConcurrentOriginLoads: 0,
+      ...serverLoads(data, boundary),
+    };
+    if (start === undefined) {
+      event.recoverySec = 0;
+      return event;
+    }
+
+    event.startSec = Math.max(0, start * bucketSec - boundary.atSec);
+    for (let i = start; i < last; i++) {
+      if (series.latency[i].count > 0 && !isSpike(series, i)) {
+        event.recoverySec = i * bucketSec - boundary.atSec;
+        break;
+      }
+      const loads = series.originLoads[i]?.count ?? 0;
+      const loadTime = series.originLoadTime[i];
+      event.originLoads += loads;
+      event.peakOriginLoadsPerSec = Math.max(event.peakOriginLoadsPerSec, loads / bucketSec);
+      event.peakConcurrentOriginLoads = Math.max(
+        event.peakConcurrentOriginLoads,
+        (loadTime?.count ?? 0) * (loadTime?.avg ?? 0) / 1000 / bucketSec,
+      );
+      const p99 = series.latency[i].p99;
+      if (p99 !== undefined) event.peakP99 = Math.max(event.peakP99 ?? 0, p99);
+    }
+    return event;
+  });
+}
+
+const EVENT_HEADER = [
+  'Strategy', 'Boundary', 'Spike start (s)', 'Peak origin loads/s', 'Peak concurrent origin loads (est.)',
+  'Origin loads (client)', 'Origin loads / keys (server)', 'Amplification', 'Peak p99 (ms)', 'Time to recover (s)',
+];
+
+export function stampedeEventTable(events: StampedeEvent[]): ReportTable {
+  const rows = events.map(e => {
+    const server = e.serverOriginLoads === undefined ? '-' : `${e.serverOriginLoads} / ${e.uniqueKeys}`;
+    const amplification = e.amplification === undefined ? '-' : e.amplification.toFixed(1);
+    if (!e.detected) {
+      return [e.boundary.strategy, e.boundary.phase, 'no spike', '0', '0', '0', server, amplification, '-', '0'];
+    }
+    return [
+      e.boundary.strategy,
+      e.boundary.phase,
+      e.startSec!.toFixed(0),
+      e.peakOriginLoadsPerSec.toFixed(0),
+      e.peakConcurrentOriginLoads.toFixed(1),
+      String(e.originLoads),
+      server,
+      amplification,
+      e.peakP99 === undefined ? '-' : e.peakP99.toFixed(1),
+      e.recoverySec === undefined ? 'not recovered' : e.recoverySec.toFixed(0),
+    ];
+  });
+  return { title: 'Stampede events', header: EVENT_HEADER, rows };
+}
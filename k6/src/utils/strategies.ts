@@ -0,0 +1,152 @@
+import { Counter, Rate, Trend } from 'k6/metrics';
+import { buildBalancedUrl } from './config';
+
+/**
+ * 서버 캐시 전략 레지스트리
+ *
+ * 시나리오마다 엔드포인트/메트릭 이름/meta.strategy 값을 하드코딩하지 않고
+ * 이 레지스트리에서 파생한다. 서버에 전략이 추가되면 여기에 엔트리 하나만 추가하면 된다.
+ */
+
+export type StrategyName = 'no-cache' | 'basic' | 'jitter' | 'jitter-swr' | 'jitter-lock' | 'full';
+
+export interface TtlModel {
+  // none: 캐시 없음, hard: 단일 TTL, soft-hard: soft TTL(SWR) + hard TTL
+  expiry: 'none' | 'hard' | 'soft-hard';
+  // TTL에 jitter(0 ~ jitter-max-seconds)가 더해지는지
+  jitter: boolean;
+}
+
+// 전략이 보장하는 스탬피드 방지 특성 (thresholds.ts에서 pass/fail 기준으로 변환)
+export interface StrategyGuarantees {
+  // 만료 직후 burst에서도 키당 원본 로드 수가 제한됨 (분산 락으로 한 요청만 로드)
+  boundedOriginLoads: boolean;
+  // soft TTL 만료 직후 burst에서도 stale 값을 즉시 반환 (캐시 HIT 수준 지연)
+  staleWhileRevalidate: boolean;
+}
+
+export interface StrategyDefinition {
+  name: StrategyName;
+  endpoint: string;      // GET /api/v1/products/{id}/{endpoint}
+  metaStrategy: string;  // 응답 body의 meta.strategy 값 (full → full-protection 주의)
+  ttlModel: TtlModel;
+  guarantees: StrategyGuarantees;
+  metricPrefix: string;  // k6 메트릭 이름 prefix (예: jitter_swr_response_time)
+  description: string;
+}
+
+export const STRATEGIES: Record<StrategyName, StrategyDefinition> = {
+  'no-cache': {
+    name: 'no-cache',
+    endpoint: 'no-cache',
+    metaStrategy: 'no-cache',
+    ttlModel: { expiry: 'none', jitter: false },
+    guarantees: { boundedOriginLoads: false, staleWhileRevalidate: false },
+    metricPrefix: 'no_cache',
+    description: 'No cache (DB every request)',
+  },
+  'basic': {
+    name: 'basic',
+    endpoint: 'basic',
+    metaStrategy: 'basic',
+    ttlModel: { expiry: 'hard', jitter: false },
+    guarantees: { boundedOriginLoads: false, staleWhileRevalidate: false },
+    metricPrefix: 'basic',
+    description: 'No stampede protection (hard TTL)',
+  },
+  'jitter': {
+    name: 'jitter',
+    endpoint: 'jitter',
+    metaStrategy: 'jitter',
+    ttlModel: { expiry: 'hard', jitter: true },
+    guarantees: { boundedOriginLoads: false, staleWhileRevalidate: false },
+    metricPrefix: 'jitter',
+    description: 'TTL jitter (hard TTL + random jitter)',
+  },
+  'jitter-swr': {
+    name: 'jitter-swr',
+    endpoint: 'jitter-swr',
+    metaStrategy: 'jitter-swr',
+    ttlModel: { expiry: 'soft-hard', jitter: true },
+    guarantees: { boundedOriginLoads: false, staleWhileRevalidate: true },
+    metricPrefix: 'jitter_swr',
+    description: 'SWR (soft TTL expiry)',
+  },
+  'jitter-lock': {
+    name: 'jitter-lock',
+    endpoint: 'jitter-lock',
+    metaStrategy: 'jitter-lock',
+    ttlModel: { expiry: 'hard', jitter: true },
+    guarantees: { boundedOriginLoads: true, staleWhileRevalidate: false },
+    metricPrefix: 'jitter_lock',
+    description: 'Distributed lock (hard TTL)',
+  },
+  'full': {
+    name: 'full',
+    endpoint: 'full',
+    metaStrategy: 'full-protection',
+    ttlModel: { expiry: 'soft-hard', jitter: true },
+    guarantees: { boundedOriginLoads: true, staleWhileRevalidate: true },
+    metricPrefix: 'full',
+    description: 'Full protection (jitter + SWR + lock)',
+  },
+};
+
+export type CachedStrategyName = Exclude<StrategyName, 'no-cache'>;
+
+// 캐시를 사용하는 전략 (비교 테스트 대상, 실행 순서)
+export const CACHED_STRATEGIES: CachedStrategyName[] = ['basic', 'jitter', 'jitter-swr', 'jitter-lock', 'full'];
+
+export function isStrategyName(value: string): value is StrategyName {
+  return Object.prototype.hasOwnProperty.call(STRATEGIES, value);
+}
+
+export function parseStrategyName(value: string): StrategyName {
+  if (!isStrategyName(value)) {
+    throw new Error(`Unknown strategy "${value}" (expected one of: ${Object.keys(STRATEGIES).join(', ')})`);
+  }
+  return value;
+}
+
+// BASE_URLS가 여러 개면 호출마다 BASE_URL_BALANCE 방식으로 인스턴스를 고른다
+export function productUrl(strategy: StrategyName, productId: number): string {
+  return buildBalancedUrl(`/api/v1/products/${productId}/${STRATEGIES[strategy].endpoint}`);
+}
+
+// 응답 body의 meta.strategy가 해당 전략과 일치하는지
+export function matchesStrategyMeta(strategy: StrategyName, body: any): boolean {
+  return body?.meta?.strategy === STRATEGIES[strategy].metaStrategy;
+}
+
+export function strategyMetricName(strategy: StrategyName, suffix: string): string {
+  return `${STRATEGIES[strategy].metricPrefix}_${suffix}`;
+}
+
+/**
+ * 전략별 메트릭 묶음 생성 (k6 메트릭은 init context에서만 생성 가능)
+ * 예: trendFamily('burst_response_time') → { basic: basic_burst_response_time, ... }
+ * 키는 넘긴 전략만 (기본 CACHED_STRATEGIES) - 만들지 않은 전략을 꺼내면 런타임 undefined 대신 타입 에러
+ */
+export function metricFamily<M, S extends StrategyName = CachedStrategyName>(
+  suffix: string,
+  create: (name: string) => M,
+  strategies: readonly S[] = CACHED_STRATEGIES as readonly StrategyName[] as readonly S[],
+): Record<S, M> {
+  const family = {} as Record<S, M>;
+  for (const s of strategies) {
+    family[s] = create(strategyMetricName(s, suffix));
+  }
+  return family;
+}
+
+export function trendFamily<S extends StrategyName = CachedStrategyName>(suffix: string, strategies?: readonly S[]): Record<S, Trend> {
+  return metricFamily(suffix, name => new Trend(name, true), strategies);
+}
+
+export function counterFamily<S extends StrategyName = CachedStrategyName>(suffix: string, strategies?: readonly S[]): Record<S, Counter> {
+  return metricFamily(suffix, name => new Counter(name), strategies);
+}
+
+export function rateFamily<S extends StrategyName = CachedStrategyName>(suffix: string, strategies?: readonly S[]): Record<S, Rate> {
+  return metricFamily(suffix, name => new Rate(name), strategies);
+}
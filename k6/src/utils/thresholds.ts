@@ -0,0 +1,88 @@
+import { defineConfig } from './config';
+import { STRATEGIES, StrategyName } from './strategies';
+
+/**
+ * 전략 보장(StrategyGuarantees) → k6 thresholds
+ *
+ * 보장이 깨지면(예: jitter-lock burst에서 키당 원본 로드 폭증) threshold 실패로 k6가
+ * non-zero로 종료되므로 CI에서 그대로 게이트로 쓸 수 있다.
+ *
+ * - boundedOriginLoads   : burst 구간 키당 원본 로드 수 <= MAX_ORIGIN_LOADS_PER_KEY
+ * - staleWhileRevalidate : stale burst 구간 p99 < STALE_BURST_P99_MS (캐시 HIT 수준)
+ * - 공통                  : 에러율 < MAX_ERROR_RATE
+ */
+
+const env = defineConfig('thresholds', {
+  // burst가 TTL보다 길면 같은 키가 한 번 더 만료될 수 있어 기본 2
+  MAX_ORIGIN_LOADS_PER_KEY: { type: 'number', default: 2, min: 0 },
+  STALE_BURST_P99_MS: { type: 'number', default: 50, min: 0 },
+  MAX_ERROR_RATE: { type: 'number', default: 0.01, min: 0, max: 1 },
+});
+
+export const guaranteeLimits = {
+  maxOriginLoadsPerKey: env.MAX_ORIGIN_LOADS_PER_KEY,
+  staleBurstP99Ms: env.STALE_BURST_P99_MS,
+  maxErrorRate: env.MAX_ERROR_RATE,
+};
+
+export type Thresholds = Record<string, string[]>;
+
+// 시나리오가 측정하는 메트릭 이름 (없는 항목은 해당 기준을 적용하지 않음)
+export interface GuaranteeMetrics {
+  burstMaxLoadsPerKey?: string; // Gauge - burst 구간 키당 최대 원본 로드 수
+  staleBurstLatency?: string;   // Trend - soft TTL 만료 직후(stale) burst 응답 시간
+  errors?: string;              // Rate
+}
+
+export function guaranteeThresholds(strategy: StrategyName, metrics: GuaranteeMetrics): Thresholds {
+  const { guarantees } = STRATEGIES[strategy];
+  const thresholds: Thresholds = {};
+
+  if (guarantees.boundedOriginLoads && metrics.burstMaxLoadsPerKey) {
+    thresholds[metrics.burstMaxLoadsPerKey] = [`value<=${guaranteeLimits.maxOriginLoadsPerKey}`];
+  }
+  if (guarantees.staleWhileRevalidate && metrics.staleBurstLatency) {
+    thresholds[metrics.staleBurstLatency] = [`p(99)<${guaranteeLimits.staleBurstP99Ms}`];
+  }
+  if (metrics.errors) {
+    thresholds[metrics.errors] = [`rate<${guaranteeLimits.maxErrorRate}`];
+  }
+  return thresholds;
+}
+
+export function mergeThresholds(...all: Thresholds[]): Thresholds {
+  const merged: Thresholds = {};
+  for (const t of all) {
+    for (const [metric, rules] of Object.entries(t)) {
+      merged[metric] = [...(merged[metric] ?? []), ...rules];
+    }
+  }
+  return merged;
+}
+
+// handleSummary용: threshold 결과 요약 출력, 하나라도 실패하면 false
+export function printThresholdResults(data: any): boolean {
+  let allOk = true;
+  console.log('--- Strategy Guarantees (thresholds) ---\n');
+  for (const [metric, m] of Object.entries<any>(data.metrics)) {
+    if (!m.thresholds) continue;
+    for (const [rule, result] of Object.entries<any>(m.thresholds)) {
+      if (!result.ok) allOk = false;
+      console.log(`  ${result.ok ? 'PASS' : 'FAIL'}  ${metric}: ${rule}`);
+    }
+  }
+  console.log('');
+  return allOk;
+}
+
+// 실패한 threshold 목록 ("metric: rule") - 실행 간 비교(sweep.js)용
+export function failedThresholds(data: any): string[] {
+  const failed: string[] = [];
+  for (const [metric, m] of Object.entries<any>(data.metrics)) {
+    if (!m.thresholds) continue;
+    for (const [rule, result] of Object.entries<any>(m.thresholds)) {
+      if (!result.ok) failed.push(`${metric}: ${rule}`);
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,173 @@
+import exec from 'k6/execution';
+import { OriginFault } from './faults';
+
+/**
+ * Phase 타임라인 빌더
+ *
+ * warmup → wait → burst → cooldown 같은 순차 phase 목록을 받아
+ * k6 options.scenarios(startTime 포함)를 생성한다.
+ *
+ * - load  : constant-arrival-rate 부하 (타임라인 커서를 duration만큼 전진)
+ * - wait  : 아무 요청도 보내지 않고 커서만 전진 (TTL 만료 대기 등)
+ * - action: 현재 커서 시점에 1회 실행 (invalidate, 측정 probe 등). 커서를 전진시키지 않음
+ * - faults: 현재 커서 시점에 서버 원본 장애를 durationSec 동안 켬 (서버가 time box로 자동 해제). 커서를 전진시키지 않음
+ *
+ * 각 scenario에는 `phase` 태그(+ 추가 태그)가 붙으므로, 해당 phase의 모든 요청/메트릭이
+ * 자동으로 태깅된다. (예: thresholds의 `http_req_duration{phase:burst}`)
+ *
+ * ttlWindow / clearsCache는 실행에는 영향이 없고 dry run(dry-run.ts)이 phase 시점을 TTL 모델과 대조할 때 쓴다.
+ */
+
+export type Tags = Record<string, string>;
+
+// load phase 시작 시점에 hot key가 있어야 할 구간 - stale: soft 만료 ~ hard 만료 / expired: hard 만료 이후 또는 캐시 삭제됨
+export type TtlWindow = 'stale' | 'expired';
+
+interface PhaseBase {
+  name: string;    // scenario 이름 (타임라인 내에서 유일)
+  phase?: string;  // phase 태그 값 (생략 시 name)
+  tags?: Tags;     // 추가 scenario 태그 (예: strategy)
+}
+
+export interface LoadPhase extends PhaseBase {
+  kind: 'load';
+  exec: string;
+  durationSec: number;
+  rps: number;
+  preAllocatedVUs: number;
+  maxVUs: number;
+  ttlWindow?: TtlWindow;
+}
+
+export interface WaitPhase {
+  kind: 'wait';
+  name: string;
+  durationSec: number;
+}
+
+export interface ActionPhase extends PhaseBase {
+  kind: 'action';
+  exec: string;
+  spanSec?: number;        // action이 관찰하는 구간 길이 (예: burst를 감싸는 probe). 기본 0
+  maxDurationSec?: number; // 기본 spanSec + 10초
+  clearsCache?: boolean;   // 캐시 항목을 지우는 action (invalidate / reset)
+}
+
+export interface FaultPhase extends PhaseBase {
+  kind: 'faults';
+  exec?: string;       // 기본 'faults' (시나리오가 runFaultPhase()를 호출하는 함수를 export)
+  durationSec: number; // 장애 유지 시간 - 보통 뒤따르는 burst 길이
+  fault: OriginFault;
+}
+
+export type Phase = LoadPhase | WaitPhase | ActionPhase | FaultPhase;
+
+export interface ScheduledPhase {
+  name: string;
+  kind: Phase['kind'];
+  phase: string;
+  tags: Tags;
+  startSec: number;
+  durationSec: number;
+  exec?: string;
+  fault?: OriginFault;     // faults phase만
+  ttlWindow?: TtlWindow;   // load phase만
+  clearsCache?: boolean;   // action phase만
+}
+
+export interface Timeline {
+  scenarios: Record<string, any>;
+  phases: ScheduledPhase[];
+  totalSec: number;
+}
+
+const DEFAULT_ACTION_MAX_DURATION_SEC = 10;
+const SCENARIO_NAME_PATTERN = /^[0-9A-Za-z_-]+$/;
+
+function seconds(n: number): string {
+  return `${n}s`;
+}
+
+export function buildTimeline(phases: Phase[]): Timeline {
+  const scenarios: Record<string, any> = {};
+  const scheduled: ScheduledPhase[] = [];
+  const names = new Set<string>();
+  let cursor = 0;
+
+  for (const p of phases) {
+    if (!SCENARIO_NAME_PATTERN.test(p.name)) {
+      throw new Error(`Invalid phase name "${p.name}" (allowed: letters, digits, '_' and '-')`);
+    }
+    if (names.has(p.name)) {
+      throw new Error(`Duplicate phase name "${p.name}"`);
+    }
+    names.add(p.name);
+
+    if (p.kind === 'wait') {
+      const durationSec = Math.max(0, p.durationSec);
+      scheduled.push({ name: p.name, kind: 'wait', phase: p.name, tags: {}, startSec: cursor, durationSec });
+      cursor += durationSec;
+      continue;
+    }
+
+    const phase = p.phase ?? p.name;
+    const tags: Tags = { ...(p.tags ?? {}), phase };
+
+    if (p.kind === 'load') {
+      scenarios[p.name] = {
+        executor: 'constant-arrival-rate',
+        rate: p.rps,
+        timeUnit: '1s',
+        duration: seconds(p.durationSec),
+        preAllocatedVUs: Math.min(p.preAllocatedVUs, p.maxVUs),
+        maxVUs: p.maxVUs,
+        startTime: seconds(cursor),
+        exec: p.exec,
+        tags,
+      };
+      scheduled.push({
+        name: p.name, kind: 'load', phase, tags, startSec: cursor, durationSec: p.durationSec, exec: p.exec, ttlWindow: p.ttlWindow,
+      });
+      cursor += p.durationSec;
+    } else if (p.kind === 'faults') {
+      const faultExec = p.exec ?? 'faults';
+      scenarios[p.name] = {
+        executor: 'per-vu-iterations',
+        vus: 1,
+        iterations: 1,
+        maxDuration: seconds(DEFAULT_ACTION_MAX_DURATION_SEC),
+        startTime: seconds(cursor),
+        exec: faultExec,
+        tags,
+      };
+      scheduled.push({ name: p.name, kind: 'faults', phase, tags, startSec: cursor, durationSec: p.durationSec, exec: faultExec, fault: p.fault });
+    } else {
+      const spanSec = Math.max(0, p.spanSec ?? 0);
+      const maxDurationSec = p.maxDurationSec ?? spanSec + DEFAULT_ACTION_MAX_DURATION_SEC;
+      scenarios[p.name] = {
+        executor: 'per-vu-iterations',
+        vus: 1,
+        iterations: 1,
+        maxDuration: seconds(maxDurationSec),
+        startTime: seconds(cursor),
+        exec: p.exec,
+        tags,
+      };
+      scheduled.push({
+        name: p.name, kind: 'action', phase, tags, startSec: cursor, durationSec: spanSec, exec: p.exec, clearsCache: p.clearsCache,
+      });
+    }
+  }
+
+  return { scenarios, phases: scheduled, totalSec: cursor };
+}
+
+// 현재 실행 중인 scenario에 해당하는 phase (VU 컨텍스트에서만 호출 가능)
+export function currentPhase(timeline: Timeline): ScheduledPhase {
+  const name = exec.scenario.name;
+  const found = timeline.phases.find(p => p.name === name);
+  if (!found) {
+    throw new Error(`Scenario "${name}" is not part of the timeline`);
+  }
+  return found;
+}
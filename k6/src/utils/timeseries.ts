@@ -0,0 +1,105 @@
+import exec from 'k6/execution';
+import { Counter, Trend } from 'k6/metrics';
+import { defineConfig } from './config';
+import { currentPhase, Timeline } from './timeline';
+
+/**
+ * 초 단위 시계열 메트릭
+ *
+ * handleSummary에는 집계값만 전달되므로, 시간 구간(bucket)마다 별도 메트릭을 init context에서 미리 만들고
+ * 샘플을 경과 시간에 맞는 bucket 메트릭에 기록한다. (예: ts_response_time_t0012 = 12~13초 구간)
+ * bucket 수는 테스트 길이 / BUCKET_SEC 이므로 타임라인 길이(timeline.totalSec)에서 결정한다.
+ */
+
+export const DEFAULT_BUCKET_SEC = defineConfig('timeseries', {
+  BUCKET_SEC: { type: 'number', default: 1, min: 1 },
+}).BUCKET_SEC;
+
+export type SeriesKind = 'trend' | 'counter';
+
+export interface SeriesSpec {
+  name: string;      // bucket 메트릭 이름 prefix
+  kind: SeriesKind;
+  totalSec: number;
+  bucketSec: number;
+}
+
+export interface TimeSeries extends SeriesSpec {
+  add(value: number, elapsedSec: number): void;
+}
+
+// summary에서 읽어낸 bucket 하나
+export interface SeriesPoint {
+  startSec: number;
+  count: number;   // trend: 샘플 수, counter: 합계
+  avg?: number;
+  p50?: number;
+  p95?: number;
+  p99?: number;
+  max?: number;
+}
+
+function bucketMetricName(name: string, index: number): string {
+  return `${name}_t${String(index).padStart(4, '0')}`;
+}
+
+function bucketCount(spec: SeriesSpec): number {
+  return Math.ceil(spec.totalSec / spec.bucketSec);
+}
+
+export function createTimeSeries(
+  name: string,
+  kind: SeriesKind,
+  totalSec: number,
+  bucketSec: number = DEFAULT_BUCKET_SEC,
+): TimeSeries {
+  const spec: SeriesSpec = { name, kind, totalSec, bucketSec };
+  const buckets: (Trend | Counter)[] = [];
+  for (let i = 0; i < bucketCount(spec); i++) {
+    const metricName = bucketMetricName(name, i);
+    buckets.push(kind === 'trend' ? new Trend(metricName, true) : new Counter(metricName));
+  }
+
+  return {
+    ...spec,
+    add(value: number, elapsedSec: number) {
+      const index = Math.floor(elapsedSec / bucketSec);
+      // graceful stop 등으로 타임라인 밖에서 끝난 요청은 마지막 bucket에 포함
+      buckets[Math.min(Math.max(index, 0), buckets.length - 1)]?.add(value);
+    },
+  };
+}
+
+/**
+ * 테스트 시작(첫 scenario 시작) 기준 경과 시간(초) - VU 컨텍스트에서만 호출 가능
+ * timeline을 주면 scenario의 startTime 오프셋(phase.startSec)을 더한다.
+ */
+export function elapsedSec(timeline?: Timeline): number {
+  const offset = timeline ? currentPhase(timeline).startSec : 0;
+  return offset + (Date.now() - exec.scenario.startTime) / 1000;
+}
+
+export function readTimeSeries(data: any, spec: SeriesSpec): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+  for (let i = 0; i < bucketCount(spec); i++) {
+    const values = data.metrics[bucketMetricName(spec.name, i)]?.values;
+    const startSec = i * spec.bucketSec;
+    if (!values) {
+      points.push({ startSec, count: 0 });
+    } else if (spec.kind === 'counter') {
+      points.push({ startSec, count: values.count ?? 0 });
+    } else {
+      points.push({
+        startSec,
+        count: values.count ?? 0,
+        avg: values.avg,
+        p50: values.med,
+        p95: values['p(95)'],
+        p99: values['p(99)'],
+        max: values.max,
+      });
+    }
+  }
+  return points;
+}
+
@@ -0,0 +1,97 @@
+import http from 'k6/http';
+import { buildUrl, configSource, defineConfig } from './config';
+import { STRATEGIES, StrategyName } from './strategies';
+
+/**
+ * 서버 TTL 모델
+ *
+ * 시나리오의 wait/burst 오프셋은 모두 여기서 파생한다. options는 init context에서 결정되므로
+ * (init context에서는 HTTP 요청 불가) 값은 ENV(기본값 = application.yml)로 받고,
+ * setup()에서 서버의 실제 설정(GET /api/v1/admin/cache/properties)과 대조해 다르면 즉시 실패시킨다.
+ */
+
+// 서버 CacheProperties (cache.stampede.*)
+export interface CacheProperties {
+  baseTtlSeconds: number;
+  jitterMaxSeconds: number;
+  softTtlRatio: number;
+  lockTimeoutSeconds: number;
+  lockRetryIntervalMs: number;
+  lockMaxRetries: number;
+}
+
+const env = defineConfig('ttl', {
+  BASE_TTL_SEC: { type: 'number', default: 20, min: 1 },         // cache.stampede.base-ttl-seconds
+  JITTER_MAX_SEC: { type: 'number', default: 5, min: 0 },        // cache.stampede.jitter-max-seconds
+  SOFT_TTL_RATIO: { type: 'number', default: 0.5, min: 0, max: 1 }, // cache.stampede.soft-ttl-ratio
+});
+
+export const ttl = {
+  baseTtlSec: env.BASE_TTL_SEC,
+  jitterMaxSec: env.JITTER_MAX_SEC,
+  softTtlRatio: env.SOFT_TTL_RATIO,
+};
+
+// 캐시 저장 시점 기준 만료 시각(초)의 범위 - jitter(0 ~ jitterMax)에 따라 earliest~latest
+export interface TtlBoundaries {
+  softEarliest?: number;
+  softLatest?: number;
+  hardEarliest: number;
+  hardLatest: number;
+}
+
+export function ttlBoundaries(strategy: StrategyName): TtlBoundaries | undefined {
+  const model = STRATEGIES[strategy].ttlModel;
+  if (model.expiry === 'none') return undefined;
+
+  const jitter = model.jitter ? ttl.jitterMaxSec : 0;
+  const boundaries: TtlBoundaries = {
+    hardEarliest: ttl.baseTtlSec,
+    hardLatest: ttl.baseTtlSec + jitter,
+  };
+  if (model.expiry === 'soft-hard') {
+    boundaries.softEarliest = ttl.baseTtlSec * ttl.softTtlRatio;
+    boundaries.softLatest = (ttl.baseTtlSec + jitter) * ttl.softTtlRatio;
+  }
+  return boundaries;
+}
+
+const CHECKED_PROPERTIES: { env: string; property: keyof CacheProperties; value: () => number }[] = [
+  { env: 'BASE_TTL_SEC', property: 'baseTtlSeconds', value: () => ttl.baseTtlSec },
+  { env: 'JITTER_MAX_SEC', property: 'jitterMaxSeconds', value: () => ttl.jitterMaxSec },
+  { env: 'SOFT_TTL_RATIO', property: 'softTtlRatio', value: () => ttl.softTtlRatio },
+];
+
+export function fetchCacheProperties(): CacheProperties {
+  const res = http.get(buildUrl('/api/v1/admin/cache/properties'), {
+    tags: { name: 'admin_cache_properties' },
+  });
+  if (res.status !== 200) {
+    throw new Error(`Failed to fetch cache properties: status=${res.status}`);
+  }
+  return JSON.parse(res.body as string) as CacheProperties;
+}
+
+/**
+ * setup()에서 호출: 서버 설정과 k6 TTL 모델이 다르면 예외로 테스트를 중단한다.
+ * (burst가 stale 구간 밖에 떨어져 결과가 무의미해지는 것을 방지)
+ */
+export function verifyTtlAgainstServer(): CacheProperties {
+  const server = fetchCacheProperties();
+
+  const problems = CHECKED_PROPERTIES
+    .filter(c => Math.abs(c.value() - server[c.property]) > 1e-9)
+    .map(c => configSource(c.env) === 'env'
+      ? `${c.env}=${c.value()} contradicts server ${c.property}=${server[c.property]}`
+      : `${c.env} defaults to ${c.value()} but server ${c.property}=${server[c.property]} (run with ${c.env}=${server[c.property]})`);
+
+  if (problems.length > 0) {
+    throw new Error(`TTL model does not match the server:\n  ${problems.join('\n  ')}`);
+  }
+
+  console.log(
+    `TTL model verified: baseTtl=${server.baseTtlSeconds}s, jitterMax=${server.jitterMaxSeconds}s, ` +
+    `softTtlRatio=${server.softTtlRatio}, lockTimeout=${server.lockTimeoutSeconds}s`,
+  );
+  return server;
+}
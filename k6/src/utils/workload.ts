@@ -1,40 +1,157 @@
-// K6 글로벌 변수
-declare const __ENV: { [key: string]: string };
+import { defineConfig } from './config';
+import { ensureCatalog, SeededCatalog } from './seed';
 
-function envNumber(name: string, fallback: number): number {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  if (v === undefined || v === '') return fallback;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
+/**
+ * 요청 키(상품 ID) 분포
+ *
+ * - hot-key  : 키스페이스 첫 번째 키에 HOT_KEY_RATIO, 나머지는 균등 (스탬피드 재현용 기본값)
+ * - uniform  : 전체 균등
+ * - zipf     : 순위 k의 가중치 1 / k^ZIPF_EXPONENT (다수의 hot key + long tail)
+ * - weighted : 앞쪽 키들에 HOT_KEY_WEIGHTS(csv) 가중치, 남은 비율은 나머지 키에 균등
+ * - shifting : HOT_SET_SIZE개의 hot set에 HOT_SET_RATIO, HOT_SET_SHIFT_SEC마다 hot set이 다음 키들로 이동
+ *
+ * 키스페이스 순서가 곧 순위(rank)다. 상품이 없으면 setup에서 시드한 ID를 쓴다. (seed.ts)
+ */
+export type KeyDistribution = 'hot-key' | 'uniform' | 'zipf' | 'weighted' | 'shifting';
 
-function envString(name: string, fallback: string): string {
-  const v = typeof __ENV !== 'undefined' ? __ENV[name] : undefined;
-  return v && v.length > 0 ? v : fallback;
-}
+const KEY_DISTRIBUTIONS: KeyDistribution[] = ['hot-key', 'uniform', 'zipf', 'weighted', 'shifting'];
 
-function parseIdList(csv: string): number[] {
-  return csv
-    .split(',')
-    .map(s => s.trim())
-    .filter(Boolean)
-    .map(s => Number(s))
-    .filter(n => Number.isFinite(n));
-}
+const env = defineConfig('workload', {
+  HOT_KEY_ID: { type: 'number', default: 1, min: 1, integer: true },
+  HOT_KEY_RATIO: { type: 'number', default: 0.95, min: 0, max: 1 },
+  COLD_KEY_IDS: { type: 'numbers', default: [2, 3] },
+  PRODUCT_IDS: { type: 'numbers', default: [] },
+  KEY_DISTRIBUTION: { type: 'string', default: '', choices: KEY_DISTRIBUTIONS },
+  ZIPF_EXPONENT: { type: 'number', default: 1.0, min: 0 },
+  HOT_KEY_WEIGHTS: { type: 'numbers', default: [0.5, 0.2, 0.1] },
+  HOT_SET_SIZE: { type: 'number', default: 3, min: 1, integer: true },
+  HOT_SET_RATIO: { type: 'number', default: 0.9, min: 0, max: 1 },
+  HOT_SET_SHIFT_SEC: { type: 'number', default: 30, min: 1 },
+});
 
 export const workload = {
   // 스탬피드는 "핫 키(Hot key)"에 트래픽이 몰릴 때 발생
-  hotKeyId: envNumber('HOT_KEY_ID', 1),
-  hotKeyRatio: envNumber('HOT_KEY_RATIO', 0.95), // 95%를 hot key로
-  coldKeyIds: parseIdList(envString('COLD_KEY_IDS', '2,3')),
+  hotKeyId: env.HOT_KEY_ID,
+  hotKeyRatio: env.HOT_KEY_RATIO, // 95%를 hot key로
+  coldKeyIds: env.COLD_KEY_IDS,
+  productIds: env.PRODUCT_IDS, // 지정 시 hot/cold 대신 이 순서로 키스페이스 구성
+  distribution: env.KEY_DISTRIBUTION as KeyDistribution | '', // 비어 있으면 시나리오 기본값
+  zipfExponent: env.ZIPF_EXPONENT,
+  hotKeyWeights: env.HOT_KEY_WEIGHTS,
+  hotSetSize: env.HOT_SET_SIZE,
+  hotSetRatio: env.HOT_SET_RATIO,
+  hotSetShiftSec: env.HOT_SET_SHIFT_SEC,
 };
 
-export function pickProductId(): number {
-  const r = Math.random();
-  if (r < workload.hotKeyRatio) return workload.hotKeyId;
+// setup()에서 만들어 VU 함수로 전달 (shifting 분포의 시간 기준 포함)
+export interface Keyspace extends SeededCatalog {
+  distribution: KeyDistribution;
+  startedAtMs: number;
+}
+
+/**
+ * setup()에서 호출 - 키스페이스(ID 목록 + 분포)를 결정
+ * 우선순위: CATALOG_SIZE(시드) > PRODUCT_IDS > HOT_KEY_ID + COLD_KEY_IDS (없으면 시드로 대체)
+ */
+export function resolveKeyspace(defaultDistribution: KeyDistribution = 'hot-key'): Keyspace {
+  const configuredIds = workload.productIds.length > 0
+    ? workload.productIds
+    : [workload.hotKeyId, ...workload.coldKeyIds.filter(id => id !== workload.hotKeyId)];
+
+  return {
+    ...ensureCatalog(configuredIds),
+    distribution: workload.distribution || defaultDistribution,
+    startedAtMs: Date.now(),
+  };
+}
+
+export function describeKeyspace(keyspace: Keyspace): string {
+  const { ids, distribution } = keyspace;
+  const range = ids.length > 5 ? `${ids.slice(0, 5).join(',')},... (${ids.length} keys)` : ids.join(',');
+  switch (distribution) {
+    case 'hot-key':
+      return `keys=${range}, distribution=hot-key (hot=${ids[0]}, ratio=${workload.hotKeyRatio})`;
+    case 'zipf':
+      return `keys=${range}, distribution=zipf (s=${workload.zipfExponent})`;
+    case 'weighted':
+      return `keys=${range}, distribution=weighted (weights=${workload.hotKeyWeights.join(',')})`;
+    case 'shifting':
+      return `keys=${range}, distribution=shifting (size=${workload.hotSetSize}, ratio=${workload.hotSetRatio}, every ${workload.hotSetShiftSec}s)`;
+    default:
+      return `keys=${range}, distribution=${distribution}`;
+  }
+}
+
+// 앞쪽 키들에 head 가중치를 주고 남은 비율을 나머지 키에 균등 분배
+function headAndTail(n: number, head: number[]): number[] {
+  const headSum = head.slice(0, n).reduce((a, b) => a + b, 0);
+  const tailCount = n - Math.min(head.length, n);
+  const tailWeight = tailCount > 0 ? Math.max(0, 1 - headSum) / tailCount : 0;
+  return Array.from({ length: n }, (_, i) => (i < head.length ? head[i] : tailWeight));
+}
+
+// shifting: epoch마다 hot set 시작 위치를 hotSetSize만큼 이동 (키스페이스 끝에서 순환)
+function shiftingWeights(n: number, epoch: number): number[] {
+  const size = Math.min(Math.max(1, workload.hotSetSize), n);
+  const start = (epoch * size) % n;
+  const hot = new Set(Array.from({ length: size }, (_, j) => (start + j) % n));
+  const coldCount = n - size;
+  const hotWeight = (coldCount > 0 ? workload.hotSetRatio : 1) / size;
+  const coldWeight = coldCount > 0 ? (1 - workload.hotSetRatio) / coldCount : 0;
+  return Array.from({ length: n }, (_, i) => (hot.has(i) ? hotWeight : coldWeight));
+}
+
+function weightsFor(distribution: KeyDistribution, n: number, epoch: number): number[] {
+  switch (distribution) {
+    case 'hot-key':
+      return n === 1 ? [1] : headAndTail(n, [workload.hotKeyRatio]);
+    case 'zipf':
+      return Array.from({ length: n }, (_, i) => 1 / Math.pow(i + 1, workload.zipfExponent));
+    case 'weighted':
+      return headAndTail(n, workload.hotKeyWeights);
+    case 'shifting':
+      return shiftingWeights(n, epoch);
+    default:
+      return Array.from({ length: n }, () => 1);
+  }
+}
 
-  if (workload.coldKeyIds.length === 0) return workload.hotKeyId;
-  const idx = Math.floor(Math.random() * workload.coldKeyIds.length);
-  return workload.coldKeyIds[idx];
+function cumulative(weights: number[]): number[] {
+  const cdf: number[] = [];
+  let sum = 0;
+  for (const w of weights) {
+    sum += Math.max(0, w);
+    cdf.push(sum);
+  }
+  return cdf;
 }
 
+// VU별 캐시 - 같은 키스페이스/epoch에 대해 누적 분포를 다시 계산하지 않음
+let cachedSampler: { keyspace: Keyspace; epoch: number; cdf: number[] } | undefined;
+
+function samplerFor(keyspace: Keyspace): number[] {
+  const epoch = keyspace.distribution === 'shifting'
+    ? Math.floor((Date.now() - keyspace.startedAtMs) / 1000 / Math.max(1, workload.hotSetShiftSec))
+    : 0;
+  if (!cachedSampler || cachedSampler.keyspace !== keyspace || cachedSampler.epoch !== epoch) {
+    cachedSampler = { keyspace, epoch, cdf: cumulative(weightsFor(keyspace.distribution, keyspace.ids.length, epoch)) };
+  }
+  return cachedSampler.cdf;
+}
+
+export function pickProductId(keyspace: Keyspace): number {
+  const cdf = samplerFor(keyspace);
+  const total = cdf[cdf.length - 1];
+  if (!(total > 0)) return keyspace.ids[0];
+
+  // 누적 분포에서 이진 탐색
+  const r = Math.random() * total;
+  let lo = 0;
+  let hi = cdf.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (r < cdf[mid]) hi = mid;
+    else lo = mid + 1;
+  }
+  return keyspace.ids[lo];
+}
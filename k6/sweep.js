@@ -0,0 +1,277 @@
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * 파라미터 sweep runner - 전략 × 부하 matrix
+ *
+ * 그리드의 모든 조합 × 모든 전략에 대해 stampede-simulation을 한 번씩 실행하고(k6 run),
+ * 실행마다 남는 results/stampede-simulation-run.json을 모아 하나의 matrix로 만든다.
+ *
+ *   node sweep.js BURST_RPS=200,400,800 HOT_KEY_RATIO=0.9,0.99 --strategies basic,jitter-lock
+ *
+ * - 그리드 인자(NAME=v1,v2,...)는 k6 환경변수로 그대로 전달된다. 고정값(MODE, KEY_DISTRIBUTION 등)은 일반 환경변수로 준다.
+ * - 서버 TTL 설정(SOFT_TTL_RATIO / BASE_TTL_SEC / JITTER_MAX_SEC)은 서버도 같은 값이어야 한다.
+ *   SWEEP_SERVER_CMD를 주면 값이 바뀔 때마다 CACHE_STAMPEDE_* 환경변수와 함께 실행한다. (서버를 재시작하고 준비되면 끝나는 명령)
+ *   서버 설정이 다르면 그 조합의 실행은 건너뛴다. (k6 setup의 TTL 모델 검증에서 어차피 실패)
+ * - breaking point: BURST_RPS가 그리드에 있으면 나머지 파라미터 조합마다 전략별로 threshold가 처음 깨진 최저 RPS
+ * - 결과: results/sweep/ (실행별 run JSON / k6 로그, matrix.json / matrix.csv / matrix.md)
+ */
+
+const SCRIPT = path.resolve(__dirname, 'dist/stampede-simulation.js');
+const RUN_FILE = path.resolve(__dirname, 'results/stampede-simulation-run.json');
+const OUT_DIR = path.resolve(__dirname, process.env.SWEEP_OUT || 'results/sweep');
+const BASE_URL = process.env.BASE_URL || 'http://localhost:8080';
+const SERVER_CMD = process.env.SWEEP_SERVER_CMD;
+const RUN_TIMEOUT_SEC = Number(process.env.SWEEP_RUN_TIMEOUT_SEC || 600);
+
+const DEFAULT_STRATEGIES = ['basic', 'jitter', 'jitter-swr', 'jitter-lock', 'full'];
+const DEFAULT_GRID = { BURST_RPS: ['200', '400', '800', '1600'] };
+
+// k6 TTL 모델 환경변수 → 서버 설정 (서버 환경변수 / GET /api/v1/admin/cache/properties 필드)
+const SERVER_PARAMS = {
+  BASE_TTL_SEC: { serverEnv: 'CACHE_STAMPEDE_BASE_TTL_SECONDS', property: 'baseTtlSeconds' },
+  JITTER_MAX_SEC: { serverEnv: 'CACHE_STAMPEDE_JITTER_MAX_SECONDS', property: 'jitterMaxSeconds' },
+  SOFT_TTL_RATIO: { serverEnv: 'CACHE_STAMPEDE_SOFT_TTL_RATIO', property: 'softTtlRatio' },
+};
+
+function parseArgs(argv) {
+  const grid = {};
+  let strategies = DEFAULT_STRATEGIES;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--strategies') {
+      strategies = (argv[++i] || '').split(',').map(s => s.trim()).filter(Boolean);
+      continue;
+    }
+    const match = /^([A-Z][A-Z0-9_]*)=(.+)$/.exec(arg);
+    if (!match) {
+      throw new Error(`Unknown argument "${arg}" (expected NAME=v1,v2,... or --strategies a,b)`);
+    }
+    grid[match[1]] = match[2].split(',').map(v => v.trim()).filter(Boolean);
+  }
+  if (strategies.length === 0) throw new Error('--strategies needs at least one strategy');
+  return { grid: Object.keys(grid).length > 0 ? grid : DEFAULT_GRID, strategies };
+}
+
+// 모든 조합 - 서버 파라미터를 가장 바깥에 두어 서버 재시작 횟수를 줄인다
+function gridNames(grid) {
+  const names = Object.keys(grid);
+  return [...names.filter(n => n in SERVER_PARAMS), ...names.filter(n => !(n in SERVER_PARAMS))];
+}
+
+function gridPoints(grid) {
+  return gridNames(grid).reduce(
+    (points, name) => points.flatMap(point => grid[name].map(value => ({ ...point, [name]: value }))),
+    [{}],
+  );
+}
+
+function describePoint(point) {
+  return Object.entries(point).map(([k, v]) => `${k}=${v}`).join(' ');
+}
+
+function serverPart(point) {
+  return Object.fromEntries(Object.entries(point).filter(([name]) => name in SERVER_PARAMS));
+}
+
+// 서버 설정을 이 조합에 맞춤 - 맞지 않으면 건너뛸 이유 반환
+async function prepareServer(point) {
+  const params = serverPart(point);
+  if (Object.keys(params).length === 0) return null;
+
+  if (SERVER_CMD) {
+    const serverEnv = Object.fromEntries(Object.entries(params).map(([name, v]) => [SERVER_PARAMS[name].serverEnv, v]));
+    console.log(`Restarting server: ${describePoint(serverEnv)} ${SERVER_CMD}`);
+    const result = spawnSync(SERVER_CMD, { shell: true, stdio: 'inherit', env: { ...process.env, ...serverEnv } });
+    if (result.status !== 0) return `SWEEP_SERVER_CMD failed (exit ${result.status})`;
+  }
+
+  let server;
+  try {
+    const res = await fetch(`${BASE_URL}/api/v1/admin/cache/properties`);
+    if (!res.ok) return `cannot read server cache properties (status ${res.status})`;
+    server = await res.json();
+  } catch (err) {
+    return `cannot reach server (${err.message})`;
+  }
+  const mismatched = Object.entries(params)
+    .filter(([name, v]) => Math.abs(Number(v) - server[SERVER_PARAMS[name].property]) > 1e-9)
+    .map(([name]) => `${SERVER_PARAMS[name].property}=${server[SERVER_PARAMS[name].property]}`);
+  return mismatched.length > 0 ? `server has ${mismatched.join(', ')}` : null;
+}
+
+// 러너 전용 SWEEP_* 변수는 k6에 넘기지 않음 (k6는 모르는 *_SEC 등을 오타로 거부)
+function k6Env(point, strategy) {
+  const env = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith('SWEEP_')));
+  return { ...env, ...point, STRATEGY: strategy };
+}
+
+// k6 종료 코드 99 = threshold 실패 (전략 보장이 깨짐)
+function runPoint(point, strategy, runId) {
+  fs.rmSync(RUN_FILE, { force: true });
+  const log = fs.openSync(path.join(OUT_DIR, `${runId}.log`), 'w');
+  const result = spawnSync('k6', ['run', SCRIPT], {
+    env: k6Env(point, strategy),
+    stdio: ['ignore', log, log],
+    timeout: RUN_TIMEOUT_SEC * 1000,
+  });
+  fs.closeSync(log);
+
+  if (result.error) return { status: 'error', reason: result.error.message };
+  if (!fs.existsSync(RUN_FILE)) {
+    return { status: 'error', reason: `k6 exited with ${result.status} without a run summary (see ${runId}.log)` };
+  }
+  const summary = JSON.parse(fs.readFileSync(RUN_FILE, 'utf8'));
+  fs.copyFileSync(RUN_FILE, path.join(OUT_DIR, `${runId}.json`));
+
+  if (summary.failedThresholds.length > 0) return { status: 'broken', summary };
+  if (result.status !== 0) return { status: 'error', reason: `k6 exited with ${result.status}`, summary };
+  return { status: 'ok', summary };
+}
+
+function formatCell(run, metric) {
+  if (run.status === 'skipped' || !run.summary) return run.status;
+  const mark = run.status === 'broken' ? ' ✗' : run.status === 'error' ? ' (error)' : '';
+  const s = run.summary;
+  switch (metric) {
+    case 'loads': return `${s.burstOriginLoads} / ${s.burstKeys}${mark}`;
+    case 'p99': return `${s.burstP99Ms === null ? '-' : s.burstP99Ms.toFixed(1)}${mark}`;
+    case 'errors': return `${(s.errorRate * 100).toFixed(2)}%${mark}`;
+  }
+}
+
+function markdownTable(header, rows) {
+  const line = cells => `| ${cells.join(' | ')} |`;
+  return [line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n');
+}
+
+// 나머지 파라미터 조합별로 전략마다 threshold가 처음 깨진 최저 BURST_RPS
+function breakingPoints(names, strategies, runs) {
+  const others = names.filter(n => n !== 'BURST_RPS');
+  const groups = new Map();
+  runs.forEach(run => {
+    const key = others.map(n => run.point[n]).join('\u0000');
+    if (!groups.has(key)) groups.set(key, { values: others.map(n => run.point[n]), runs: [] });
+    groups.get(key).runs.push(run);
+  });
+
+  const rows = [...groups.values()].map(group => [
+    ...group.values,
+    ...strategies.map(strategy => {
+      const byRps = group.runs
+        .filter(r => r.strategy === strategy)
+        .sort((a, b) => Number(a.point.BURST_RPS) - Number(b.point.BURST_RPS));
+      const broken = byRps.find(r => r.status === 'broken');
+      if (broken) return broken.point.BURST_RPS;
+      const max = byRps[byRps.length - 1]?.point.BURST_RPS;
+      return byRps.some(r => r.status !== 'ok') ? `> ${max}?` : `> ${max}`;
+    }),
+  ]);
+  return markdownTable([...others, ...strategies], rows);
+}
+
+function renderMarkdown(grid, strategies, runs) {
+  const names = gridNames(grid);
+  const points = gridPoints(grid);
+  const metricTable = metric => markdownTable(
+    [...names, ...strategies],
+    points.map(point => [
+      ...names.map(n => point[n]),
+      ...strategies.map(strategy => formatCell(
+        runs.find(r => r.strategy === strategy && describePoint(r.point) === describePoint(point)),
+        metric,
+      )),
+    ]),
+  );
+
+  const sections = [
+    '# Stampede Simulation Sweep',
+    `Grid: ${names.map(n => `${n}=${grid[n].join(',')}`).join(' ')}, strategies: ${strategies.join(', ')}`,
+    '✗ = strategy guarantee thresholds failed (k6 exit 99), skipped = server TTL settings did not match, '
+      + '`> N?` = not broken up to N but some runs errored or were skipped',
+    '## Origin loads (burst, server) / keys',
+    metricTable('loads'),
+    '## Burst p99 (ms)',
+    metricTable('p99'),
+    '## Error rate',
+    metricTable('errors'),
+    '## Breaking point (lowest BURST_RPS with failed thresholds)',
+    grid.BURST_RPS
+      ? breakingPoints(names, strategies, runs)
+      : 'BURST_RPS is not part of the grid.',
+  ];
+  const failures = runs.filter(r => r.summary && r.summary.failedThresholds.length > 0);
+  if (failures.length > 0) {
+    sections.push('## Failed thresholds', failures.map(r =>
+      `- ${r.strategy} ${describePoint(r.point)}: ${r.summary.failedThresholds.join('; ')}`).join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+const CSV_COLUMNS = [
+  'strategy', 'status', 'burst_origin_loads', 'burst_keys', 'burst_max_loads_per_key', 'burst_p99_ms', 'error_rate',
+  'failed_thresholds', 'reason',
+];
+
+function csvCell(v) {
+  if (v === undefined || v === null) return '';
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function renderCsv(grid, runs) {
+  const names = gridNames(grid);
+  const lines = runs.map(run => {
+    const s = run.summary || {};
+    return [
+      ...names.map(n => run.point[n]),
+      run.strategy, run.status, s.burstOriginLoads, s.burstKeys, s.burstMaxLoadsPerKey, s.burstP99Ms, s.errorRate,
+      (s.failedThresholds || []).join('; '), run.reason,
+    ].map(csvCell).join(',');
+  });
+  return [[...names, ...CSV_COLUMNS].join(','), ...lines].join('\n') + '\n';
+}
+
+async function main() {
+  const { grid, strategies } = parseArgs(process.argv.slice(2));
+  if (!fs.existsSync(SCRIPT)) {
+    throw new Error(`${path.relative(__dirname, SCRIPT)} not found (run yarn build first)`);
+  }
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+
+  const points = gridPoints(grid);
+  const total = points.length * strategies.length;
+  console.log(`Sweep: ${points.length} grid points x ${strategies.length} strategies = ${total} runs → ${OUT_DIR}`);
+
+  const runs = [];
+  let serverKey;
+  let skipReason = null;
+  for (const point of points) {
+    const key = JSON.stringify(serverPart(point));
+    if (key !== serverKey) {
+      serverKey = key;
+      skipReason = await prepareServer(point);
+    }
+
+    for (const strategy of strategies) {
+      const runId = `${String(runs.length + 1).padStart(3, '0')}-${strategy}`;
+      const run = skipReason
+        ? { status: 'skipped', reason: skipReason }
+        : runPoint(point, strategy, runId);
+      runs.push({ point, strategy, ...run });
+      console.log(`[${runs.length}/${total}] ${describePoint(point)} ${strategy} → ${run.status}${run.reason ? ` (${run.reason})` : ''}`);
+    }
+  }
+
+  const markdown = renderMarkdown(grid, strategies, runs);
+  fs.writeFileSync(path.join(OUT_DIR, 'matrix.json'), JSON.stringify({ grid, strategies, runs }, null, 2));
+  fs.writeFileSync(path.join(OUT_DIR, 'matrix.csv'), renderCsv(grid, runs));
+  fs.writeFileSync(path.join(OUT_DIR, 'matrix.md'), markdown);
+  console.log(`\n${markdown}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+package com.example.cachestampede.application.product
+
+import io.micrometer.core.instrument.Counter
+import io.micrometer.core.instrument.MeterRegistry
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Component
+import java.time.Clock
+import java.time.Instant
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.ThreadLocalRandom
+import java.util.concurrent.TimeUnit
+import java.util.concurrent.atomic.AtomicReference
+
+/**
+ * 원본(DB) 로드 장애 주입 - 로드 테스트용 훅
+ *
+ * ProductService.findById가 원본 로드마다 apply()를 호출한다. 기본값은 장애 없음이며
+ * 관리 API(/api/v1/admin/faults/origin)로만 바꾼다.
+ * - delayMs        : 기본 조회 지연(100ms)에 더하는 지연 (느린 원본 / 락 TTL을 넘기는 로더 재현)
+ * - errorRate      : 로드가 OriginFaultException으로 실패할 확률 (0.0 ~ 1.0)
+ * - productIds     : 장애 대상 상품 ID (null = 전체)
+ * - durationSeconds: 설정 후 이 시간이 지나면 자동 해제 (null = 해제할 때까지 유지)
+ *
+ * 주입 횟수는 origin.fault.injected{strategy, type=delay|error}로 기록한다.
+ */
+@Component
+class OriginFaultInjector(
+    private val meterRegistry: MeterRegistry,
+    private val clock: Clock = Clock.systemUTC()
+) {
+    private val log = LoggerFactory.getLogger(javaClass)
+    private val state = AtomicReference(OriginFaultStatus.NONE)
+    private val counters = ConcurrentHashMap<Pair<String, String>, Counter>()
+
+    /**
+     * 현재 적용 중인 장애 (time box가 끝났으면 장애 없음)
+     */
+    fun current(): OriginFaultStatus {
+        val status = state.get()
+        val expiresAt = status.expiresAt ?: return status
+        return if (clock.instant().isBefore(expiresAt)) status else OriginFaultStatus.NONE
+    }
+
+    fun update(fault: OriginFault): OriginFaultStatus {
+        val status = OriginFaultStatus(
+            fault = fault,
+            expiresAt = fault.durationSeconds?.let { clock.instant().plusSeconds(it) }
+        )
+        state.set(status)
+        log.warn("Origin fault updated: {}", status)
+        return status
+    }
+
+    fun clear(): OriginFaultStatus = update(OriginFault.NONE)
+
+    /**
+     * @param strategy 원본 로드를 유발한 캐시 전략 (meta.strategy 값, 주입 횟수 집계용)
+     */
+    fun apply(id: Long, strategy: String) {
+        val fault = current().fault
+        if (!fault.targets(id)) return
+
+        if (fault.delayMs > 0) {
+            counter(strategy, "delay").increment()
+            TimeUnit.MILLISECONDS.sleep(fault.delayMs)
+        }
+        if (fault.errorRate > 0 && ThreadLocalRandom.current().nextDouble() < fault.errorRate) {
+            counter(strategy, "error").increment()
+            throw OriginFaultException(id)
+        }
+    }
+
+    private fun counter(strategy: String, type: String): Counter =
+        counters.computeIfAbsent(strategy to type) {
+            Counter.builder("origin.fault.injected")
+                .tag("strategy", strategy)
+                .tag("type", type)
+                .register(meterRegistry)
+        }
+}
+
+data class OriginFault(
+    val delayMs: Long = 0,
+    val errorRate: Double = 0.0,
+    val productIds: Set<Long>? = null,
+    val durationSeconds: Long? = null
+) {
+    init {
+        require(delayMs >= 0) { "delayMs must not be negative: $delayMs" }
+        require(errorRate in 0.0..1.0) { "errorRate must be between 0.0 and 1.0: $errorRate" }
+        require(durationSeconds == null || durationSeconds > 0) { "durationSeconds must be positive: $durationSeconds" }
+    }
+
+    fun targets(id: Long): Boolean = productIds == null || id in productIds
+
+    companion object {
+        val NONE = OriginFault()
+    }
+}
+
+data class OriginFaultStatus(
+    val fault: OriginFault,
+    val expiresAt: Instant?
+) {
+    companion object {
+        val NONE = OriginFaultStatus(OriginFault.NONE, null)
+    }
+}
+
+class OriginFaultException(id: Long) : RuntimeException("Injected origin failure: id=$id")
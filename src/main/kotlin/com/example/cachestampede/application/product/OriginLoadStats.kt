@@ -0,0 +1,55 @@
+package com.example.cachestampede.application.product
+
+import io.micrometer.core.instrument.Counter
+import io.micrometer.core.instrument.MeterRegistry
+import org.springframework.stereotype.Component
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.LongAdder
+
+/**
+ * 원본(DB) 로드 횟수 집계 - 전략별 / 상품 키별
+ *
+ * 클라이언트의 응답 시간 추정이 아닌, 실제 ProductService.findById 실행 횟수.
+ * 로드 테스트가 burst 전후로 스냅샷을 떠서 차이로 "스탬피드 1회당 원본 로드 수"를 계산한다.
+ * (카운터는 누적만 하며, 리셋하지 않는다)
+ */
+@Component
+class OriginLoadStats(
+    private val meterRegistry: MeterRegistry
+) {
+    private val loads = ConcurrentHashMap<String, ConcurrentHashMap<Long, LongAdder>>()
+    private val counters = ConcurrentHashMap<String, Counter>()
+
+    fun record(strategy: String, id: Long) {
+        loads.computeIfAbsent(strategy) { ConcurrentHashMap() }
+            .computeIfAbsent(id) { LongAdder() }
+            .increment()
+
+        counters.computeIfAbsent(strategy) {
+            Counter.builder("origin.load")
+                .tag("strategy", strategy)
+                .register(meterRegistry)
+        }.increment()
+    }
+
+    fun snapshot(): OriginLoadSnapshot {
+        val strategies = loads.mapValues { (_, byKey) ->
+            val counts = byKey.mapValues { (_, count) -> count.sum() }
+            StrategyOriginLoads(total = counts.values.sum(), byKey = counts)
+        }
+        return OriginLoadSnapshot(
+            total = strategies.values.sumOf { it.total },
+            strategies = strategies
+        )
+    }
+}
+
+data class OriginLoadSnapshot(
+    val total: Long,
+    val strategies: Map<String, StrategyOriginLoads>
+)
+
+data class StrategyOriginLoads(
+    val total: Long,
+    val byKey: Map<Long, Long>
+)
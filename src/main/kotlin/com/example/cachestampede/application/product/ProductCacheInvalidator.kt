@@ -0,0 +1,75 @@
+package com.example.cachestampede.application.product
+
+import com.example.cachestampede.domain.product.ProductRepository
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategy
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+
+/**
+ * 상품 캐시 대상 지정 무효화 - 로드 테스트용
+ *
+ * 전략(strategyName) 선택 × 대상(상품 ID 목록 / 카테고리 / 네임스페이스 전체) 조합으로 캐시를 지운다.
+ * 단일 hot key 만료와 "배포가 캐시를 날린" 대량 만료의 스탬피드를 비교하기 위한 훅.
+ */
+@Service
+class ProductCacheInvalidator(
+    private val cacheStrategies: List<CacheStrategy>,
+    private val productRepository: ProductRepository
+) {
+    private val log = LoggerFactory.getLogger(javaClass)
+
+    val strategyNames: List<String>
+        get() = cacheStrategies.map { it.strategyName }
+
+    /**
+     * @param strategies 무효화할 전략 (strategyName, null = 전체)
+     */
+    fun invalidate(target: InvalidationTarget, strategies: Collection<String>? = null): InvalidationResult {
+        val selected = strategies?.let { names -> cacheStrategies.filter { it.strategyName in names } } ?: cacheStrategies
+        require(strategies == null || selected.size == strategies.toSet().size) {
+            "Unknown strategies: ${strategies.orEmpty() - strategyNames.toSet()}"
+        }
+
+        val productIds = when (target) {
+            is InvalidationTarget.Ids -> target.ids
+            is InvalidationTarget.Category -> productRepository.findByCategory(target.category).map { it.id }
+            InvalidationTarget.All -> null
+        }
+        val deletedKeys = selected.sumOf { strategy ->
+            if (productIds == null) strategy.invalidateNamespace()
+            else strategy.invalidateAll(productIds.map { it.toString() })
+        }
+
+        val result = InvalidationResult(
+            target = target.describe(),
+            strategies = selected.map { it.strategyName },
+            productIds = productIds?.size,
+            deletedKeys = deletedKeys
+        )
+        log.info("Cache invalidated: {}", result)
+        return result
+    }
+}
+
+sealed interface InvalidationTarget {
+    fun describe(): String
+
+    data class Ids(val ids: List<Long>) : InvalidationTarget {
+        override fun describe() = "ids"
+    }
+
+    data class Category(val category: String) : InvalidationTarget {
+        override fun describe() = "category:$category"
+    }
+
+    data object All : InvalidationTarget {
+        override fun describe() = "all"
+    }
+}
+
+data class InvalidationResult(
+    val target: String,
+    val strategies: List<String>,
+    val productIds: Int?,   // 대상 상품 수 (네임스페이스 전체 무효화는 null)
+    val deletedKeys: Long   // 실제로 캐시에 있던 항목 수
+)
@@ -0,0 +1,87 @@
+package com.example.cachestampede.application.product
+
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategy
+import org.slf4j.LoggerFactory
+import org.springframework.data.redis.core.RedisTemplate
+import org.springframework.stereotype.Service
+import java.time.Duration
+
+/**
+ * 전략 간 서버 상태 초기화 - 로드 테스트용
+ *
+ * 한 번의 실행에서 전략을 차례로 비교하면 앞 전략의 백그라운드 갱신 / 락 / 캐시 항목이 다음 전략 구간에 섞인다.
+ * reset은 진행 중인 백그라운드 갱신이 끝나기를 기다린 뒤(drain) 모든 전략의 캐시 네임스페이스와 락(lock:*)을 지운다.
+ * drain이 timeout 안에 끝나지 않아도 삭제는 진행하고 결과의 drained = false로 알린다.
+ */
+@Service
+class ProductCacheResetter(
+    private val cacheStrategies: List<CacheStrategy>,
+    private val redisTemplate: RedisTemplate<String, Any>
+) {
+    private val log = LoggerFactory.getLogger(javaClass)
+
+    fun state(): CacheState = CacheState(
+        strategies = cacheStrategies.associate { strategy ->
+            strategy.strategyName to StrategyCacheState(
+                keys = keys("product:${strategy.strategyName}:*").size,
+                inFlightRefreshes = strategy.inFlightRefreshes()
+            )
+        },
+        locks = keys(LOCK_PATTERN).size
+    )
+
+    fun reset(drainTimeout: Duration): CacheResetResult {
+        val startedAt = System.nanoTime()
+        val drained = drain(startedAt + drainTimeout.toNanos())
+        val waitedMs = Duration.ofNanos(System.nanoTime() - startedAt).toMillis()
+
+        val deletedKeys = cacheStrategies.sumOf { it.invalidateNamespace() }
+        val lockKeys = keys(LOCK_PATTERN)
+        val deletedLocks = if (lockKeys.isEmpty()) 0L else redisTemplate.delete(lockKeys) ?: 0L
+
+        val result = CacheResetResult(drained, waitedMs, deletedKeys, deletedLocks, state())
+        if (drained) log.info("Cache reset: {}", result) else log.warn("Cache reset without drain: {}", result)
+        return result
+    }
+
+    // 진행 중인 갱신이 0이 될 때까지 대기 (deadline = System.nanoTime 기준)
+    private fun drain(deadline: Long): Boolean {
+        while (inFlightRefreshes() > 0) {
+            if (System.nanoTime() >= deadline) return false
+            Thread.sleep(DRAIN_POLL_MS)
+        }
+        return true
+    }
+
+    private fun inFlightRefreshes(): Int = cacheStrategies.sumOf { it.inFlightRefreshes() }
+
+    // KEYS는 Redis를 블로킹하지만 테스트용 네임스페이스라 허용 (BaseCacheStrategy.invalidateNamespace와 동일)
+    private fun keys(pattern: String): Set<String> = redisTemplate.keys(pattern).orEmpty()
+
+    companion object {
+        private const val LOCK_PATTERN = "lock:*"
+        private const val DRAIN_POLL_MS = 50L
+    }
+}
+
+data class StrategyCacheState(
+    val keys: Int,
+    val inFlightRefreshes: Int
+)
+
+data class CacheState(
+    val strategies: Map<String, StrategyCacheState>,
+    val locks: Int
+) {
+    // 캐시 항목 / 락 / 진행 중인 갱신이 하나도 없는 상태
+    val clean: Boolean
+        get() = locks == 0 && strategies.values.all { it.keys == 0 && it.inFlightRefreshes == 0 }
+}
+
+data class CacheResetResult(
+    val drained: Boolean,    // timeout 안에 진행 중인 갱신이 모두 끝났는지
+    val waitedMs: Long,
+    val deletedKeys: Long,
+    val deletedLocks: Long,
+    val state: CacheState    // 초기화 직후 상태 (검증용)
+)
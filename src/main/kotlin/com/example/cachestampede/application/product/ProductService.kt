@@ -12,6 +12,8 @@ import java.util.concurrent.TimeUnit
 @Service
 class ProductService(
     private val productRepository: ProductRepository,
+    private val originLoadStats: OriginLoadStats,
+    private val originFaultInjector: OriginFaultInjector,
     meterRegistry: MeterRegistry
 ) {
     private val log = LoggerFactory.getLogger(javaClass)
@@ -27,13 +29,19 @@ class ProductService(
         .publishPercentileHistogram()
         .register(meterRegistry)
 
+    /**
+     * @param strategy 원본 로드를 유발한 캐시 전략 (meta.strategy 값, OriginLoadStats 집계용)
+     */
     @Transactional(readOnly = true)
-    fun findById(id: Long): ProductDto? {
-        log.debug("Fetching product from database: id={}", id)
+    fun findById(id: Long, strategy: String): ProductDto? {
+        log.debug("Fetching product from database: id={}, strategy={}", id, strategy)
+        originLoadStats.record(strategy, id)
 
         return dbFindByIdTimer.recordCallable {
             // DB 조회를 시뮬레이션하기 위해 약간의 지연 추가 (실제 복잡한 쿼리 시뮬레이션)
             simulateSlowQuery()
+            // 관리 API로 주입한 장애 (추가 지연 / 로드 실패) - 기본값은 장애 없음
+            originFaultInjector.apply(id, strategy)
 
             productRepository.findById(id)
                 .map { ProductDto.from(it) }
@@ -70,6 +78,59 @@ class ProductService(
         return ProductDto.from(saved)
     }
 
+    /**
+     * 상품 수정 (null 필드는 유지) - 캐시는 건드리지 않으므로 무효화는 호출 측에서 커밋 이후에 한다
+     *
+     * @return 수정된 상품 (없으면 null)
+     */
+    @Transactional
+    fun update(
+        id: Long,
+        name: String? = null,
+        description: String? = null,
+        price: java.math.BigDecimal? = null,
+        stockQuantity: Int? = null,
+        category: String? = null
+    ): ProductDto? {
+        val product = productRepository.findById(id).orElse(null) ?: return null
+        product.update(
+            name = name,
+            description = description,
+            price = price,
+            stockQuantity = stockQuantity,
+            category = category
+        )
+        log.info("Product updated: id={}, updatedAt={}", product.id, product.updatedAt)
+        return ProductDto.from(product)
+    }
+
+    /**
+     * 현재 DB에 커밋된 상품 (쓰기 경로 테스트의 기준값 확인용, 지연 시뮬레이션/원본 로드 집계 없음)
+     */
+    @Transactional(readOnly = true)
+    fun findCurrent(id: Long): ProductDto? =
+        productRepository.findById(id).map { ProductDto.from(it) }.orElse(null)
+
+    /**
+     * 주어진 ID 중 실제로 존재하는 상품 ID (테스트 데이터 확인용, 지연 시뮬레이션/원본 로드 집계 없음)
+     */
+    @Transactional(readOnly = true)
+    fun findExistingIds(ids: Collection<Long>): List<Long> =
+        productRepository.findAllById(ids).map { it.id }.sorted()
+
+    /**
+     * 상품 일괄 삭제 (테스트 데이터 정리용) - 존재하지 않는 ID는 무시
+     *
+     * @return 삭제된 상품 수
+     */
+    @Transactional
+    fun deleteByIds(ids: Collection<Long>): Int {
+        val products = productRepository.findAllById(ids)
+        productRepository.deleteAll(products)
+        log.info("Products deleted: count={}", products.size)
+        return products.size
+    }
+
     private fun simulateSlowQuery() {
         // 실제 환경에서 복잡한 쿼리가 실행되는 것을 시뮬레이션
         // 100ms 지연으로 DB 부하 상황 재현
@@ -43,9 +43,11 @@ class CacheConfig {
     @Bean
     fun redisTemplate(
         connectionFactory: RedisConnectionFactory,
-        cacheObjectMapper: ObjectMapper
+        cacheObjectMapper: ObjectMapper,
+        cacheOutageSwitch: CacheOutageSwitch
     ): RedisTemplate<String, Any> {
-        val template = RedisTemplate<String, Any>()
+        // 관리 API로 캐시 계층 장애를 재현할 수 있도록 스위치를 거치는 template 사용
+        val template = OutageAwareRedisTemplate(cacheOutageSwitch)
         template.connectionFactory = connectionFactory
         template.keySerializer = StringRedisSerializer()
         template.valueSerializer = GenericJackson2JsonRedisSerializer(cacheObjectMapper)
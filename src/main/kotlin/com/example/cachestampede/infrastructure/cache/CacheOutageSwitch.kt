@@ -0,0 +1,119 @@
+package com.example.cachestampede.infrastructure.cache
+
+import io.micrometer.core.instrument.Counter
+import io.micrometer.core.instrument.MeterRegistry
+import org.slf4j.LoggerFactory
+import org.springframework.data.redis.RedisConnectionFailureException
+import org.springframework.data.redis.connection.RedisConnectionFactory
+import org.springframework.stereotype.Component
+import java.time.Clock
+import java.time.Instant
+import java.util.concurrent.TimeUnit
+import java.util.concurrent.atomic.AtomicReference
+
+/**
+ * 캐시 계층(Redis) 장애 스위치 - 로드 테스트용 훅
+ *
+ * 켜져 있는 동안 OutageAwareRedisTemplate을 거치는 모든 Redis 명령이 RedisConnectionFailureException으로 실패한다.
+ * (캐시 조회 / 저장 / 무효화 / 분산 락 모두 해당) 실제 Redis는 건드리지 않으며 관리 API(/api/v1/admin/faults/cache)로만 바꾼다.
+ * - timeoutMs      : 실패 전 대기 시간 (0 = 즉시 거부, 양수 = 연결 타임아웃처럼 매달렸다가 실패)
+ * - durationSeconds: 이 시간이 지나면 자동 복구 (null = restore까지 유지). 자동 복구는 캐시를 비우지 않는다.
+ *
+ * restore(flush = true)는 캐시 / 락 키를 지워 "재시작되어 비어 있는 Redis"로 복구한다. (콜드 캐시 재적재 측정용)
+ * 거부한 명령 수는 cache.outage.rejected로 기록한다.
+ */
+@Component
+class CacheOutageSwitch(
+    private val connectionFactory: RedisConnectionFactory,
+    meterRegistry: MeterRegistry,
+    private val clock: Clock = Clock.systemUTC()
+) {
+    private val log = LoggerFactory.getLogger(javaClass)
+    private val state = AtomicReference(CacheOutageStatus.NONE)
+    private val rejected: Counter = Counter.builder("cache.outage.rejected")
+        .register(meterRegistry)
+
+    /**
+     * 현재 장애 상태 (time box가 끝났으면 정상)
+     */
+    fun current(): CacheOutageStatus {
+        val status = state.get()
+        val expiresAt = status.expiresAt ?: return status
+        return if (clock.instant().isBefore(expiresAt)) status else CacheOutageStatus.NONE
+    }
+
+    fun takeDown(outage: CacheOutage): CacheOutageStatus {
+        val now = clock.instant()
+        val status = CacheOutageStatus(
+            down = true,
+            outage = outage,
+            since = now,
+            expiresAt = outage.durationSeconds?.let { now.plusSeconds(it) }
+        )
+        state.set(status)
+        log.warn("Cache outage started: {}", status)
+        return status
+    }
+
+    /**
+     * 캐시 계층 복구
+     *
+     * @param flush true면 캐시(product:*) / 락(lock:*) 키를 지운 뒤 복구 (재시작된 빈 Redis 재현)
+     * @return 지운 키 수
+     */
+    fun restore(flush: Boolean): Long {
+        state.set(CacheOutageStatus.NONE)
+        val flushed = if (flush) flushKeys() else 0L
+        log.warn("Cache outage restored: flush={}, flushedKeys={}", flush, flushed)
+        return flushed
+    }
+
+    /**
+     * Redis 명령 실행 직전에 호출 - 장애 중이면 (timeoutMs 대기 후) 연결 실패를 던진다
+     */
+    fun check() {
+        val status = current()
+        if (!status.down) return
+
+        rejected.increment()
+        if (status.outage.timeoutMs > 0) {
+            TimeUnit.MILLISECONDS.sleep(status.outage.timeoutMs)
+            throw RedisConnectionFailureException("Injected cache outage: timed out after ${status.outage.timeoutMs}ms")
+        }
+        throw RedisConnectionFailureException("Injected cache outage: connection refused")
+    }
+
+    // 스위치를 거치지 않는 커넥션으로 직접 삭제 (장애 중인 template로는 지울 수 없음)
+    private fun flushKeys(): Long =
+        connectionFactory.connection.use { connection ->
+            FLUSH_PATTERNS.sumOf { pattern ->
+                val keys = connection.keyCommands().keys(pattern.toByteArray()).orEmpty()
+                if (keys.isEmpty()) 0L else connection.keyCommands().del(*keys.toTypedArray()) ?: 0L
+            }
+        }
+
+    companion object {
+        private val FLUSH_PATTERNS = listOf("product:*", "lock:*")
+    }
+}
+
+data class CacheOutage(
+    val timeoutMs: Long = 0,
+    val durationSeconds: Long? = null
+) {
+    init {
+        require(timeoutMs >= 0) { "timeoutMs must not be negative: $timeoutMs" }
+        require(durationSeconds == null || durationSeconds > 0) { "durationSeconds must be positive: $durationSeconds" }
+    }
+}
+
+data class CacheOutageStatus(
+    val down: Boolean,
+    val outage: CacheOutage,
+    val since: Instant?,
+    val expiresAt: Instant?
+) {
+    companion object {
+        val NONE = CacheOutageStatus(false, CacheOutage(), null, null)
+    }
+}
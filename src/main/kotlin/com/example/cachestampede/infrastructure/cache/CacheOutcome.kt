@@ -0,0 +1,30 @@
+package com.example.cachestampede.infrastructure.cache
+
+/**
+ * 요청 한 건에 대해 캐시 전략이 실제로 어떻게 처리했는지
+ *
+ * 클라이언트(k6)가 응답 시간으로 HIT/MISS를 추측하지 않도록 응답 헤더/메타로 그대로 노출한다.
+ */
+enum class CacheOutcome {
+    /** 유효한(fresh) 캐시 값 반환 */
+    HIT,
+
+    /** soft TTL이 지난 값 반환 (다른 요청이 이미 갱신 중) */
+    STALE,
+
+    /** 캐시 미스 - 이 요청이 원본(DB)에서 로드 */
+    MISS,
+
+    /** 락 대기(또는 재시도) 후 다른 요청이 채운 캐시 값 반환 */
+    LOCK_WAIT,
+
+    /** 락 대기 한도 초과 - 캐시 없이 원본(DB)에서 직접 로드 */
+    LOCK_TIMEOUT_FALLBACK,
+
+    /** soft TTL이 지난 값 반환 + 이 요청이 백그라운드 갱신을 시작 */
+    REFRESH_TRIGGERED;
+
+    companion object {
+        const val HEADER = "X-Cache-Outcome"
+    }
+}
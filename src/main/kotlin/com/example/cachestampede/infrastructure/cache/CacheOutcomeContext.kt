@@ -0,0 +1,37 @@
+package com.example.cachestampede.infrastructure.cache
+
+/**
+ * 요청 스레드별 CacheOutcome 보관
+ *
+ * CacheStrategy.getOrLoad는 값만 반환하므로, 전략이 기록한 결과를 컨트롤러가 같은 스레드에서 꺼내 간다.
+ * 백그라운드 갱신 스레드에서는 기록하지 않는다.
+ */
+object CacheOutcomeContext {
+
+    private val current = ThreadLocal<CacheOutcome>()
+
+    fun record(outcome: CacheOutcome) {
+        current.set(outcome)
+    }
+
+    /**
+     * 기록된 결과를 반환하고 비운다 (스레드 풀 재사용 시 다음 요청으로 새지 않도록)
+     */
+    fun consume(): CacheOutcome? {
+        val outcome = current.get()
+        current.remove()
+        return outcome
+    }
+
+    /**
+     * block 결과와 그동안 기록된 결과를 함께 반환
+     * block이 예외를 던져도(원본 장애, Redis 장애 등) 기록을 비워 풀 스레드의 다음 요청으로 새지 않게 한다.
+     */
+    fun <T> capture(block: () -> T): Pair<T, CacheOutcome?> {
+        try {
+            return block() to current.get()
+        } finally {
+            current.remove()
+        }
+    }
+}
@@ -0,0 +1,19 @@
+package com.example.cachestampede.infrastructure.cache
+
+import org.springframework.data.redis.core.RedisCallback
+import org.springframework.data.redis.core.RedisTemplate
+
+/**
+ * CacheOutageSwitch가 켜져 있으면 모든 명령을 실패시키는 RedisTemplate
+ *
+ * opsForValue() / delete() / 스크립트 실행이 모두 execute(RedisCallback, ...)를 거치므로 여기 한 곳에서 막는다.
+ */
+class OutageAwareRedisTemplate(
+    private val outageSwitch: CacheOutageSwitch
+) : RedisTemplate<String, Any>() {
+
+    override fun <T : Any?> execute(action: RedisCallback<T>, exposeConnection: Boolean, pipeline: Boolean): T? {
+        outageSwitch.check()
+        return super.execute(action, exposeConnection, pipeline)
+    }
+}
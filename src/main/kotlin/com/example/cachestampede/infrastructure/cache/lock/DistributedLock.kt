@@ -17,6 +17,14 @@ interface DistributedLock {
      */
     fun unlock(key: String)
 
+    /**
+     * 보유자 없는 락 설치 (장애 주입용) - 이 스레드의 unlock으로는 해제되지 않고 ttl 만료로만 풀린다
+     * @param key 락 키
+     * @param ttl 락 만료 시간
+     * @return 설치 여부 (이미 락이 있으면 false)
+     */
+    fun plant(key: String, ttl: Duration): Boolean
+
     /**
      * 락 획득까지 대기 (타임아웃 있음)
      * @param key 락 키
@@ -1,8 +1,10 @@
 package com.example.cachestampede.infrastructure.cache.lock
 
+import io.micrometer.core.instrument.Counter
 import io.micrometer.core.instrument.MeterRegistry
 import io.micrometer.core.instrument.Timer
 import org.slf4j.LoggerFactory
+import org.springframework.dao.DataAccessException
 import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.stereotype.Component
 import java.time.Duration
@@ -18,6 +20,9 @@ class RedisDistributedLock(
     private val lockWaitTimer: Timer = Timer.builder("cache.lock.wait_time")
         .publishPercentileHistogram()
         .register(meterRegistry)
+    // 락 명령 자체가 Redis 장애로 실패한 횟수 (예외는 그대로 던지므로 호출 측은 fail-closed)
+    private val lockErrorCounter: Counter = Counter.builder("cache.lock.redis_errors")
+        .register(meterRegistry)
 
     // 스레드별 락 식별자 저장 (재진입 방지 및 안전한 해제를 위함)
     private val lockValues = ThreadLocal<MutableMap<String, String>>()
@@ -38,8 +43,12 @@ class RedisDistributedLock(
         val lockKey = "lock:$key"
         val lockValue = UUID.randomUUID().toString()
 
-        val acquired = redisTemplate.opsForValue()
-            .setIfAbsent(lockKey, lockValue, ttl) ?: false
+        val acquired = try {
+            redisTemplate.opsForValue().setIfAbsent(lockKey, lockValue, ttl) ?: false
+        } catch (e: DataAccessException) {
+            lockErrorCounter.increment()
+            throw e
+        }
 
         if (acquired) {
             setLockValue(lockKey, lockValue)
@@ -49,6 +58,14 @@ class RedisDistributedLock(
         return acquired
     }
 
+    override fun plant(key: String, ttl: Duration): Boolean {
+        val lockKey = "lock:$key"
+        // 락 값을 lockValues에 남기지 않는다 - 남기면 같은 풀 스레드의 unlock이 이 락을 지운다
+        val planted = redisTemplate.opsForValue().setIfAbsent(lockKey, UUID.randomUUID().toString(), ttl) ?: false
+        if (planted) log.debug("Lock planted: key={}, ttl={}ms", lockKey, ttl.toMillis())
+        return planted
+    }
+
     override fun unlock(key: String) {
         val lockKey = "lock:$key"
         val expectedValue = getLockValue(lockKey) ?: return
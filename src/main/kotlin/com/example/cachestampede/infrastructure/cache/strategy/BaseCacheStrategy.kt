@@ -1,8 +1,12 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.CachedValue
 import com.fasterxml.jackson.databind.ObjectMapper
 import com.example.cachestampede.infrastructure.cache.CacheProperties
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategyMetrics.RevalidateMode
+import io.micrometer.core.instrument.MeterRegistry
 import org.slf4j.LoggerFactory
 import org.springframework.data.redis.core.RedisTemplate
 import java.time.Duration
@@ -15,13 +19,17 @@ import kotlin.random.Random
 open class BaseCacheStrategy(
     protected val redisTemplate: RedisTemplate<String, Any>,
     protected val cacheProperties: CacheProperties,
-    protected val cacheObjectMapper: ObjectMapper
+    protected val cacheObjectMapper: ObjectMapper,
+    private val meterRegistry: MeterRegistry
 ) : CacheStrategy {
 
     protected val log = LoggerFactory.getLogger(javaClass)
 
     override val strategyName: String = "basic"
 
+    // 하위 클래스의 strategyName이 초기화된 뒤에 태그를 붙이도록 지연 생성
+    protected val metrics: CacheStrategyMetrics by lazy { CacheStrategyMetrics(strategyName, meterRegistry) }
+
     override fun <T : Any> getOrLoad(key: String, type: Class<T>, loader: () -> T?): T? {
         val cacheKey = buildCacheKey(key)
 
@@ -29,13 +37,15 @@ open class BaseCacheStrategy(
         val cached = getFromCache(cacheKey, type)
         if (cached != null) {
             log.debug("[{}] Cache HIT: key={}", strategyName, cacheKey)
+            recordOutcome(CacheOutcome.HIT)
             return cached
         }
 
         log.debug("[{}] Cache MISS: key={}", strategyName, cacheKey)
+        recordOutcome(CacheOutcome.MISS)
 
         // 2. 데이터 로드
-        val value = loader() ?: return null
+        val value = metrics.revalidate(RevalidateMode.SYNC) { loader() } ?: return null
 
         // 3. 캐시 저장
         saveToCache(cacheKey, value, getTtl())
@@ -47,9 +57,44 @@ open class BaseCacheStrategy(
     override fun invalidate(key: String) {
         val cacheKey = buildCacheKey(key)
         redisTemplate.delete(cacheKey)
+        onInvalidated(cacheKey)
         log.debug("[{}] Cache INVALIDATE: key={}", strategyName, cacheKey)
     }
 
+    override fun invalidateAll(keys: Collection<String>): Long {
+        if (keys.isEmpty()) return 0L
+        return deleteCacheKeys(keys.map { buildCacheKey(it) })
+    }
+
+    override fun invalidateNamespace(): Long {
+        // KEYS는 Redis를 블로킹하지만 테스트용 네임스페이스(상품 수 = 수천 개 이하)라 허용
+        val cacheKeys = redisTemplate.keys(buildCacheKey("*")).orEmpty()
+        if (cacheKeys.isEmpty()) return 0L
+        return deleteCacheKeys(cacheKeys)
+    }
+
+    private fun deleteCacheKeys(cacheKeys: Collection<String>): Long {
+        val deleted = redisTemplate.delete(cacheKeys) ?: 0L
+        cacheKeys.forEach { onInvalidated(it) }
+        log.debug("[{}] Cache INVALIDATE: keys={}, deleted={}", strategyName, cacheKeys.size, deleted)
+        return deleted
+    }
+
+    /**
+     * 캐시 항목이 무효화된 뒤 호출 - 전략별 로컬 상태(진행 중인 갱신 표시 등) 정리용
+     */
+    protected open fun onInvalidated(cacheKey: String) {}
+
+    override fun inFlightRefreshes(): Int = 0
+
+    /**
+     * 요청 처리 결과 기록 (요청 스레드에서만 호출) - 응답 헤더용 컨텍스트 + cache.strategy.outcome 메트릭
+     */
+    protected fun recordOutcome(outcome: CacheOutcome) {
+        CacheOutcomeContext.record(outcome)
+        metrics.outcome(outcome)
+    }
+
     /**
      * 전략 비교/시뮬레이션을 위해 전략별로 캐시 네임스페이스를 분리한다.
      *
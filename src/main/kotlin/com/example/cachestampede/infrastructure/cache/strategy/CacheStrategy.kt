@@ -18,6 +18,25 @@ interface CacheStrategy {
      */
     fun invalidate(key: String)
 
+    /**
+     * 여러 키 일괄 무효화
+     *
+     * @return 실제로 지워진 캐시 항목 수
+     */
+    fun invalidateAll(keys: Collection<String>): Long
+
+    /**
+     * 이 전략의 캐시 네임스페이스 전체 무효화 ("배포가 캐시를 날린" 상황 재현)
+     *
+     * @return 실제로 지워진 캐시 항목 수
+     */
+    fun invalidateNamespace(): Long
+
+    /**
+     * 진행 중인 백그라운드 갱신 수 (SWR 계열만, 나머지 전략은 항상 0)
+     */
+    fun inFlightRefreshes(): Int
+
     /**
      * 전략 이름
      */
@@ -15,15 +15,17 @@ class CacheStrategyConfig {
     fun basicCacheStrategy(
         redisTemplate: RedisTemplate<String, Any>,
         cacheProperties: CacheProperties,
-        cacheObjectMapper: ObjectMapper
-    ): BaseCacheStrategy = BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper)
+        cacheObjectMapper: ObjectMapper,
+        meterRegistry: MeterRegistry
+    ): BaseCacheStrategy = BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry)
 
     @Bean
     fun jitterCacheStrategy(
         redisTemplate: RedisTemplate<String, Any>,
         cacheProperties: CacheProperties,
-        cacheObjectMapper: ObjectMapper
-    ): JitterCacheStrategy = JitterCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper)
+        cacheObjectMapper: ObjectMapper,
+        meterRegistry: MeterRegistry
+    ): JitterCacheStrategy = JitterCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry)
 
     @Bean
     fun jitterSwrCacheStrategy(
@@ -39,8 +41,9 @@ class CacheStrategyConfig {
         redisTemplate: RedisTemplate<String, Any>,
         cacheProperties: CacheProperties,
         cacheObjectMapper: ObjectMapper,
-        distributedLock: DistributedLock
-    ): JitterLockCacheStrategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, distributedLock)
+        distributedLock: DistributedLock,
+        meterRegistry: MeterRegistry
+    ): JitterLockCacheStrategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, distributedLock, meterRegistry)
 
     @Bean
     fun fullProtectionCacheStrategy(
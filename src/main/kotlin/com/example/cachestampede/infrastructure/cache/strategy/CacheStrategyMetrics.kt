@@ -0,0 +1,95 @@
+package com.example.cachestampede.infrastructure.cache.strategy
+
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import io.micrometer.core.instrument.Counter
+import io.micrometer.core.instrument.MeterRegistry
+import io.micrometer.core.instrument.Timer
+
+/**
+ * 모든 전략 공통 메트릭 (strategy 태그로 전략 간 동일 기준 비교)
+ *
+ * - cache.strategy.outcome{strategy, outcome}                  : 요청 처리 결과 (CacheOutcome)
+ * - cache.strategy.revalidate{strategy, mode, result}          : 원본 로드 후 캐시 재적재 (started/finished/failed)
+ * - cache.strategy.revalidate_duration{strategy, mode}         : 재적재 소요 시간
+ * - cache.strategy.lock_acquire{strategy, result}              : 갱신 락 획득 시도 (acquired/failed)
+ *
+ * mode: sync(요청 스레드에서 갱신) / background(stale 반환 후 비동기 갱신)
+ */
+class CacheStrategyMetrics(
+    strategy: String,
+    private val meterRegistry: MeterRegistry
+) {
+    enum class RevalidateMode(val tag: String) {
+        SYNC("sync"),
+        BACKGROUND("background")
+    }
+
+    private val outcomes: Map<CacheOutcome, Counter> = CacheOutcome.entries.associateWith { outcome ->
+        Counter.builder(OUTCOME)
+            .tag("strategy", strategy)
+            .tag("outcome", outcome.name)
+            .register(meterRegistry)
+    }
+
+    private val revalidations: Map<Pair<RevalidateMode, String>, Counter> =
+        RevalidateMode.entries.flatMap { mode ->
+            listOf("started", "finished", "failed").map { result ->
+                (mode to result) to Counter.builder(REVALIDATE)
+                    .tag("strategy", strategy)
+                    .tag("mode", mode.tag)
+                    .tag("result", result)
+                    .register(meterRegistry)
+            }
+        }.toMap()
+
+    private val revalidateDurations: Map<RevalidateMode, Timer> = RevalidateMode.entries.associateWith { mode ->
+        Timer.builder(REVALIDATE_DURATION)
+            .tag("strategy", strategy)
+            .tag("mode", mode.tag)
+            .publishPercentileHistogram()
+            .register(meterRegistry)
+    }
+
+    private val lockAcquired: Counter = Counter.builder(LOCK_ACQUIRE)
+        .tag("strategy", strategy)
+        .tag("result", "acquired")
+        .register(meterRegistry)
+
+    private val lockFailed: Counter = Counter.builder(LOCK_ACQUIRE)
+        .tag("strategy", strategy)
+        .tag("result", "failed")
+        .register(meterRegistry)
+
+    fun outcome(outcome: CacheOutcome) {
+        outcomes.getValue(outcome).increment()
+    }
+
+    fun lockAcquire(acquired: Boolean) {
+        (if (acquired) lockAcquired else lockFailed).increment()
+    }
+
+    /**
+     * 원본 로드 + 캐시 재적재 구간 계측 (예외는 failed로 기록 후 그대로 전파)
+     */
+    fun <T> revalidate(mode: RevalidateMode, block: () -> T): T {
+        revalidations.getValue(mode to "started").increment()
+        val sample = Timer.start(meterRegistry)
+        try {
+            val result = block()
+            revalidations.getValue(mode to "finished").increment()
+            return result
+        } catch (e: Exception) {
+            revalidations.getValue(mode to "failed").increment()
+            throw e
+        } finally {
+            sample.stop(revalidateDurations.getValue(mode))
+        }
+    }
+
+    companion object {
+        const val OUTCOME = "cache.strategy.outcome"
+        const val REVALIDATE = "cache.strategy.revalidate"
+        const val REVALIDATE_DURATION = "cache.strategy.revalidate_duration"
+        const val LOCK_ACQUIRE = "cache.strategy.lock_acquire"
+    }
+}
@@ -1,8 +1,10 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.CachedValue
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategyMetrics.RevalidateMode
 import com.fasterxml.jackson.databind.ObjectMapper
 import io.micrometer.core.instrument.Counter
 import io.micrometer.core.instrument.MeterRegistry
@@ -11,6 +13,7 @@ import org.springframework.data.redis.core.RedisTemplate
 import java.time.Duration
 import java.util.concurrent.CompletableFuture
 import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicInteger
 import kotlin.random.Random
 
 /**
@@ -25,12 +28,15 @@ class FullProtectionCacheStrategy(
     cacheObjectMapper: ObjectMapper,
     private val distributedLock: DistributedLock,
     meterRegistry: MeterRegistry
-) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper) {
+) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry) {
 
     override val strategyName: String = "full-protection"
 
     private val refreshingKeys = ConcurrentHashMap.newKeySet<String>()
 
+    // 실행 중인 백그라운드 갱신 수 (무효화로 refreshingKeys에서 빠진 갱신도 끝날 때까지 포함)
+    private val inFlight = AtomicInteger()
+
     // ---- Metrics (Full Protection 관측용) ----
     // Cache hit/miss metrics with TTL state tags
     private val cacheHitFresh: Counter = Counter.builder("cache.full.cache_hit")
@@ -107,13 +113,15 @@ class FullProtectionCacheStrategy(
                 cachedValue.isFresh() -> {
                     log.debug("[{}] Cache HIT (fresh): key={}", strategyName, cacheKey)
                     cacheHitFresh.increment()
+                    recordOutcome(CacheOutcome.HIT)
                     return cachedValue.value
                 }
 
                 cachedValue.isStale() -> {
                     log.debug("[{}] Cache HIT (stale): key={}, triggering background refresh with lock", strategyName, cacheKey)
                     cacheHitStale.increment()
-                    triggerBackgroundRefreshWithLock(key, cacheKey, type, loader)
+                    val triggered = triggerBackgroundRefreshWithLock(key, cacheKey, type, loader)
+                    recordOutcome(if (triggered) CacheOutcome.REFRESH_TRIGGERED else CacheOutcome.STALE)
                     return cachedValue.value
                 }
 
@@ -136,48 +144,56 @@ class FullProtectionCacheStrategy(
         cacheKey: String,
         type: Class<T>,
         loader: () -> T?
-    ) {
+    ): Boolean {
         if (!refreshingKeys.add(cacheKey)) {
             log.debug("[{}] Already refreshing: key={}", strategyName, cacheKey)
-            return
+            return false
         }
 
+        inFlight.incrementAndGet()
         CompletableFuture.runAsync {
-            // 전략별로 락 네임스페이스 분리 (전략 간 간섭 방지)
-            val lockKey = "refresh:${strategyName}:$key"
-            val lockTimeout = Duration.ofSeconds(cacheProperties.lockTimeoutSeconds)
-
-            if (distributedLock.tryLock(lockKey, lockTimeout)) {
-                try {
-                    revalidateStartedSoft.increment()
-                    log.debug("[{}] Background refresh started with lock: key={}", strategyName, cacheKey)
-
-                    // 락 획득 후 다시 캐시 상태 확인
-                    val currentValue = getCachedValueFromCache(cacheKey, type)
-
-                    // 이미 fresh하면 갱신 스킵
-                    if (currentValue?.isFresh() == true) {
-                        log.debug("[{}] Cache already refreshed by another process: key={}", strategyName, cacheKey)
-                        return@runAsync
-                    }
+            try {
+                // 전략별로 락 네임스페이스 분리 (전략 간 간섭 방지)
+                val lockKey = "refresh:${strategyName}:$key"
+                val lockTimeout = Duration.ofSeconds(cacheProperties.lockTimeoutSeconds)
+
+                val acquired = distributedLock.tryLock(lockKey, lockTimeout)
+                metrics.lockAcquire(acquired)
+                if (acquired) {
+                    try {
+                        revalidateStartedSoft.increment()
+                        log.debug("[{}] Background refresh started with lock: key={}", strategyName, cacheKey)
+
+                        // 락 획득 후 다시 캐시 상태 확인
+                        val currentValue = getCachedValueFromCache(cacheKey, type)
 
-                    revalidateDurationSoft.recordCallable {
-                        loadAndCache(cacheKey, loader)
+                        // 이미 fresh하면 갱신 스킵
+                        if (currentValue?.isFresh() == true) {
+                            log.debug("[{}] Cache already refreshed by another process: key={}", strategyName, cacheKey)
+                            return@runAsync
+                        }
+
+                        revalidateDurationSoft.recordCallable {
+                            metrics.revalidate(RevalidateMode.BACKGROUND) { loadAndCache(cacheKey, loader) }
+                        }
+                        log.debug("[{}] Background refresh completed: key={}", strategyName, cacheKey)
+                        revalidateFinishedSoft.increment()
+                    } catch (e: Exception) {
+                        log.error("[{}] Background refresh failed: key={}, error={}", strategyName, cacheKey, e.message)
+                        revalidateFailedSoft.increment()
+                    } finally {
+                        distributedLock.unlock(lockKey)
+                        refreshingKeys.remove(cacheKey)
                     }
-                    log.debug("[{}] Background refresh completed: key={}", strategyName, cacheKey)
-                    revalidateFinishedSoft.increment()
-                } catch (e: Exception) {
-                    log.error("[{}] Background refresh failed: key={}, error={}", strategyName, cacheKey, e.message)
-                    revalidateFailedSoft.increment()
-                } finally {
-                    distributedLock.unlock(lockKey)
+                } else {
+                    log.debug("[{}] Could not acquire lock for background refresh: key={}", strategyName, cacheKey)
                     refreshingKeys.remove(cacheKey)
                 }
-            } else {
-                log.debug("[{}] Could not acquire lock for background refresh: key={}", strategyName, cacheKey)
-                refreshingKeys.remove(cacheKey)
+            } finally {
+                inFlight.decrementAndGet()
             }
         }
+        return true
     }
 
     private fun <T : Any> loadWithLock(
@@ -195,6 +211,7 @@ class FullProtectionCacheStrategy(
         val maxWaitTime = Duration.ofMillis(cacheProperties.lockRetryIntervalMs * cacheProperties.lockMaxRetries)
 
         val lockAcquired = distributedLock.waitForLock(lockKey, lockTimeout, maxWaitTime, retryInterval)
+        metrics.lockAcquire(lockAcquired)
 
         if (lockAcquired) {
             try {
@@ -203,11 +220,13 @@ class FullProtectionCacheStrategy(
 
                 if (cachedValue != null && !cachedValue.isExpired()) {
                     log.debug("[{}] Cache available after lock: key={}", strategyName, cacheKey)
+                    recordOutcome(CacheOutcome.LOCK_WAIT)
                     return cachedValue.value
                 }
 
+                recordOutcome(CacheOutcome.MISS)
                 val result = revalidateDurationHard.recordCallable {
-                    loadAndCache(cacheKey, loader)
+                    metrics.revalidate(RevalidateMode.SYNC) { loadAndCache(cacheKey, loader) }
                 }
                 revalidateFinishedHard.increment()
                 return result
@@ -225,11 +244,14 @@ class FullProtectionCacheStrategy(
             val cachedValue = getCachedValueFromCache(cacheKey, type)
 
             if (cachedValue?.value != null) {
+                // 만료된 값이라도 반환하므로 STALE로 구분
+                recordOutcome(if (cachedValue.isExpired()) CacheOutcome.STALE else CacheOutcome.LOCK_WAIT)
                 return cachedValue.value
             }
 
             // Fallback
             log.warn("[{}] Fallback to direct load: key={}", strategyName, cacheKey)
+            recordOutcome(CacheOutcome.LOCK_TIMEOUT_FALLBACK)
             return loader()
         }
     }
@@ -252,10 +274,9 @@ class FullProtectionCacheStrategy(
         return value
     }
 
-    override fun invalidate(key: String) {
-        val cacheKey = buildCacheKey(key)
-        redisTemplate.delete(cacheKey)
+    override fun onInvalidated(cacheKey: String) {
         refreshingKeys.remove(cacheKey)
-        log.debug("[{}] Cache INVALIDATE: key={}", strategyName, cacheKey)
     }
+
+    override fun inFlightRefreshes(): Int = inFlight.get()
 }
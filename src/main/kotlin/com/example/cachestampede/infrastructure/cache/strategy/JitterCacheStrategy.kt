@@ -2,6 +2,7 @@ package com.example.cachestampede.infrastructure.cache.strategy
 
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.fasterxml.jackson.databind.ObjectMapper
+import io.micrometer.core.instrument.MeterRegistry
 import org.springframework.data.redis.core.RedisTemplate
 import java.time.Duration
 
@@ -13,8 +14,9 @@ import java.time.Duration
 class JitterCacheStrategy(
     redisTemplate: RedisTemplate<String, Any>,
     cacheProperties: CacheProperties,
-    cacheObjectMapper: ObjectMapper
-) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper) {
+    cacheObjectMapper: ObjectMapper,
+    meterRegistry: MeterRegistry
+) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry) {
 
     override val strategyName: String = "jitter"
 
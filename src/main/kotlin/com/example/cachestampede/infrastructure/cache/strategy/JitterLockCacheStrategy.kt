@@ -1,8 +1,11 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategyMetrics.RevalidateMode
 import com.fasterxml.jackson.databind.ObjectMapper
+import io.micrometer.core.instrument.MeterRegistry
 import org.springframework.data.redis.core.RedisTemplate
 import java.time.Duration
 
@@ -15,8 +18,9 @@ class JitterLockCacheStrategy(
     redisTemplate: RedisTemplate<String, Any>,
     cacheProperties: CacheProperties,
     cacheObjectMapper: ObjectMapper,
-    private val distributedLock: DistributedLock
-) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper) {
+    private val distributedLock: DistributedLock,
+    meterRegistry: MeterRegistry
+) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry) {
 
     override val strategyName: String = "jitter-lock"
 
@@ -27,6 +31,7 @@ class JitterLockCacheStrategy(
         val cached = getFromCache(cacheKey, type)
         if (cached != null) {
             log.debug("[{}] Cache HIT: key={}", strategyName, cacheKey)
+            recordOutcome(CacheOutcome.HIT)
             return cached
         }
 
@@ -40,6 +45,7 @@ class JitterLockCacheStrategy(
         val maxWaitTime = Duration.ofMillis(cacheProperties.lockRetryIntervalMs * cacheProperties.lockMaxRetries)
 
         val lockAcquired = distributedLock.waitForLock(lockKey, lockTimeout, maxWaitTime, retryInterval)
+        metrics.lockAcquire(lockAcquired)
 
         if (lockAcquired) {
             try {
@@ -47,12 +53,14 @@ class JitterLockCacheStrategy(
                 val cachedAfterLock = getFromCache(cacheKey, type)
                 if (cachedAfterLock != null) {
                     log.debug("[{}] Cache HIT after lock: key={}", strategyName, cacheKey)
+                    recordOutcome(CacheOutcome.LOCK_WAIT)
                     return cachedAfterLock
                 }
 
                 // 4. 데이터 로드 및 캐시 저장
                 log.debug("[{}] Loading from source: key={}", strategyName, cacheKey)
-                val value = loader() ?: return null
+                recordOutcome(CacheOutcome.MISS)
+                val value = metrics.revalidate(RevalidateMode.SYNC) { loader() } ?: return null
 
                 val ttl = getJitteredTtl()
                 saveToCache(cacheKey, value, ttl)
@@ -78,12 +86,14 @@ class JitterLockCacheStrategy(
                 val cached = getFromCache(cacheKey, type)
                 if (cached != null) {
                     log.debug("[{}] Cache HIT after retry: key={}", strategyName, cacheKey)
+                    recordOutcome(CacheOutcome.LOCK_WAIT)
                     return cached
                 }
             }
 
             // 최종 fallback - 모든 재시도 후에도 캐시에 없으면 직접 로드
             log.warn("[{}] Fallback to direct load after retries: key={}", strategyName, cacheKey)
+            recordOutcome(CacheOutcome.LOCK_TIMEOUT_FALLBACK)
             return loader()
         }
     }
@@ -1,8 +1,10 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.CachedValue
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategyMetrics.RevalidateMode
 import com.fasterxml.jackson.databind.ObjectMapper
 import io.micrometer.core.instrument.Counter
 import io.micrometer.core.instrument.MeterRegistry
@@ -11,6 +13,7 @@ import org.springframework.data.redis.core.RedisTemplate
 import java.time.Duration
 import java.util.concurrent.CompletableFuture
 import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicInteger
 import kotlin.random.Random
 
 /**
@@ -25,13 +28,16 @@ class JitterSwrCacheStrategy(
     cacheObjectMapper: ObjectMapper,
     private val distributedLock: DistributedLock,
     meterRegistry: MeterRegistry
-) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper) {
+) : BaseCacheStrategy(redisTemplate, cacheProperties, cacheObjectMapper, meterRegistry) {
 
     override val strategyName: String = "jitter-swr"
 
     // 동시에 여러 갱신 요청이 발생하는 것을 방지하기 위한 마커
     private val refreshingKeys = ConcurrentHashMap.newKeySet<String>()
 
+    // 실행 중인 백그라운드 갱신 수 (무효화로 refreshingKeys에서 빠진 갱신도 끝날 때까지 포함)
+    private val inFlight = AtomicInteger()
+
     // ---- Metrics (SWR 관측용) ----
     private val cacheHit: Counter = Counter.builder("cache.swr.cache_hit")
         .tag("strategy", strategyName)
@@ -69,6 +75,7 @@ class JitterSwrCacheStrategy(
                 cachedValue.isFresh() -> {
                     log.debug("[{}] Cache HIT (fresh): key={}", strategyName, cacheKey)
                     cacheHit.increment()
+                    recordOutcome(CacheOutcome.HIT)
                     return cachedValue.value
                 }
 
@@ -76,7 +83,8 @@ class JitterSwrCacheStrategy(
                     log.debug("[{}] Cache HIT (stale): key={}, triggering background refresh", strategyName, cacheKey)
                     cacheStaleHit.increment()
                     // 백그라운드에서 갱신 트리거
-                    triggerBackgroundRefresh(key, cacheKey, type, loader)
+                    val triggered = triggerBackgroundRefresh(key, cacheKey, type, loader)
+                    recordOutcome(if (triggered) CacheOutcome.REFRESH_TRIGGERED else CacheOutcome.STALE)
                     // stale 데이터 즉시 반환
                     return cachedValue.value
                 }
@@ -100,26 +108,29 @@ class JitterSwrCacheStrategy(
         cacheKey: String,
         type: Class<T>,
         loader: () -> T?
-    ) {
+    ): Boolean {
         // 이미 갱신 중인 키는 스킵
         if (!refreshingKeys.add(cacheKey)) {
             log.debug("[{}] Already refreshing: key={}", strategyName, cacheKey)
-            return
+            return false
         }
 
+        inFlight.incrementAndGet()
         CompletableFuture.runAsync {
             val lockKey = "revalidate:${strategyName}:$key"
             val lockTtl = Duration.ofSeconds(cacheProperties.lockTimeoutSeconds)
             try {
                 // stale 구간에서는 "대기"하지 않고, 락을 얻는 경우에만 갱신 수행 (사용자 응답 지연 방지)
-                if (!distributedLock.tryLock(lockKey, lockTtl)) {
+                val acquired = distributedLock.tryLock(lockKey, lockTtl)
+                metrics.lockAcquire(acquired)
+                if (!acquired) {
                     return@runAsync
                 }
 
                 revalidateStarted.increment()
                 log.debug("[{}] Background refresh started: key={}", strategyName, cacheKey)
                 revalidateDuration.recordCallable {
-                    loadAndCache(cacheKey, loader)
+                    metrics.revalidate(RevalidateMode.BACKGROUND) { loadAndCache(cacheKey, loader) }
                 }
                 log.debug("[{}] Background refresh completed: key={}", strategyName, cacheKey)
                 revalidateFinished.increment()
@@ -129,8 +140,10 @@ class JitterSwrCacheStrategy(
             } finally {
                 distributedLock.unlock(lockKey)
                 refreshingKeys.remove(cacheKey)
+                inFlight.decrementAndGet()
             }
         }
+        return true
     }
 
     private fun <T : Any> loadWithLock(
@@ -145,13 +158,17 @@ class JitterSwrCacheStrategy(
         val maxRetries = cacheProperties.lockMaxRetries
 
         // 1) 즉시 락 획득 시도 (대기 없음)
-        if (distributedLock.tryLock(lockKey, lockTtl)) {
+        val acquired = distributedLock.tryLock(lockKey, lockTtl)
+        metrics.lockAcquire(acquired)
+        if (acquired) {
             try {
                 val afterLock = getCachedValueFromCache(cacheKey, type)
                 if (afterLock != null && !afterLock.isExpired()) {
+                    recordOutcome(CacheOutcome.HIT)
                     return afterLock.value
                 }
-                return loadAndCache(cacheKey, loader)
+                recordOutcome(CacheOutcome.MISS)
+                return metrics.revalidate(RevalidateMode.SYNC) { loadAndCache(cacheKey, loader) }
             } finally {
                 distributedLock.unlock(lockKey)
             }
@@ -167,12 +184,14 @@ class JitterSwrCacheStrategy(
             }
             val cached = getCachedValueFromCache(cacheKey, type)
             if (cached != null && !cached.isExpired()) {
+                recordOutcome(CacheOutcome.LOCK_WAIT)
                 return cached.value
             }
             // 짧은 재시도 동안 락을 재시도하지 않고 캐시만 확인 (SWR 특성상 stale면 이미 반환됨)
         }
 
         // 3) 최종적으로도 캐시에 없으면 마지막 수단으로 로더 호출
+        recordOutcome(CacheOutcome.LOCK_TIMEOUT_FALLBACK)
         return loader()
     }
 
@@ -196,10 +215,9 @@ class JitterSwrCacheStrategy(
         return value
     }
 
-    override fun invalidate(key: String) {
-        val cacheKey = buildCacheKey(key)
-        redisTemplate.delete(cacheKey)
+    override fun onInvalidated(cacheKey: String) {
         refreshingKeys.remove(cacheKey)
-        log.debug("[{}] Cache INVALIDATE: key={}", strategyName, cacheKey)
     }
+
+    override fun inFlightRefreshes(): Int = inFlight.get()
 }
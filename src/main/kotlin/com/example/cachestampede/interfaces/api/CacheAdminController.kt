@@ -0,0 +1,73 @@
+package com.example.cachestampede.interfaces.api
+
+import com.example.cachestampede.application.product.CacheState
+import com.example.cachestampede.application.product.InvalidationTarget
+import com.example.cachestampede.application.product.ProductCacheInvalidator
+import com.example.cachestampede.application.product.ProductCacheResetter
+import com.example.cachestampede.infrastructure.cache.CacheProperties
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.*
+import java.time.Duration
+
+@RestController
+@RequestMapping("/api/v1/admin/cache")
+class CacheAdminController(
+    private val cacheProperties: CacheProperties,
+    private val productCacheInvalidator: ProductCacheInvalidator,
+    private val productCacheResetter: ProductCacheResetter
+) {
+    /**
+     * 실제 적용된 cache.stampede.* 설정 조회 (로드 테스트의 TTL 타이밍 계산용, 읽기 전용)
+     */
+    @GetMapping("/properties")
+    fun getProperties(): ResponseEntity<CacheProperties> = ResponseEntity.ok(cacheProperties)
+
+    /**
+     * 대상 지정 캐시 무효화 - ids / category / all 중 정확히 하나, strategies 생략 시 모든 전략
+     */
+    @PostMapping("/invalidate")
+    fun invalidate(@RequestBody request: CacheInvalidationRequest): ResponseEntity<Any> {
+        val target = request.toTarget()
+            ?: return ResponseEntity.badRequest().body(mapOf(
+                "error" to "exactly one of ids, category or all must be given"
+            ))
+        val unknown = request.strategies.orEmpty() - productCacheInvalidator.strategyNames.toSet()
+        if (unknown.isNotEmpty()) {
+            return ResponseEntity.badRequest().body(mapOf(
+                "error" to "unknown strategies $unknown (expected some of ${productCacheInvalidator.strategyNames})"
+            ))
+        }
+
+        return ResponseEntity.ok(productCacheInvalidator.invalidate(target, request.strategies))
+    }
+
+    /**
+     * 전략별 캐시 항목 수 / 진행 중인 백그라운드 갱신 수 / 락 수 (전략 간 격리 검증용)
+     */
+    @GetMapping("/state")
+    fun getState(): ResponseEntity<CacheState> = ResponseEntity.ok(productCacheResetter.state())
+
+    /**
+     * 서버 상태 초기화 - 진행 중인 갱신을 최대 drainTimeoutMs까지 기다린 뒤 모든 전략의 캐시 / 락 삭제
+     */
+    @PostMapping("/reset")
+    fun reset(@RequestParam(defaultValue = "5000") drainTimeoutMs: Long): ResponseEntity<Any> {
+        if (drainTimeoutMs < 0) {
+            return ResponseEntity.badRequest().body(mapOf("error" to "drainTimeoutMs must be >= 0"))
+        }
+        return ResponseEntity.ok(productCacheResetter.reset(Duration.ofMillis(drainTimeoutMs)))
+    }
+}
+
+data class CacheInvalidationRequest(
+    val strategies: List<String>? = null, // meta.strategy 값 (basic, jitter, jitter-swr, jitter-lock, full-protection)
+    val ids: List<Long>? = null,
+    val category: String? = null,
+    val all: Boolean = false
+) {
+    fun toTarget(): InvalidationTarget? = listOfNotNull(
+        ids?.let { InvalidationTarget.Ids(it) },
+        category?.let { InvalidationTarget.Category(it) },
+        InvalidationTarget.All.takeIf { all }
+    ).singleOrNull()
+}
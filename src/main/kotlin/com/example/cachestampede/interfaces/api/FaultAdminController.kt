@@ -0,0 +1,95 @@
+package com.example.cachestampede.interfaces.api
+
+import com.example.cachestampede.application.product.OriginFault
+import com.example.cachestampede.application.product.OriginFaultInjector
+import com.example.cachestampede.application.product.OriginFaultStatus
+import com.example.cachestampede.infrastructure.cache.CacheOutage
+import com.example.cachestampede.infrastructure.cache.CacheOutageStatus
+import com.example.cachestampede.infrastructure.cache.CacheOutageSwitch
+import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.*
+import java.time.Duration
+
+@RestController
+@RequestMapping("/api/v1/admin/faults")
+class FaultAdminController(
+    private val originFaultInjector: OriginFaultInjector,
+    private val distributedLock: DistributedLock,
+    private val cacheOutageSwitch: CacheOutageSwitch
+) {
+    /**
+     * 현재 원본 로드 장애 설정 조회 (time box가 끝났으면 장애 없음)
+     */
+    @GetMapping("/origin")
+    fun getOriginFault(): ResponseEntity<OriginFaultStatus> = ResponseEntity.ok(originFaultInjector.current())
+
+    /**
+     * 원본 로드 장애 설정 (로드 테스트에서 느린 / 실패하는 원본 재현용) - 이전 설정을 대체
+     */
+    @PutMapping("/origin")
+    fun updateOriginFault(@RequestBody fault: OriginFault): ResponseEntity<OriginFaultStatus> =
+        ResponseEntity.ok(originFaultInjector.update(fault))
+
+    /**
+     * 원본 로드 장애 해제
+     */
+    @DeleteMapping("/origin")
+    fun clearOriginFault(): ResponseEntity<OriginFaultStatus> = ResponseEntity.ok(originFaultInjector.clear())
+
+    /**
+     * 현재 캐시 계층 장애 상태 조회 (time box가 끝났으면 정상)
+     */
+    @GetMapping("/cache")
+    fun getCacheOutage(): ResponseEntity<CacheOutageStatus> = ResponseEntity.ok(cacheOutageSwitch.current())
+
+    /**
+     * 캐시 계층 장애 시작 - 이후 모든 Redis 명령(캐시 / 분산 락)이 연결 실패로 끝난다
+     */
+    @PutMapping("/cache")
+    fun takeDownCache(@RequestBody outage: CacheOutage): ResponseEntity<CacheOutageStatus> =
+        ResponseEntity.ok(cacheOutageSwitch.takeDown(outage))
+
+    /**
+     * 캐시 계층 복구 - flush=true면 캐시 / 락 키를 비운 콜드 캐시로 복구
+     */
+    @DeleteMapping("/cache")
+    fun restoreCache(@RequestParam(defaultValue = "false") flush: Boolean): ResponseEntity<Map<String, Any>> {
+        val flushedKeys = cacheOutageSwitch.restore(flush)
+        return ResponseEntity.ok(mapOf(
+            "status" to cacheOutageSwitch.current(),
+            "flushedKeys" to flushedKeys
+        ))
+    }
+
+    /**
+     * 갱신 락을 잡은 채 죽은 보유자 재현 - 해제 없이 ttlSeconds 동안 남는 락을 심는다
+     *
+     * 락 키는 JitterLockCacheStrategy / FullProtectionCacheStrategy의 동기 갱신 락과 같은 "refresh:{strategy}:{id}".
+     * 이미 락이 있는 키는 건너뛴다. 보유자 없이 심으므로 요청 스레드의 unlock으로는 풀리지 않는다.
+     */
+    @PostMapping("/orphan-locks")
+    fun plantOrphanLocks(
+        @RequestParam strategy: String,
+        @RequestParam ids: List<Long>,
+        @RequestParam ttlSeconds: Long
+    ): ResponseEntity<Map<String, Any>> {
+        if (strategy !in LOCKING_STRATEGIES || ttlSeconds <= 0) {
+            return ResponseEntity.badRequest().body(mapOf(
+                "error" to "strategy must be one of $LOCKING_STRATEGIES and ttlSeconds must be positive"
+            ))
+        }
+
+        val planted = ids.filter { id -> distributedLock.plant("refresh:$strategy:$id", Duration.ofSeconds(ttlSeconds)) }
+        return ResponseEntity.ok(mapOf(
+            "strategy" to strategy,
+            "productIds" to planted,
+            "ttlSeconds" to ttlSeconds
+        ))
+    }
+
+    companion object {
+        // 캐시 미스 시 요청 스레드가 락을 잡고 로드하는 전략 (meta.strategy 값)
+        private val LOCKING_STRATEGIES = listOf("jitter-lock", "full-protection")
+    }
+}
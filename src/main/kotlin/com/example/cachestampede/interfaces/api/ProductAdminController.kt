@@ -2,6 +2,7 @@ package com.example.cachestampede.interfaces.api
 
 import com.example.cachestampede.application.product.ProductDto
 import com.example.cachestampede.application.product.ProductService
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategy
 import jakarta.validation.Valid
 import jakarta.validation.constraints.NotBlank
 import jakarta.validation.constraints.Positive
@@ -13,7 +14,8 @@ import java.math.BigDecimal
 @RestController
 @RequestMapping("/api/v1/admin/products")
 class ProductAdminController(
-    private val productService: ProductService
+    private val productService: ProductService,
+    private val cacheStrategies: List<CacheStrategy>
 ) {
     /**
      * 상품 생성 (테스트 데이터 생성용)
@@ -49,6 +51,63 @@ class ProductAdminController(
             "productIds" to products.map { it.id }
         ))
     }
+
+    /**
+     * 상품 수정 (쓰기 경로 테스트용) - 요청에 없는 필드는 유지
+     *
+     * invalidate=true면 DB 커밋 후 모든 전략의 캐시를 지운다. (update → delete 순서, 캐시에 먼저 쓰지 않음)
+     * false면 캐시는 TTL이 끝날 때까지 이전 값을 그대로 반환한다.
+     */
+    @PutMapping("/{id}")
+    fun updateProduct(
+        @PathVariable id: Long,
+        @RequestParam(defaultValue = "false") invalidate: Boolean,
+        @Valid @RequestBody request: UpdateProductRequest
+    ): ResponseEntity<Map<String, Any>> {
+        val product = productService.update(
+            id = id,
+            name = request.name,
+            description = request.description,
+            price = request.price,
+            stockQuantity = request.stockQuantity,
+            category = request.category
+        ) ?: return ResponseEntity.notFound().build()
+
+        val invalidated = if (invalidate) {
+            cacheStrategies.onEach { it.invalidate(id.toString()) }.map { it.strategyName }
+        } else {
+            emptyList()
+        }
+        return ResponseEntity.ok(mapOf(
+            "product" to product,
+            "invalidated" to invalidated
+        ))
+    }
+
+    /**
+     * 현재 DB에 커밋된 상품 조회 (쓰기 경로 테스트에서 최신 버전 / updatedAt 확인용) - 캐시를 거치지 않는다
+     */
+    @GetMapping("/{id}")
+    fun getCurrentProduct(@PathVariable id: Long): ResponseEntity<ProductDto> {
+        val product = productService.findCurrent(id) ?: return ResponseEntity.notFound().build()
+        return ResponseEntity.ok(product)
+    }
+
+    /**
+     * 존재하는 상품 ID 조회 (로드 테스트 setup에서 시드 필요 여부 확인용)
+     */
+    @GetMapping("/existing")
+    fun findExistingProducts(@RequestParam ids: List<Long>): ResponseEntity<Map<String, Any>> {
+        return ResponseEntity.ok(mapOf("productIds" to productService.findExistingIds(ids)))
+    }
+
+    /**
+     * 상품 일괄 삭제 (로드 테스트 teardown 정리용)
+     */
+    @DeleteMapping
+    fun deleteProducts(@RequestParam ids: List<Long>): ResponseEntity<Map<String, Any>> {
+        return ResponseEntity.ok(mapOf("deleted" to productService.deleteByIds(ids)))
+    }
 }
 
 data class CreateProductRequest(
@@ -62,3 +121,13 @@ data class CreateProductRequest(
     @field:NotBlank
     val category: String
 )
+
+data class UpdateProductRequest(
+    val name: String? = null,
+    val description: String? = null,
+    @field:Positive
+    val price: BigDecimal? = null,
+    @field:Positive
+    val stockQuantity: Int? = null,
+    val category: String? = null
+)
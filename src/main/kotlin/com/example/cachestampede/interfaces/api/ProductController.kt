@@ -2,6 +2,8 @@ package com.example.cachestampede.interfaces.api
 
 import com.example.cachestampede.application.product.ProductDto
 import com.example.cachestampede.application.product.ProductService
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.strategy.*
 import org.slf4j.LoggerFactory
 import org.springframework.http.ResponseEntity
@@ -27,11 +29,11 @@ class ProductController(
         log.debug("Request: no-cache, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = productService.findById(id)
+        val product = productService.findById(id, "no-cache")
             ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "no-cache", duration))
+        return toResponse(product, "no-cache", duration, CacheOutcome.MISS)
     }
 
     /**
@@ -42,14 +44,16 @@ class ProductController(
         log.debug("Request: basic, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = basicCacheStrategy.getOrLoad(
-            key = id.toString(),
-            type = ProductDto::class.java
-        ) { productService.findById(id) }
-            ?: return ResponseEntity.notFound().build()
+        val (product, outcome) = CacheOutcomeContext.capture {
+            basicCacheStrategy.getOrLoad(
+                key = id.toString(),
+                type = ProductDto::class.java
+            ) { productService.findById(id, "basic") }
+        }
+        product ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "basic", duration))
+        return toResponse(product, "basic", duration, outcome)
     }
 
     /**
@@ -60,14 +64,16 @@ class ProductController(
         log.debug("Request: jitter, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = jitterCacheStrategy.getOrLoad(
-            key = id.toString(),
-            type = ProductDto::class.java
-        ) { productService.findById(id) }
-            ?: return ResponseEntity.notFound().build()
+        val (product, outcome) = CacheOutcomeContext.capture {
+            jitterCacheStrategy.getOrLoad(
+                key = id.toString(),
+                type = ProductDto::class.java
+            ) { productService.findById(id, "jitter") }
+        }
+        product ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "jitter", duration))
+        return toResponse(product, "jitter", duration, outcome)
     }
 
     /**
@@ -78,14 +84,16 @@ class ProductController(
         log.debug("Request: jitter-swr, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = jitterSwrCacheStrategy.getOrLoad(
-            key = id.toString(),
-            type = ProductDto::class.java
-        ) { productService.findById(id) }
-            ?: return ResponseEntity.notFound().build()
+        val (product, outcome) = CacheOutcomeContext.capture {
+            jitterSwrCacheStrategy.getOrLoad(
+                key = id.toString(),
+                type = ProductDto::class.java
+            ) { productService.findById(id, "jitter-swr") }
+        }
+        product ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "jitter-swr", duration))
+        return toResponse(product, "jitter-swr", duration, outcome)
     }
 
     /**
@@ -96,14 +104,16 @@ class ProductController(
         log.debug("Request: jitter-lock, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = jitterLockCacheStrategy.getOrLoad(
-            key = id.toString(),
-            type = ProductDto::class.java
-        ) { productService.findById(id) }
-            ?: return ResponseEntity.notFound().build()
+        val (product, outcome) = CacheOutcomeContext.capture {
+            jitterLockCacheStrategy.getOrLoad(
+                key = id.toString(),
+                type = ProductDto::class.java
+            ) { productService.findById(id, "jitter-lock") }
+        }
+        product ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "jitter-lock", duration))
+        return toResponse(product, "jitter-lock", duration, outcome)
     }
 
     /**
@@ -114,14 +124,30 @@ class ProductController(
         log.debug("Request: full-protection, id={}", id)
         val startTime = System.currentTimeMillis()
 
-        val product = fullProtectionCacheStrategy.getOrLoad(
-            key = id.toString(),
-            type = ProductDto::class.java
-        ) { productService.findById(id) }
-            ?: return ResponseEntity.notFound().build()
+        val (product, outcome) = CacheOutcomeContext.capture {
+            fullProtectionCacheStrategy.getOrLoad(
+                key = id.toString(),
+                type = ProductDto::class.java
+            ) { productService.findById(id, "full-protection") }
+        }
+        product ?: return ResponseEntity.notFound().build()
 
         val duration = System.currentTimeMillis() - startTime
-        return ResponseEntity.ok(ProductResponse.from(product, "full-protection", duration))
+        return toResponse(product, "full-protection", duration, outcome)
+    }
+
+    /**
+     * 캐시 처리 결과를 헤더(X-Cache-Outcome)와 meta.cacheOutcome으로 함께 노출
+     */
+    private fun toResponse(
+        product: ProductDto,
+        strategy: String,
+        duration: Long,
+        outcome: CacheOutcome?
+    ): ResponseEntity<ProductResponse> {
+        val builder = ResponseEntity.ok()
+        outcome?.let { builder.header(CacheOutcome.HEADER, it.name) }
+        return builder.body(ProductResponse.from(product, strategy, duration, outcome))
     }
 
     /**
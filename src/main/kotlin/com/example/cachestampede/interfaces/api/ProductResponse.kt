@@ -1,6 +1,7 @@
 package com.example.cachestampede.interfaces.api
 
 import com.example.cachestampede.application.product.ProductDto
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
 import java.math.BigDecimal
 import java.time.Instant
 
@@ -17,11 +18,17 @@ data class ProductResponse(
 ) {
     data class ResponseMeta(
         val strategy: String,
-        val responseTimeMs: Long
+        val responseTimeMs: Long,
+        val cacheOutcome: CacheOutcome? = null
     )
 
     companion object {
-        fun from(product: ProductDto, strategy: String, responseTimeMs: Long): ProductResponse {
+        fun from(
+            product: ProductDto,
+            strategy: String,
+            responseTimeMs: Long,
+            cacheOutcome: CacheOutcome? = null
+        ): ProductResponse {
             return ProductResponse(
                 id = product.id,
                 name = product.name,
@@ -33,7 +40,8 @@ data class ProductResponse(
                 updatedAt = product.updatedAt,
                 meta = ResponseMeta(
                     strategy = strategy,
-                    responseTimeMs = responseTimeMs
+                    responseTimeMs = responseTimeMs,
+                    cacheOutcome = cacheOutcome
                 )
             )
         }
@@ -0,0 +1,20 @@
+package com.example.cachestampede.interfaces.api
+
+import com.example.cachestampede.application.product.OriginLoadSnapshot
+import com.example.cachestampede.application.product.OriginLoadStats
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.GetMapping
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RestController
+
+@RestController
+@RequestMapping("/api/v1/admin/stats")
+class StatsAdminController(
+    private val originLoadStats: OriginLoadStats
+) {
+    /**
+     * 누적 원본(DB) 로드 횟수 (전략별 / 상품 키별) - 로드 테스트가 phase 전후 스냅샷 차이로 사용
+     */
+    @GetMapping("/origin-loads")
+    fun getOriginLoads(): ResponseEntity<OriginLoadSnapshot> = ResponseEntity.ok(originLoadStats.snapshot())
+}
@@ -0,0 +1,88 @@
+package com.example.cachestampede.application.product
+
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.longs.shouldBeGreaterThanOrEqual
+import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
+import java.time.Clock
+import java.time.Duration
+import java.time.Instant
+import java.time.ZoneId
+import java.time.ZoneOffset
+
+class OriginFaultInjectorTest : DescribeSpec({
+
+    lateinit var meterRegistry: SimpleMeterRegistry
+    lateinit var injector: OriginFaultInjector
+
+    beforeEach {
+        meterRegistry = SimpleMeterRegistry()
+        injector = OriginFaultInjector(meterRegistry)
+    }
+
+    describe("OriginFaultInjector") {
+        it("[성공] 기본값은 장애 없음") {
+            injector.current() shouldBe OriginFaultStatus.NONE
+            injector.apply(1L, "basic")
+        }
+
+        it("[성공] delayMs만큼 로드를 지연시키고 주입 횟수를 기록한다") {
+            injector.update(OriginFault(delayMs = 200))
+
+            val startNs = System.nanoTime()
+            injector.apply(1L, "jitter-swr")
+
+            (System.nanoTime() - startNs) / 1_000_000 shouldBeGreaterThanOrEqual 200L
+            meterRegistry.get("origin.fault.injected")
+                .tags("strategy", "jitter-swr", "type", "delay")
+                .counter().count() shouldBe 1.0
+        }
+
+        it("[실패] errorRate 1.0이면 OriginFaultException을 던진다") {
+            injector.update(OriginFault(errorRate = 1.0))
+
+            shouldThrow<OriginFaultException> { injector.apply(7L, "jitter-lock") }
+            meterRegistry.get("origin.fault.injected")
+                .tags("strategy", "jitter-lock", "type", "error")
+                .counter().count() shouldBe 1.0
+        }
+
+        it("[성공] productIds에 없는 상품은 장애 대상이 아니다") {
+            injector.update(OriginFault(errorRate = 1.0, productIds = setOf(1L)))
+
+            injector.apply(2L, "basic")
+            shouldThrow<OriginFaultException> { injector.apply(1L, "basic") }
+        }
+
+        it("[성공] durationSeconds가 지나면 자동으로 해제된다") {
+            var now = Instant.parse("2024-01-01T00:00:00Z")
+            val clock = object : Clock() {
+                override fun getZone() = ZoneOffset.UTC
+                override fun withZone(zone: ZoneId?) = this
+                override fun instant() = now
+            }
+            injector = OriginFaultInjector(meterRegistry, clock)
+
+            injector.update(OriginFault(errorRate = 1.0, durationSeconds = 10))
+            injector.current().expiresAt shouldBe Instant.parse("2024-01-01T00:00:10Z")
+
+            now = now.plus(Duration.ofSeconds(10))
+            injector.current() shouldBe OriginFaultStatus.NONE
+            injector.apply(1L, "basic")
+        }
+
+        it("[성공] clear 후에는 장애 없음으로 돌아간다") {
+            injector.update(OriginFault(delayMs = 1000, errorRate = 1.0))
+            injector.clear()
+
+            injector.current() shouldBe OriginFaultStatus.NONE
+        }
+
+        it("[실패] 범위를 벗어난 설정은 허용하지 않는다") {
+            shouldThrow<IllegalArgumentException> { OriginFault(delayMs = -1) }
+            shouldThrow<IllegalArgumentException> { OriginFault(errorRate = 1.5) }
+            shouldThrow<IllegalArgumentException> { OriginFault(durationSeconds = 0) }
+        }
+    }
+})
@@ -0,0 +1,69 @@
+package com.example.cachestampede.application.product
+
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
+import java.util.concurrent.CountDownLatch
+import java.util.concurrent.Executors
+import java.util.concurrent.TimeUnit
+
+class OriginLoadStatsTest : DescribeSpec({
+
+    lateinit var meterRegistry: SimpleMeterRegistry
+    lateinit var stats: OriginLoadStats
+
+    beforeEach {
+        meterRegistry = SimpleMeterRegistry()
+        stats = OriginLoadStats(meterRegistry)
+    }
+
+    describe("OriginLoadStats") {
+        it("[성공] 전략별 / 키별로 집계한다") {
+            stats.record("basic", 1L)
+            stats.record("basic", 1L)
+            stats.record("basic", 2L)
+            stats.record("jitter-lock", 1L)
+
+            val snapshot = stats.snapshot()
+
+            snapshot.total shouldBe 4
+            snapshot.strategies["basic"]?.total shouldBe 3
+            snapshot.strategies["basic"]?.byKey shouldBe mapOf(1L to 2L, 2L to 1L)
+            snapshot.strategies["jitter-lock"]?.total shouldBe 1
+        }
+
+        it("[성공] origin.load 카운터를 전략 태그로 증가시킨다") {
+            stats.record("full-protection", 1L)
+            stats.record("full-protection", 2L)
+
+            meterRegistry.get("origin.load").tag("strategy", "full-protection").counter().count() shouldBe 2.0
+        }
+
+        it("[성공] 동시 기록 시 누락 없이 집계한다") {
+            val threadCount = 50
+            val executor = Executors.newFixedThreadPool(threadCount)
+            val latch = CountDownLatch(threadCount)
+
+            repeat(threadCount) {
+                executor.submit {
+                    try {
+                        stats.record("basic", 1L)
+                    } finally {
+                        latch.countDown()
+                    }
+                }
+            }
+            latch.await(5, TimeUnit.SECONDS)
+            executor.shutdown()
+
+            stats.snapshot().strategies["basic"]?.byKey?.get(1L) shouldBe threadCount.toLong()
+        }
+
+        it("[성공] 기록이 없으면 빈 스냅샷") {
+            val snapshot = stats.snapshot()
+
+            snapshot.total shouldBe 0
+            snapshot.strategies shouldBe emptyMap()
+        }
+    }
+})
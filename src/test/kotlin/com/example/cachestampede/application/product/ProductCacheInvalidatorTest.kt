@@ -0,0 +1,71 @@
+package com.example.cachestampede.application.product
+
+import com.example.cachestampede.domain.product.Product
+import com.example.cachestampede.domain.product.ProductRepository
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategy
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.shouldBe
+import io.mockk.*
+import java.math.BigDecimal
+
+class ProductCacheInvalidatorTest : DescribeSpec({
+
+    val basic = mockk<CacheStrategy>()
+    val full = mockk<CacheStrategy>()
+    val productRepository = mockk<ProductRepository>()
+    val invalidator = ProductCacheInvalidator(listOf(basic, full), productRepository)
+
+    beforeEach {
+        clearAllMocks()
+        every { basic.strategyName } returns "basic"
+        every { full.strategyName } returns "full-protection"
+    }
+
+    describe("ProductCacheInvalidator") {
+        it("[성공] ID 목록 무효화 - 모든 전략") {
+            every { basic.invalidateAll(listOf("1", "2")) } returns 2L
+            every { full.invalidateAll(listOf("1", "2")) } returns 1L
+
+            val result = invalidator.invalidate(InvalidationTarget.Ids(listOf(1L, 2L)))
+
+            result shouldBe InvalidationResult("ids", listOf("basic", "full-protection"), 2, 3L)
+        }
+
+        it("[성공] 선택한 전략만 무효화") {
+            every { full.invalidateAll(listOf("1")) } returns 1L
+
+            val result = invalidator.invalidate(InvalidationTarget.Ids(listOf(1L)), listOf("full-protection"))
+
+            result.strategies shouldBe listOf("full-protection")
+            verify(exactly = 0) { basic.invalidateAll(any()) }
+        }
+
+        it("[성공] 카테고리 무효화 - 카테고리의 상품 ID로 변환") {
+            every { productRepository.findByCategory("Books") } returns listOf(
+                Product(id = 3, name = "a", price = BigDecimal.ONE, category = "Books"),
+                Product(id = 5, name = "b", price = BigDecimal.ONE, category = "Books")
+            )
+            every { basic.invalidateAll(listOf("3", "5")) } returns 2L
+
+            val result = invalidator.invalidate(InvalidationTarget.Category("Books"), listOf("basic"))
+
+            result shouldBe InvalidationResult("category:Books", listOf("basic"), 2, 2L)
+        }
+
+        it("[성공] 네임스페이스 전체 무효화") {
+            every { basic.invalidateNamespace() } returns 10L
+            every { full.invalidateNamespace() } returns 4L
+
+            val result = invalidator.invalidate(InvalidationTarget.All)
+
+            result shouldBe InvalidationResult("all", listOf("basic", "full-protection"), null, 14L)
+        }
+
+        it("[실패] 알 수 없는 전략은 허용하지 않는다") {
+            shouldThrow<IllegalArgumentException> {
+                invalidator.invalidate(InvalidationTarget.All, listOf("basic", "lru"))
+            }
+        }
+    }
+})
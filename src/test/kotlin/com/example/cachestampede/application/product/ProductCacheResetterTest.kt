@@ -0,0 +1,75 @@
+package com.example.cachestampede.application.product
+
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategy
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.shouldBe
+import io.mockk.*
+import org.springframework.data.redis.core.RedisTemplate
+import java.time.Duration
+
+class ProductCacheResetterTest : DescribeSpec({
+
+    val basic = mockk<CacheStrategy>()
+    val swr = mockk<CacheStrategy>()
+    val redisTemplate = mockk<RedisTemplate<String, Any>>()
+    val resetter = ProductCacheResetter(listOf(basic, swr), redisTemplate)
+
+    beforeEach {
+        clearAllMocks()
+        every { basic.strategyName } returns "basic"
+        every { swr.strategyName } returns "jitter-swr"
+        every { basic.inFlightRefreshes() } returns 0
+        every { redisTemplate.keys(any<String>()) } returns emptySet()
+    }
+
+    describe("ProductCacheResetter") {
+        it("[성공] 진행 중인 갱신이 끝나길 기다린 뒤 캐시와 락을 지운다") {
+            every { swr.inFlightRefreshes() } returnsMany listOf(2, 1, 0)
+            every { basic.invalidateNamespace() } returns 3L
+            every { swr.invalidateNamespace() } returns 2L
+            every { redisTemplate.keys("lock:*") } returns setOf("lock:revalidate:jitter-swr:1") andThen emptySet()
+            every { redisTemplate.delete(setOf("lock:revalidate:jitter-swr:1")) } returns 1L
+
+            val result = resetter.reset(Duration.ofSeconds(5))
+
+            result.drained shouldBe true
+            result.deletedKeys shouldBe 5L
+            result.deletedLocks shouldBe 1L
+            result.state.clean shouldBe true
+            verifyOrder {
+                swr.inFlightRefreshes()
+                basic.invalidateNamespace()
+                swr.invalidateNamespace()
+            }
+        }
+
+        it("[실패] timeout 안에 갱신이 끝나지 않으면 drained = false (삭제는 진행)") {
+            every { swr.inFlightRefreshes() } returns 1
+            every { basic.invalidateNamespace() } returns 0L
+            every { swr.invalidateNamespace() } returns 4L
+
+            val result = resetter.reset(Duration.ZERO)
+
+            result.drained shouldBe false
+            result.deletedKeys shouldBe 4L
+            result.state.clean shouldBe false
+            verify(exactly = 0) { redisTemplate.delete(any<Collection<String>>()) }
+        }
+
+        it("[성공] 전략별 캐시 항목 / 진행 중인 갱신 / 락 수 조회") {
+            every { swr.inFlightRefreshes() } returns 1
+            every { redisTemplate.keys("product:basic:*") } returns setOf("product:basic:1", "product:basic:2")
+            every { redisTemplate.keys("lock:*") } returns setOf("lock:revalidate:jitter-swr:1")
+
+            val state = resetter.state()
+
+            state shouldBe CacheState(
+                strategies = mapOf(
+                    "basic" to StrategyCacheState(keys = 2, inFlightRefreshes = 0),
+                    "jitter-swr" to StrategyCacheState(keys = 0, inFlightRefreshes = 1)
+                ),
+                locks = 1
+            )
+        }
+    }
+})
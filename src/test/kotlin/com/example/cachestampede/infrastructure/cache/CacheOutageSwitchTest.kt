@@ -0,0 +1,110 @@
+package com.example.cachestampede.infrastructure.cache
+
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.longs.shouldBeGreaterThanOrEqual
+import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
+import io.mockk.*
+import org.springframework.data.redis.RedisConnectionFailureException
+import org.springframework.data.redis.connection.RedisConnection
+import org.springframework.data.redis.connection.RedisConnectionFactory
+import org.springframework.data.redis.connection.RedisKeyCommands
+import java.time.Clock
+import java.time.Duration
+import java.time.Instant
+import java.time.ZoneId
+import java.time.ZoneOffset
+
+class CacheOutageSwitchTest : DescribeSpec({
+
+    val connectionFactory = mockk<RedisConnectionFactory>()
+    val connection = mockk<RedisConnection>(relaxUnitFun = true)
+    val keyCommands = mockk<RedisKeyCommands>()
+
+    lateinit var meterRegistry: SimpleMeterRegistry
+    lateinit var outageSwitch: CacheOutageSwitch
+
+    beforeEach {
+        clearAllMocks()
+        every { connectionFactory.connection } returns connection
+        every { connection.keyCommands() } returns keyCommands
+        meterRegistry = SimpleMeterRegistry()
+        outageSwitch = CacheOutageSwitch(connectionFactory, meterRegistry)
+    }
+
+    describe("CacheOutageSwitch") {
+        it("[성공] 기본값은 정상 상태") {
+            outageSwitch.current() shouldBe CacheOutageStatus.NONE
+            outageSwitch.check()
+        }
+
+        it("[실패] 장애 중에는 연결 실패를 던지고 거부 횟수를 기록한다") {
+            outageSwitch.takeDown(CacheOutage())
+
+            shouldThrow<RedisConnectionFailureException> { outageSwitch.check() }
+            meterRegistry.get("cache.outage.rejected").counter().count() shouldBe 1.0
+        }
+
+        it("[실패] timeoutMs가 있으면 그만큼 기다린 뒤 실패한다") {
+            outageSwitch.takeDown(CacheOutage(timeoutMs = 200))
+
+            val startNs = System.nanoTime()
+            shouldThrow<RedisConnectionFailureException> { outageSwitch.check() }
+
+            (System.nanoTime() - startNs) / 1_000_000 shouldBeGreaterThanOrEqual 200L
+        }
+
+        it("[성공] durationSeconds가 지나면 자동으로 복구된다") {
+            var now = Instant.parse("2024-01-01T00:00:00Z")
+            val clock = object : Clock() {
+                override fun getZone() = ZoneOffset.UTC
+                override fun withZone(zone: ZoneId?) = this
+                override fun instant() = now
+            }
+            outageSwitch = CacheOutageSwitch(connectionFactory, meterRegistry, clock)
+
+            outageSwitch.takeDown(CacheOutage(durationSeconds = 10))
+            outageSwitch.current().expiresAt shouldBe Instant.parse("2024-01-01T00:00:10Z")
+
+            now = now.plus(Duration.ofSeconds(10))
+            outageSwitch.current() shouldBe CacheOutageStatus.NONE
+            outageSwitch.check()
+        }
+
+        it("[성공] flush 없이 복구하면 키를 지우지 않는다") {
+            outageSwitch.takeDown(CacheOutage())
+
+            outageSwitch.restore(flush = false) shouldBe 0L
+
+            outageSwitch.current() shouldBe CacheOutageStatus.NONE
+            verify(exactly = 0) { connectionFactory.connection }
+        }
+
+        it("[성공] flush 복구는 캐시 / 락 키를 지운다") {
+            val cacheKey = "product:basic:1".toByteArray()
+            val lockKey = "lock:refresh:jitter-lock:1".toByteArray()
+            every { keyCommands.keys(any()) } answers {
+                when (String(firstArg<ByteArray>())) {
+                    "product:*" -> setOf(cacheKey)
+                    "lock:*" -> setOf(lockKey)
+                    else -> emptySet()
+                }
+            }
+            every { keyCommands.del(*anyVararg<ByteArray>()) } returns 1L
+            outageSwitch.takeDown(CacheOutage())
+
+            outageSwitch.restore(flush = true) shouldBe 2L
+
+            outageSwitch.current() shouldBe CacheOutageStatus.NONE
+            verify { keyCommands.del(cacheKey) }
+            verify { keyCommands.del(lockKey) }
+            verify { connection.close() }
+        }
+
+        it("[실패] 범위를 벗어난 설정은 허용하지 않는다") {
+            shouldThrow<IllegalArgumentException> { CacheOutage(timeoutMs = -1) }
+            shouldThrow<IllegalArgumentException> { CacheOutage(durationSeconds = 0) }
+        }
+    }
+})
@@ -0,0 +1,59 @@
+package com.example.cachestampede.infrastructure.cache
+
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.shouldBe
+import java.util.concurrent.Executors
+
+class CacheOutcomeContextTest : DescribeSpec({
+
+    beforeEach {
+        CacheOutcomeContext.consume()
+    }
+
+    describe("CacheOutcomeContext") {
+        it("[성공] 기록한 결과를 consume으로 꺼내고 비운다") {
+            CacheOutcomeContext.record(CacheOutcome.HIT)
+
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.HIT
+            CacheOutcomeContext.consume() shouldBe null
+        }
+
+        it("[성공] 마지막으로 기록한 결과가 남는다") {
+            CacheOutcomeContext.record(CacheOutcome.MISS)
+            CacheOutcomeContext.record(CacheOutcome.LOCK_WAIT)
+
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.LOCK_WAIT
+        }
+
+        it("[성공] 다른 스레드의 기록은 보이지 않는다") {
+            val executor = Executors.newSingleThreadExecutor()
+            executor.submit { CacheOutcomeContext.record(CacheOutcome.STALE) }.get()
+            executor.shutdown()
+
+            CacheOutcomeContext.consume() shouldBe null
+        }
+
+        it("[성공] capture - block 결과와 기록된 결과를 함께 반환하고 비운다") {
+            val (value, outcome) = CacheOutcomeContext.capture {
+                CacheOutcomeContext.record(CacheOutcome.MISS)
+                "value"
+            }
+
+            value shouldBe "value"
+            outcome shouldBe CacheOutcome.MISS
+            CacheOutcomeContext.consume() shouldBe null
+        }
+
+        it("[실패] capture - block이 예외를 던져도 기록을 비운다") {
+            shouldThrow<IllegalStateException> {
+                CacheOutcomeContext.capture {
+                    CacheOutcomeContext.record(CacheOutcome.LOCK_TIMEOUT_FALLBACK)
+                    throw IllegalStateException("origin down")
+                }
+            }
+
+            CacheOutcomeContext.consume() shouldBe null
+        }
+    }
+})
@@ -1,9 +1,11 @@
 package com.example.cachestampede.infrastructure.cache.lock
 
+import io.kotest.assertions.throwables.shouldThrow
 import io.kotest.core.spec.style.DescribeSpec
 import io.kotest.matchers.shouldBe
 import io.mockk.*
 import io.micrometer.core.instrument.simple.SimpleMeterRegistry
+import org.springframework.data.redis.RedisConnectionFailureException
 import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.data.redis.core.ValueOperations
 import org.springframework.data.redis.core.script.DefaultRedisScript
@@ -20,7 +22,8 @@ class RedisDistributedLockTest : DescribeSpec({
     }
 
     describe("RedisDistributedLock") {
-        val lock = RedisDistributedLock(redisTemplate, SimpleMeterRegistry())
+        val meterRegistry = SimpleMeterRegistry()
+        val lock = RedisDistributedLock(redisTemplate, meterRegistry)
 
         describe("tryLock") {
             it("[성공] 락 획득 성공") {
@@ -39,6 +42,14 @@ class RedisDistributedLockTest : DescribeSpec({
 
                 result shouldBe false
             }
+
+            it("[실패] Redis 장애 시 예외를 그대로 던지고 오류 횟수를 기록한다") {
+                every { valueOps.setIfAbsent(any(), any(), any<Duration>()) } throws
+                    RedisConnectionFailureException("connection refused")
+
+                shouldThrow<RedisConnectionFailureException> { lock.tryLock("test-key", Duration.ofSeconds(5)) }
+                meterRegistry.get("cache.lock.redis_errors").counter().count() shouldBe 1.0
+            }
         }
 
         describe("unlock") {
@@ -56,6 +67,26 @@ class RedisDistributedLockTest : DescribeSpec({
             }
         }
 
+        describe("plant") {
+            it("[성공] 보유자 없는 락 설치 - 같은 스레드의 unlock으로 지워지지 않는다") {
+                every { valueOps.setIfAbsent(any(), any(), any<Duration>()) } returns true
+
+                val result = lock.plant("orphan-key", Duration.ofSeconds(30))
+                lock.unlock("orphan-key")
+
+                result shouldBe true
+                verify { valueOps.setIfAbsent(eq("lock:orphan-key"), any(), eq(Duration.ofSeconds(30))) }
+                // ThreadLocal에 락 값이 없으므로 해제 스크립트를 실행하지 않는다
+                verify(exactly = 0) { redisTemplate.execute(any<DefaultRedisScript<Long>>(), any<List<String>>(), any()) }
+            }
+
+            it("[실패] 이미 락이 있으면 설치하지 않는다") {
+                every { valueOps.setIfAbsent(any(), any(), any<Duration>()) } returns false
+
+                lock.plant("orphan-key", Duration.ofSeconds(30)) shouldBe false
+            }
+        }
+
         describe("waitForLock") {
             it("[성공] 첫 번째 시도에서 락 획득") {
                 every { valueOps.setIfAbsent(any(), any(), any<Duration>()) } returns true
@@ -1,10 +1,13 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.fasterxml.jackson.databind.ObjectMapper
 import io.kotest.core.spec.style.DescribeSpec
 import io.kotest.matchers.shouldBe
 import io.kotest.matchers.shouldNotBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
 import io.mockk.*
 import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.data.redis.core.ValueOperations
@@ -16,6 +19,7 @@ class BaseCacheStrategyTest : DescribeSpec({
     val redisTemplate = mockk<RedisTemplate<String, Any>>()
     val valueOps = mockk<ValueOperations<String, Any>>()
     val objectMapper = ObjectMapper()
+    val meterRegistry = SimpleMeterRegistry()
     val cacheProperties = CacheProperties(
         baseTtlSeconds = 60,
         jitterMaxSeconds = 10,
@@ -31,7 +35,7 @@ class BaseCacheStrategyTest : DescribeSpec({
     }
 
     describe("BaseCacheStrategy (기본 캐시)") {
-        val strategy = BaseCacheStrategy(redisTemplate, cacheProperties, objectMapper)
+        val strategy = BaseCacheStrategy(redisTemplate, cacheProperties, objectMapper, meterRegistry)
 
         it("[성공] 캐시 HIT - 캐시된 값 반환") {
             every { valueOps.get("product:basic:1") } returns "cached_value"
@@ -44,6 +48,7 @@ class BaseCacheStrategyTest : DescribeSpec({
 
             result shouldBe "cached_value"
             loaderCalled.get() shouldBe 0
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.HIT
         }
 
         it("[성공] 캐시 MISS - loader 호출 후 캐시 저장") {
@@ -59,6 +64,7 @@ class BaseCacheStrategyTest : DescribeSpec({
             result shouldBe "new_value"
             loaderCalled.get() shouldBe 1
             verify { valueOps.set("product:basic:1", "new_value", Duration.ofSeconds(60)) }
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.MISS
         }
 
         it("[성공] loader가 null 반환 시 캐시 저장하지 않음") {
@@ -77,5 +83,30 @@ class BaseCacheStrategyTest : DescribeSpec({
 
             verify { redisTemplate.delete("product:basic:1") }
         }
+
+        it("[성공] 여러 키 일괄 무효화 - 지워진 항목 수 반환") {
+            every { redisTemplate.delete(any<Collection<String>>()) } returns 1L
+
+            strategy.invalidateAll(listOf("1", "2")) shouldBe 1L
+
+            verify { redisTemplate.delete(listOf("product:basic:1", "product:basic:2")) }
+        }
+
+        it("[성공] 네임스페이스 전체 무효화 - 자기 전략 키만 지운다") {
+            every { redisTemplate.keys("product:basic:*") } returns setOf("product:basic:1", "product:basic:7")
+            every { redisTemplate.delete(any<Collection<String>>()) } returns 2L
+
+            strategy.invalidateNamespace() shouldBe 2L
+
+            verify { redisTemplate.delete(setOf("product:basic:1", "product:basic:7")) }
+        }
+
+        it("[성공] 네임스페이스가 비어 있으면 삭제하지 않는다") {
+            every { redisTemplate.keys("product:basic:*") } returns emptySet()
+
+            strategy.invalidateNamespace() shouldBe 0L
+
+            verify(exactly = 0) { redisTemplate.delete(any<Collection<String>>()) }
+        }
     }
 })
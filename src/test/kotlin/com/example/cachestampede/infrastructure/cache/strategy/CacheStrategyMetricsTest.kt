@@ -0,0 +1,73 @@
+package com.example.cachestampede.infrastructure.cache.strategy
+
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.strategy.CacheStrategyMetrics.RevalidateMode
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.core.spec.style.DescribeSpec
+import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
+
+class CacheStrategyMetricsTest : DescribeSpec({
+
+    lateinit var meterRegistry: SimpleMeterRegistry
+    lateinit var metrics: CacheStrategyMetrics
+
+    beforeEach {
+        meterRegistry = SimpleMeterRegistry()
+        metrics = CacheStrategyMetrics("jitter-lock", meterRegistry)
+    }
+
+    describe("CacheStrategyMetrics") {
+        it("[성공] 모든 outcome 카운터를 strategy 태그로 미리 등록한다") {
+            CacheOutcome.entries.forEach { outcome ->
+                meterRegistry.get(CacheStrategyMetrics.OUTCOME)
+                    .tag("strategy", "jitter-lock")
+                    .tag("outcome", outcome.name)
+                    .counter().count() shouldBe 0.0
+            }
+
+            metrics.outcome(CacheOutcome.LOCK_WAIT)
+
+            meterRegistry.get(CacheStrategyMetrics.OUTCOME)
+                .tag("outcome", "LOCK_WAIT")
+                .counter().count() shouldBe 1.0
+        }
+
+        it("[성공] 갱신 성공 시 started / finished와 소요 시간을 기록한다") {
+            val result = metrics.revalidate(RevalidateMode.SYNC) { "value" }
+
+            result shouldBe "value"
+            meterRegistry.get(CacheStrategyMetrics.REVALIDATE)
+                .tags("mode", "sync", "result", "started")
+                .counter().count() shouldBe 1.0
+            meterRegistry.get(CacheStrategyMetrics.REVALIDATE)
+                .tags("mode", "sync", "result", "finished")
+                .counter().count() shouldBe 1.0
+            meterRegistry.get(CacheStrategyMetrics.REVALIDATE_DURATION)
+                .tag("mode", "sync")
+                .timer().count() shouldBe 1L
+        }
+
+        it("[실패] 갱신 중 예외는 failed로 기록하고 그대로 던진다") {
+            shouldThrow<IllegalStateException> {
+                metrics.revalidate(RevalidateMode.BACKGROUND) { throw IllegalStateException("db down") }
+            }
+
+            meterRegistry.get(CacheStrategyMetrics.REVALIDATE)
+                .tags("mode", "background", "result", "failed")
+                .counter().count() shouldBe 1.0
+            meterRegistry.get(CacheStrategyMetrics.REVALIDATE)
+                .tags("mode", "background", "result", "finished")
+                .counter().count() shouldBe 0.0
+        }
+
+        it("[성공] 락 획득 성공 / 실패를 구분해 기록한다") {
+            metrics.lockAcquire(true)
+            metrics.lockAcquire(false)
+            metrics.lockAcquire(false)
+
+            meterRegistry.get(CacheStrategyMetrics.LOCK_ACQUIRE).tag("result", "acquired").counter().count() shouldBe 1.0
+            meterRegistry.get(CacheStrategyMetrics.LOCK_ACQUIRE).tag("result", "failed").counter().count() shouldBe 2.0
+        }
+    }
+})
@@ -1,5 +1,7 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.CachedValue
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
@@ -52,6 +54,7 @@ class FullProtectionCacheStrategyTest : DescribeSpec({
             val result = strategy.getOrLoad("1", String::class.java) { "new_value" }
 
             result shouldBe "fresh_value"
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.HIT
             verify(exactly = 0) { distributedLock.tryLock(any(), any()) }
             verify(exactly = 0) { distributedLock.waitForLock(any(), any(), any(), any()) }
         }
@@ -71,6 +74,7 @@ class FullProtectionCacheStrategyTest : DescribeSpec({
             val result = strategy.getOrLoad("1", String::class.java) { "new_value" }
 
             result shouldBe "stale_value"
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.REFRESH_TRIGGERED
             // 백그라운드 갱신 완료 대기
             Thread.sleep(200)
         }
@@ -92,6 +96,7 @@ class FullProtectionCacheStrategyTest : DescribeSpec({
             result shouldBe "new_value"
             verify { distributedLock.waitForLock("refresh:full-protection:1", any(), any(), any()) }
             verify { distributedLock.unlock("refresh:full-protection:1") }
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.MISS
         }
 
         it("[성공] 캐시 MISS - 락 획득 후 로드") {
@@ -141,7 +146,7 @@ class FullProtectionCacheStrategyTest : DescribeSpec({
                 cachedData.set(1)
             }
 
-            val strategy = FullProtectionCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock)
+            val strategy = FullProtectionCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock, meterRegistry)
 
             repeat(threadCount) {
                 executor.submit {
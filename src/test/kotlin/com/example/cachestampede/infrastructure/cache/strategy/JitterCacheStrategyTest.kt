@@ -6,6 +6,7 @@ import io.kotest.core.spec.style.DescribeSpec
 import io.kotest.matchers.longs.shouldBeGreaterThanOrEqual
 import io.kotest.matchers.longs.shouldBeLessThanOrEqual
 import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
 import io.mockk.*
 import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.data.redis.core.ValueOperations
@@ -16,6 +17,7 @@ class JitterCacheStrategyTest : DescribeSpec({
     val redisTemplate = mockk<RedisTemplate<String, Any>>()
     val valueOps = mockk<ValueOperations<String, Any>>()
     val objectMapper = ObjectMapper()
+    val meterRegistry = SimpleMeterRegistry()
     val cacheProperties = CacheProperties(
         baseTtlSeconds = 60,
         jitterMaxSeconds = 10,
@@ -31,7 +33,7 @@ class JitterCacheStrategyTest : DescribeSpec({
     }
 
     describe("JitterCacheStrategy (TTL Jitter)") {
-        val strategy = JitterCacheStrategy(redisTemplate, cacheProperties, objectMapper)
+        val strategy = JitterCacheStrategy(redisTemplate, cacheProperties, objectMapper, meterRegistry)
 
         it("[성공] TTL이 baseTTL ~ baseTTL+jitterMax 범위 내에서 생성됨") {
             every { valueOps.get("product:jitter:1") } returns null
@@ -1,10 +1,13 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
 import com.fasterxml.jackson.databind.ObjectMapper
 import io.kotest.core.spec.style.DescribeSpec
 import io.kotest.matchers.shouldBe
+import io.micrometer.core.instrument.simple.SimpleMeterRegistry
 import io.mockk.*
 import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.data.redis.core.ValueOperations
@@ -19,6 +22,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
     val valueOps = mockk<ValueOperations<String, Any>>()
     val distributedLock = mockk<DistributedLock>()
     val objectMapper = ObjectMapper()
+    val meterRegistry = SimpleMeterRegistry()
     val cacheProperties = CacheProperties(
         baseTtlSeconds = 60,
         jitterMaxSeconds = 10,
@@ -34,7 +38,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
     }
 
     describe("JitterLockCacheStrategy (TTL Jitter + Lock)") {
-        val strategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock)
+        val strategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock, meterRegistry)
 
         it("[성공] 캐시 HIT - 락 획득 없이 캐시 값 반환") {
             every { valueOps.get("product:jitter-lock:1") } returns "cached_value"
@@ -43,6 +47,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
 
             result shouldBe "cached_value"
             verify(exactly = 0) { distributedLock.waitForLock(any(), any(), any(), any()) }
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.HIT
         }
 
         it("[성공] 캐시 MISS + 락 획득 성공 - DB 조회 후 캐시 저장") {
@@ -61,6 +66,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
             loaderCalled.get() shouldBe 1
             verify { distributedLock.waitForLock("refresh:jitter-lock:1", any(), any(), any()) }
             verify { distributedLock.unlock("refresh:jitter-lock:1") }
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.MISS
         }
 
         it("[성공] 락 획득 후 캐시가 이미 갱신된 경우 - DB 조회하지 않음") {
@@ -76,6 +82,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
 
             result shouldBe "cached_by_other"
             loaderCalled.get() shouldBe 0
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.LOCK_WAIT
         }
 
         it("[성공] 락 획득 실패 + 대기 후 캐시에 값 있음 - 캐시 값 반환") {
@@ -85,6 +92,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
             val result = strategy.getOrLoad("1", String::class.java) { "new_value" }
 
             result shouldBe "cached_value"
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.LOCK_WAIT
         }
 
         it("[실패] 락 획득 실패 + 캐시에도 값 없음 - Fallback으로 직접 로드") {
@@ -94,6 +102,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
             val result = strategy.getOrLoad("1", String::class.java) { "fallback_value" }
 
             result shouldBe "fallback_value"
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.LOCK_TIMEOUT_FALLBACK
         }
 
         it("[성공] 전략 이름 확인") {
@@ -126,7 +135,7 @@ class JitterLockCacheStrategyTest : DescribeSpec({
             }
             every { valueOps.set(any(), any(), any<Duration>()) } just runs
 
-            val strategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock)
+            val strategy = JitterLockCacheStrategy(redisTemplate, cacheProperties, objectMapper, distributedLock, meterRegistry)
 
             repeat(threadCount) {
                 executor.submit {
@@ -1,5 +1,7 @@
 package com.example.cachestampede.infrastructure.cache.strategy
 
+import com.example.cachestampede.infrastructure.cache.CacheOutcome
+import com.example.cachestampede.infrastructure.cache.CacheOutcomeContext
 import com.example.cachestampede.infrastructure.cache.CacheProperties
 import com.example.cachestampede.infrastructure.cache.CachedValue
 import com.example.cachestampede.infrastructure.cache.lock.DistributedLock
@@ -12,6 +14,8 @@ import org.springframework.data.redis.core.RedisTemplate
 import org.springframework.data.redis.core.ValueOperations
 import java.time.Duration
 import java.time.Instant
+import java.util.concurrent.CountDownLatch
+import java.util.concurrent.TimeUnit
 import java.util.concurrent.atomic.AtomicInteger
 
 class JitterSwrCacheStrategyTest : DescribeSpec({
@@ -55,6 +59,7 @@ class JitterSwrCacheStrategyTest : DescribeSpec({
 
             result shouldBe "fresh_value"
             loaderCalled.get() shouldBe 0
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.HIT
         }
 
         it("[성공] Stale 상태 - stale 값 반환 + 백그라운드 갱신 트리거") {
@@ -72,11 +77,36 @@ class JitterSwrCacheStrategyTest : DescribeSpec({
             val result = strategy.getOrLoad("1", String::class.java) { "new_value" }
 
             result shouldBe "stale_value"
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.REFRESH_TRIGGERED
             // 백그라운드 갱신은 비동기로 발생
             Thread.sleep(200)  // 비동기 작업 완료 대기
             verify(atLeast = 0) { valueOps.set(any(), any(), any<Duration>()) }
         }
 
+        it("[성공] 진행 중인 백그라운드 갱신 수 - 갱신이 끝나면 0") {
+            val now = Instant.now()
+            val cachedValue = CachedValue(
+                value = "stale_value",
+                softExpireAt = now.minusSeconds(10),
+                hardExpireAt = now.plusSeconds(60)
+            )
+            every { valueOps.get("product:jitter-swr:2") } returns cachedValue
+            every { distributedLock.tryLock(any(), any()) } returns true
+            every { distributedLock.unlock(any()) } just runs
+            every { valueOps.set(any(), any(), any<Duration>()) } just runs
+            val release = CountDownLatch(1)
+
+            strategy.getOrLoad("2", String::class.java) {
+                release.await(5, TimeUnit.SECONDS)
+                "new_value"
+            }
+
+            strategy.inFlightRefreshes() shouldBe 1
+            release.countDown()
+            Thread.sleep(200)  // 비동기 작업 완료 대기
+            strategy.inFlightRefreshes() shouldBe 0
+        }
+
         it("[성공] Expired 상태 - 동기 갱신 수행") {
             val now = Instant.now()
             val expiredValue = CachedValue(
@@ -97,6 +127,7 @@ class JitterSwrCacheStrategyTest : DescribeSpec({
 
             result shouldBe "new_value"
             loaderCalled.get() shouldBe 1
+            CacheOutcomeContext.consume() shouldBe CacheOutcome.MISS
         }
 
         it("[성공] 캐시 MISS - 동기 로드 및 캐시 저장") {